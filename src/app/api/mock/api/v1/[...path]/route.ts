@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleMockRequest } from '@/lib/mock-backend';
+import { MOCK_BASE_URL, getEnvironments } from '@/lib/environments';
+import { checkBodySize, checkProxyAccess, getMaxBodyBytes, limitBodySize, resolveApiPath } from '@/lib/proxy-guard';
+
+// Mock Bluboy backend: mirrors the real /api/v1/* layout so it can be called like any other
+// base URL (e.g. with a copied curl command). The proxy serves it in-process; called directly
+// it gets the same guard as the proxy, including the mock/ admin endpoints being allowed only
+// when an environment uses the mock backend.
+async function handle(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const rejection = checkProxyAccess(request.headers) || checkBodySize(request.headers);
+  if (rejection) {
+    return NextResponse.json({ error: rejection.error }, { status: rejection.status });
+  }
+
+  const mockEnvironment = getEnvironments().find(({ baseUrl }) => baseUrl === MOCK_BASE_URL);
+  if (!mockEnvironment) {
+    return NextResponse.json({ error: 'No environment uses the mock backend' }, { status: 404 });
+  }
+
+  const resolvedParams = await params;
+  const resolvedPath = resolveApiPath(resolvedParams.path, mockEnvironment.id);
+  if ('error' in resolvedPath) {
+    return NextResponse.json({ error: resolvedPath.error }, { status: resolvedPath.status });
+  }
+
+  // Bodies sent without a Content-Length are cut off at the same limit as in the proxy
+  let bodyTooLarge = false;
+  const text = request.method === 'GET' || !request.body
+    ? ''
+    : await new Response(limitBodySize(request.body, () => {
+      bodyTooLarge = true;
+    })).text().catch(() => '');
+  if (bodyTooLarge) {
+    return NextResponse.json({ error: `Request body exceeds ${getMaxBodyBytes()} bytes` }, { status: 413 });
+  }
+
+  let body: unknown;
+  try {
+    body = text ? JSON.parse(text) : undefined;
+  } catch {
+    body = undefined;
+  }
+
+  const result = handleMockRequest({
+    method: request.method,
+    path: resolvedParams.path,
+    authorization: request.headers.get('authorization'),
+    body
+  });
+
+  return NextResponse.json(result.body, { status: result.status });
+}
+
+export {
+  handle as GET,
+  handle as POST,
+  handle as PUT,
+  handle as PATCH,
+  handle as DELETE
+};
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_ENVIRONMENT, isKnownEnvironment } from '@/lib/environments';
+import { checkProxyAccess, getAllowedPathPrefixes } from '@/lib/proxy-guard';
+
+// The API path prefixes /api/proxy forwards for an environment, so the dashboard can
+// show what is reachable (PROXY_ALLOWED_PATH_PREFIXES is only readable on the server)
+export async function GET(request: NextRequest) {
+  const rejection = checkProxyAccess(request.headers);
+  if (rejection) {
+    return NextResponse.json({ error: rejection.error }, { status: rejection.status });
+  }
+
+  const environment = request.nextUrl.searchParams.get('environment') || DEFAULT_ENVIRONMENT;
+  if (!isKnownEnvironment(environment)) {
+    return NextResponse.json({ error: `Unknown environment "${environment}"` }, { status: 400 });
+  }
+
+  return NextResponse.json({ allowedPathPrefixes: getAllowedPathPrefixes(environment) });
+}
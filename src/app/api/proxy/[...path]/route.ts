@@ -1,150 +1,307 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { ApiConfig, getApiConfig } from '@/lib/api-config';
+import { DEFAULT_ENVIRONMENT, MOCK_BASE_URL, getEnvironments, isKnownEnvironment } from '@/lib/environments';
+import { handleMockRequest } from '@/lib/mock-backend';
+import {
+  PROXY_SECRET_HEADER,
+  ProxyRejection,
+  checkBodySize,
+  checkProxyAccess,
+  getMaxBodyBytes,
+  limitBodySize,
+  resolveApiPath
+} from '@/lib/proxy-guard';
+import {
+  BodyCapture,
+  TrafficRequestInfo,
+  captureBody,
+  createTrafficId,
+  getTrafficPlayer,
+  recordTraffic,
+  redactHeaders
+} from '@/lib/traffic-log';
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ path: string[] }> }
-) {
-  try {
-    const searchParams = request.nextUrl.searchParams;
-    const environment = searchParams.get('environment') || 'test';
-    
-    // Determine the base URL based on environment
-    const baseUrl = environment === 'test' 
-      ? 'https://bluboy.ddns.net/test1'
-      : 'https://bluboy.ddns.net/prod1';
-    
-    // Reconstruct the API path
-    const resolvedParams = await params;
-    const apiPath = resolvedParams.path.join('/');
-    const url = `${baseUrl}/api/v1/${apiPath}`;
-    
-    // Get headers from the original request
-    const authToken = request.headers.get('authorization');
-    const appKey = request.headers.get('app-key');
-    const clientTime = request.headers.get('client-time');
-    const notificationPermission = request.headers.get('notification-permission-status');
-    const userAgent = request.headers.get('user-agent');
-    
-    if (!authToken) {
-      return NextResponse.json(
-        { error: 'Authorization header is required' }, 
-        { status: 401 }
-      );
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+// Hop-by-hop headers are meaningful only for a single connection and must not be forwarded
+const HOP_BY_HOP_HEADERS = [
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade'
+];
+
+// Request headers the proxy sets itself (or that describe the browser -> proxy leg only)
+const STRIPPED_REQUEST_HEADERS = [
+  ...HOP_BY_HOP_HEADERS,
+  'host',
+  'origin',
+  'referer',
+  'cookie',
+  'accept-encoding',
+  'content-length',
+  PROXY_SECRET_HEADER
+];
+
+// fetch() transparently decodes compressed upstream bodies, so the original
+// encoding and length no longer describe what we send back
+const STRIPPED_RESPONSE_HEADERS = [
+  ...HOP_BY_HOP_HEADERS,
+  'content-encoding',
+  'content-length',
+  'set-cookie'
+];
+
+const METHODS_WITHOUT_BODY = ['GET', 'HEAD'];
+
+// The mock backend's relative base URL only gets a fixed origin so it parses; it is never fetched
+// (see callMockBackend). The request's own origin comes from the Host header, which callers control.
+const LOCAL_ORIGIN = 'http://localhost';
+
+// Determine the upstream URL based on the environment's config
+const getUpstreamUrl = (request: NextRequest, { baseUrl }: ApiConfig, apiPath: string): URL => {
+  const url = new URL(`${baseUrl}/api/v1/${apiPath}`, LOCAL_ORIGIN);
+
+  // Forward the caller's query string, minus the proxy's own parameter
+  request.nextUrl.searchParams.forEach((value, key) => {
+    if (key !== 'environment') {
+      url.searchParams.append(key, value);
     }
+  });
 
-    // Make the request to the external API
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Accept': '*/*',
-        'Accept-Encoding': 'gzip, deflate, br',
-        'Authorization': authToken,
-        'Connection': 'keep-alive',
-        'NOTIFICATION-PERMISSION-STATUS': notificationPermission || 'true',
-        'User-Agent': userAgent || 'TambolaMultiPlayerApp/1.0.0',
-        'app-key': appKey || 'test-key',
-        'client-time': clientTime || Math.floor(Date.now() / 1000).toString()
-      }
-    });
+  return url;
+};
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`API request failed: ${response.status} ${response.statusText}`, errorText);
-      return NextResponse.json(
-        { 
-          error: `API request failed: ${response.status} ${response.statusText}`,
-          details: errorText
-        }, 
-        { status: response.status }
-      );
+const getUpstreamHeaders = (request: NextRequest, { appKey }: ApiConfig): Headers => {
+  const headers = new Headers();
+  request.headers.forEach((value, key) => {
+    if (!STRIPPED_REQUEST_HEADERS.includes(key.toLowerCase())) {
+      headers.set(key, value);
     }
+  });
 
-    const data = await response.json();
-    return NextResponse.json(data);
-    
-  } catch (error) {
-    console.error('Proxy error:', error);
-    return NextResponse.json(
-      { 
-        error: 'Internal server error',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      }, 
-      { status: 500 }
-    );
+  // Defaults the Bluboy backend expects when the caller didn't send them
+  const defaults: Record<string, string> = {
+    'Accept': '*/*',
+    'NOTIFICATION-PERMISSION-STATUS': 'true',
+    'User-Agent': 'TambolaMultiPlayerApp/1.0.0',
+    'app-key': appKey,
+    'client-time': Math.floor(Date.now() / 1000).toString()
+  };
+  Object.entries(defaults).forEach(([key, value]) => {
+    if (!headers.has(key)) {
+      headers.set(key, value);
+    }
+  });
+
+  return headers;
+};
+
+/**
+ * Serve a mock environment request in-process instead of fetching this app over HTTP
+ */
+const callMockBackend = async (
+  method: string,
+  segments: string[],
+  authorization: string | null,
+  body: ReadableStream<Uint8Array> | null
+): Promise<Response> => {
+  // Reading fails once the size limit is hit, which the caller turns into a 413;
+  // only a body that isn't JSON counts as no body
+  const text = body ? await new Response(body).text() : '';
+  let parsedBody: unknown;
+  try {
+    parsedBody = text ? JSON.parse(text) : undefined;
+  } catch {
+    parsedBody = undefined;
   }
-}
 
-// Support other HTTP methods if needed
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ path: string[] }> }
-) {
+  const result = handleMockRequest({
+    method,
+    path: segments,
+    authorization,
+    body: parsedBody
+  });
+  return NextResponse.json(result.body, { status: result.status });
+};
+
+const reject = ({ status, error }: ProxyRejection) => {
+  return NextResponse.json({ error }, { status });
+};
+
+const getResponseHeaders = (upstream: Response): Headers => {
+  const headers = new Headers();
+  upstream.headers.forEach((value, key) => {
+    if (!STRIPPED_RESPONSE_HEADERS.includes(key.toLowerCase())) {
+      headers.append(key, value);
+    }
+  });
+  return headers;
+};
+
+/**
+ * Forward the request to the selected environment's backend and stream the
+ * upstream response back unchanged (status, headers and body). Every exchange
+ * is recorded in the traffic log once both bodies have been read.
+ */
+async function proxyRequest(request: NextRequest, { params }: RouteContext) {
+  const startTime = Date.now();
+  const environment = request.nextUrl.searchParams.get('environment') || DEFAULT_ENVIRONMENT;
+  let url: URL | null = null;
+  let upstreamHeaders = new Headers();
+  let requestCapture: Promise<BodyCapture> = Promise.resolve({ preview: null, size: 0 });
+  let bodyTooLarge = false;
+
+  const accessRejection = checkProxyAccess(request.headers);
+  if (accessRejection) {
+    return reject(accessRejection);
+  }
+
+  if (!isKnownEnvironment(environment)) {
+    const known = getEnvironments().map(({ id }) => id).join(', ');
+    return reject({ status: 400, error: `Unknown environment "${environment}". Expected one of: ${known}` });
+  }
+
+  const segments = (await params).path;
+  const resolvedPath = resolveApiPath(segments, environment);
+  if ('error' in resolvedPath) {
+    return reject(resolvedPath);
+  }
+
+  const sizeRejection = checkBodySize(request.headers);
+  if (sizeRejection) {
+    return reject(sizeRejection);
+  }
+
+  const baseEntry = (): TrafficRequestInfo => ({
+    id: createTrafficId(),
+    timestamp: startTime,
+    player: getTrafficPlayer(request.headers.get('authorization')),
+    environment,
+    method: request.method,
+    path: url ? `${url.pathname.replace(/^.*?\/api\/v1\//, '')}${url.search}` : '',
+    url: url ? url.toString() : '',
+    requestHeaders: redactHeaders(upstreamHeaders),
+    latencyMs: Date.now() - startTime
+  });
+
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const environment = searchParams.get('environment') || 'test';
-    
-    const baseUrl = environment === 'test' 
-      ? 'https://bluboy.ddns.net/test1'
-      : 'https://bluboy.ddns.net/prod1';
-    
-    const resolvedParams = await params;
-    const apiPath = resolvedParams.path.join('/');
-    const url = `${baseUrl}/api/v1/${apiPath}`;
-    
-    const authToken = request.headers.get('authorization');
-    const appKey = request.headers.get('app-key');
-    const clientTime = request.headers.get('client-time');
-    const notificationPermission = request.headers.get('notification-permission-status');
-    const userAgent = request.headers.get('user-agent');
-    
-    if (!authToken) {
+    const config = getApiConfig(environment);
+    url = getUpstreamUrl(request, config, resolvedPath.path);
+
+    if (!request.headers.get('authorization')) {
       return NextResponse.json(
-        { error: 'Authorization header is required' }, 
+        { error: 'Authorization header is required' },
         { status: 401 }
       );
     }
 
-    const body = await request.text();
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Accept': '*/*',
-        'Accept-Encoding': 'gzip, deflate, br',
-        'Authorization': authToken,
-        'Connection': 'keep-alive',
-        'NOTIFICATION-PERMISSION-STATUS': notificationPermission || 'true',
-        'User-Agent': userAgent || 'TambolaMultiPlayerApp/1.0.0',
-        'app-key': appKey || 'test-key',
-        'client-time': clientTime || Math.floor(Date.now() / 1000).toString(),
-        'Content-Type': request.headers.get('content-type') || 'application/json'
-      },
-      body: body || undefined
-    });
+    upstreamHeaders = getUpstreamHeaders(request, config);
+
+    // Stream the request body through, keeping a copy for the traffic log
+    let requestBody: ReadableStream<Uint8Array> | null = null;
+    if (!METHODS_WITHOUT_BODY.includes(request.method) && request.body !== null) {
+      const limited = limitBodySize(request.body, () => {
+        bodyTooLarge = true;
+      });
+      const [forward, capture] = limited.tee();
+      requestBody = forward;
+      requestCapture = captureBody(capture, request.headers.get('content-type'));
+    }
+
+    // Make the request to the external API
+    const init: RequestInit & { duplex?: 'half' } = {
+      method: request.method,
+      headers: upstreamHeaders,
+      body: requestBody ?? undefined,
+      duplex: requestBody ? 'half' : undefined,
+      redirect: 'manual'
+    };
+    const response = config.baseUrl === MOCK_BASE_URL
+      ? await callMockBackend(request.method, segments, request.headers.get('authorization'), requestBody)
+      : await fetch(url, init);
+    const entry = baseEntry();
 
     if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`API request failed: ${response.status} ${response.statusText}`, errorText);
-      return NextResponse.json(
-        { 
-          error: `API request failed: ${response.status} ${response.statusText}`,
-          details: errorText
-        }, 
-        { status: response.status }
-      );
+      console.error(`API request failed: ${request.method} ${url.pathname} -> ${response.status} ${response.statusText}`);
+    }
+
+    let responseBody = response.body;
+    let responseCapture: Promise<BodyCapture> = Promise.resolve({ preview: null, size: 0 });
+    if (responseBody) {
+      const [client, capture] = responseBody.tee();
+      responseBody = client;
+      responseCapture = captureBody(capture, response.headers.get('content-type'));
     }
 
-    const data = await response.json();
-    return NextResponse.json(data);
-    
+    // A capture can fail (e.g. the client aborts mid-body); the exchange is still logged, without previews
+    Promise.all([requestCapture, responseCapture]).catch((error): BodyCapture[] => {
+      console.warn('Failed to capture proxied bodies for the traffic log:', error);
+      return [{ preview: null, size: 0 }, { preview: null, size: 0 }];
+    }).then(([requestBodyCapture, responseBodyCapture]) => {
+      recordTraffic({
+        ...entry,
+        status: response.status,
+        statusText: response.statusText,
+        responseHeaders: redactHeaders(response.headers),
+        requestBodyPreview: requestBodyCapture.preview,
+        requestBodySize: requestBodyCapture.size,
+        responseBodyPreview: responseBodyCapture.preview,
+        responseBodySize: responseBodyCapture.size
+      });
+    });
+
+    return new NextResponse(responseBody, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: getResponseHeaders(response)
+    });
+
   } catch (error) {
+    // Only failures to reach the upstream (or an oversized streamed body) end up here;
+    // upstream errors pass through as-is
     console.error('Proxy error:', error);
+    const details = bodyTooLarge
+      ? `Request body exceeds ${getMaxBodyBytes()} bytes`
+      : error instanceof Error ? error.message : 'Unknown error';
+
+    const entry = baseEntry();
+    requestCapture.catch((): BodyCapture => ({ preview: null, size: 0 })).then(requestBodyCapture => {
+      recordTraffic({
+        ...entry,
+        status: null,
+        statusText: '',
+        responseHeaders: {},
+        requestBodyPreview: requestBodyCapture.preview,
+        requestBodySize: requestBodyCapture.size,
+        responseBodyPreview: null,
+        responseBodySize: 0,
+        error: details
+      });
+    });
+
+    if (bodyTooLarge) {
+      return reject({ status: 413, error: details });
+    }
+
     return NextResponse.json(
-      { 
-        error: 'Internal server error',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      }, 
-      { status: 500 }
+      {
+        error: 'Bad gateway',
+        details
+      },
+      { status: 502 }
     );
   }
-} 
\ No newline at end of file
+}
+
+export {
+  proxyRequest as GET,
+  proxyRequest as POST,
+  proxyRequest as PUT,
+  proxyRequest as PATCH,
+  proxyRequest as DELETE
+};
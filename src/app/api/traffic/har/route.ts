@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildHar } from '@/lib/har';
+import { getTraffic } from '@/lib/traffic-log';
+import { checkProxyAccess } from '@/lib/proxy-guard';
+
+interface HarExportRequest {
+  ids?: string[]; // export only these exchanges; all of them when omitted
+}
+
+const isExportRequest = (value: unknown): value is HarExportRequest => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const { ids } = value as { ids?: unknown };
+  return ids === undefined || (Array.isArray(ids) && ids.every(id => typeof id === 'string'));
+};
+
+// Export captured traffic as a HAR 1.2 file. The log only holds redacted Authorization
+// headers; the browser puts its own players' tokens back in when asked to.
+export async function POST(request: NextRequest) {
+  const rejection = checkProxyAccess(request.headers);
+  if (rejection) {
+    return NextResponse.json({ error: rejection.error }, { status: rejection.status });
+  }
+
+  let options: unknown;
+  try {
+    options = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+  if (!isExportRequest(options)) {
+    return NextResponse.json({ error: 'Request body must be an object with an optional "ids" string array' }, { status: 400 });
+  }
+
+  const ids = options.ids ? new Set(options.ids) : null;
+  const entries = getTraffic().filter(entry => !ids || ids.has(entry.id));
+
+  return NextResponse.json(buildHar(entries), {
+    headers: {
+      'Content-Disposition': `attachment; filename="tambola-traffic-${Date.now()}.har"`
+    }
+  });
+}
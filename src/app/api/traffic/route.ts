@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clearTraffic, getLatestSequence, getTraffic } from '@/lib/traffic-log';
+import { checkProxyAccess } from '@/lib/proxy-guard';
+
+// Traffic captured by /api/proxy, for the dashboard's inspector panel
+export async function GET(request: NextRequest) {
+  const rejection = checkProxyAccess(request.headers);
+  if (rejection) {
+    return NextResponse.json({ error: rejection.error }, { status: rejection.status });
+  }
+
+  const after = Number(request.nextUrl.searchParams.get('after')) || undefined;
+  return NextResponse.json({
+    entries: getTraffic(after),
+    latestSequence: getLatestSequence()
+  });
+}
+
+export async function DELETE(request: NextRequest) {
+  const rejection = checkProxyAccess(request.headers);
+  if (rejection) {
+    return NextResponse.json({ error: rejection.error }, { status: rejection.status });
+  }
+
+  clearTraffic();
+  return NextResponse.json({ success: true });
+}
@@ -5,7 +5,16 @@ import { useAuth } from '@/contexts/AuthContext';
 import { MultiPlayerAuth } from '@/components/MultiPlayerAuth';
 import { EnvironmentSwitcher } from '@/components/EnvironmentSwitcher';
 import { TournamentList } from '@/components/TournamentList';
+import { GameSessionPanel } from '@/components/GameSessionPanel';
+import { TrafficInspector } from '@/components/TrafficInspector';
+import { FanOutPanel } from '@/components/FanOutPanel';
+import { ApiConsole } from '@/components/ApiConsole';
+import { ScenarioRunner } from '@/components/ScenarioRunner';
+import { LoadTestPanel } from '@/components/LoadTestPanel';
+import { EnvironmentBadge } from '@/components/EnvironmentBadge';
 import { AuthenticatedUser } from '@/types/auth';
+import { getApiConfig } from '@/lib/api-config';
+import { getEnvironmentLabel } from '@/lib/environments';
 import { 
   GamepadIcon, 
   Users, 
@@ -50,15 +59,7 @@ export default function Dashboard() {
                   {authenticatedUsers.length} players signed in
                 </span>
               </div>
-              <div className={`
-                px-3 py-1 rounded-full text-sm font-medium
-                ${currentEnvironment === 'test' 
-                  ? 'bg-blue-100 text-blue-800' 
-                  : 'bg-green-100 text-green-800'
-                }
-              `}>
-                {currentEnvironment.charAt(0).toUpperCase() + currentEnvironment.slice(1)}
-              </div>
+              <EnvironmentBadge environment={currentEnvironment} />
             </div>
           </div>
         </div>
@@ -86,10 +87,15 @@ export default function Dashboard() {
                 How to Test Multi-Player Tambola
               </h3>
               <div className="text-blue-800 space-y-2 text-sm">
-                <p><strong>Step 1:</strong> Select your testing environment (Test or Production)</p>
+                <p><strong>Step 1:</strong> Select your testing environment (Test, Production, the offline Mock backend or any configured extra environment)</p>
                 <p><strong>Step 2:</strong> Sign in multiple players using different Google accounts</p>
-                <p><strong>Step 3:</strong> View available Tambola tournaments for the selected environment</p>
+                <p><strong>Step 3:</strong> Find Tambola tournaments for the selected environment by searching, filtering, sorting or grouping them by day (filters are kept in the URL for sharing)</p>
                 <p><strong>Step 4:</strong> Subscribe players to tournaments and test multi-player functionality</p>
+                <p><strong>Step 5:</strong> Create a game session to follow the tournament from waiting to completed</p>
+                <p><strong>Compare:</strong> Run the same call as every player at once to spot responses that differ per account</p>
+                <p><strong>API Console:</strong> Call any other endpoint as any player, save requests as snippets and copy them as curl</p>
+                <p><strong>Scenarios:</strong> Script a flow (players, API calls, waits and assertions) as JSON and run it for a pass/fail report</p>
+                <p><strong>Load Test:</strong> Hit a tournament&apos;s endpoints with dozens to hundreds of virtual players and read latency percentiles and errors</p>
                 <p><strong>Note:</strong> Each player will have their own Firebase authentication token for API calls</p>
               </div>
             </div>
@@ -112,7 +118,7 @@ export default function Dashboard() {
                 <div className="flex justify-between items-center">
                   <span className="text-gray-600">Environment:</span>
                   <span className="font-medium text-gray-900">
-                    {currentEnvironment.charAt(0).toUpperCase() + currentEnvironment.slice(1)}
+                    {getEnvironmentLabel(currentEnvironment)}
                   </span>
                 </div>
                 <div className="flex justify-between items-center">
@@ -124,7 +130,7 @@ export default function Dashboard() {
                 <div className="flex justify-between items-center">
                   <span className="text-gray-600">API Endpoint:</span>
                   <span className="font-medium text-gray-900 text-xs">
-                    /{currentEnvironment === 'test' ? 'test1' : 'prod1'}/
+                    {getApiConfig(currentEnvironment).baseUrl.replace(/^https?:\/\/[^/]+/, '')}/
                   </span>
                 </div>
               </div>
@@ -137,11 +143,29 @@ export default function Dashboard() {
             <MultiPlayerAuth
               environment={currentEnvironment}
               onUsersChange={handleUsersChange}
-              maxPlayers={4}
+              initialPlayers={4}
             />
 
             {/* Tournament List */}
             <TournamentList />
+
+            {/* Per-player response comparison */}
+            <FanOutPanel />
+
+            {/* Arbitrary API requests */}
+            <ApiConsole />
+
+            {/* Game Session */}
+            <GameSessionPanel />
+
+            {/* Scripted multi-player flows */}
+            <ScenarioRunner />
+
+            {/* Virtual-player load */}
+            <LoadTestPanel />
+
+            {/* API Traffic */}
+            <TrafficInspector />
           </div>
         </div>
 
@@ -0,0 +1,291 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { HTTP_METHODS, HttpMethod, RawApiRequest, RawApiResponse } from '@/lib/api-config';
+import { ApiSnippet, ApiSnippetStorage } from '@/lib/api-snippets';
+import { formatHeaderProfile, parseHeaderProfile } from '@/lib/personas';
+import { useAuth } from '@/contexts/AuthContext';
+import { useApiService } from '@/hooks/useApiService';
+import { useProxyAllowlist } from '@/hooks/useProxyAllowlist';
+import { Terminal, Send, Copy, Check, Save, Trash2 } from 'lucide-react';
+
+const EMPTY_REQUEST: RawApiRequest = {
+  method: 'GET',
+  path: '',
+  query: '',
+  headers: {},
+  body: ''
+};
+
+const getStatusColor = (status: number): string => {
+  if (status < 300) return 'text-green-600 bg-green-100';
+  if (status < 400) return 'text-blue-600 bg-blue-100';
+  if (status < 500) return 'text-orange-600 bg-orange-100';
+  return 'text-red-600 bg-red-100';
+};
+
+const formatBody = (body: string): string => {
+  if (!body) return '(empty)';
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+};
+
+export const ApiConsole: React.FC = () => {
+  const { authenticatedUsers, currentEnvironment } = useAuth();
+  const { apiService, sendRequest, getAuthTokenForUser } = useApiService();
+  const { allowedPathPrefixes } = useProxyAllowlist();
+  const [userId, setUserId] = useState('');
+  const [request, setRequest] = useState<RawApiRequest>(EMPTY_REQUEST);
+  const [headerText, setHeaderText] = useState('');
+  const [response, setResponse] = useState<RawApiResponse | null>(null);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [snippets, setSnippets] = useState<ApiSnippet[]>([]);
+  const [snippetName, setSnippetName] = useState('');
+
+  useEffect(() => {
+    setSnippets(ApiSnippetStorage.loadSnippets(currentEnvironment));
+  }, [currentEnvironment]);
+
+  // Keep a valid player selected as players sign in and out
+  const selectedUserId = authenticatedUsers.some(u => u.id === userId) ? userId : authenticatedUsers[0]?.id || '';
+
+  const updateRequest = (updates: Partial<RawApiRequest>) => {
+    setRequest(prev => ({ ...prev, ...updates }));
+  };
+
+  // The request as edited, or null (after telling the user why) when it can't be sent
+  const buildRequest = (): RawApiRequest | null => {
+    if (!request.path.trim()) {
+      alert('Enter the endpoint path, e.g. tournament/<id>/game');
+      return null;
+    }
+    if (request.method !== 'GET' && request.body.trim()) {
+      try {
+        JSON.parse(request.body);
+      } catch (err) {
+        alert(`The body is not valid JSON: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        return null;
+      }
+    }
+    return { ...request, path: request.path.trim(), headers: parseHeaderProfile(headerText) };
+  };
+
+  const handleSend = async () => {
+    const built = buildRequest();
+    if (!built || !selectedUserId) return;
+
+    setIsSending(true);
+    setSendError(null);
+    try {
+      setResponse(await sendRequest(built, selectedUserId));
+    } catch (err) {
+      setResponse(null);
+      setSendError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const copyAsCurl = async () => {
+    const built = buildRequest();
+    const token = getAuthTokenForUser(selectedUserId);
+    if (!built || !token) return;
+
+    try {
+      await navigator.clipboard.writeText(apiService.toCurl(token, built));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy curl command:', error);
+      alert('Could not copy to the clipboard');
+    }
+  };
+
+  const saveSnippet = () => {
+    const built = buildRequest();
+    if (!built) return;
+    if (!snippetName.trim()) {
+      alert('Give the snippet a name');
+      return;
+    }
+
+    ApiSnippetStorage.saveSnippet(currentEnvironment, snippetName.trim(), built);
+    setSnippets(ApiSnippetStorage.loadSnippets(currentEnvironment));
+  };
+
+  const loadSnippet = (snippetId: string) => {
+    const snippet = snippets.find(s => s.id === snippetId);
+    if (!snippet) return;
+
+    setRequest(snippet.request);
+    setHeaderText(formatHeaderProfile(snippet.request.headers));
+    setSnippetName(snippet.name);
+  };
+
+  const deleteSnippet = () => {
+    const snippet = snippets.find(s => s.name === snippetName.trim());
+    if (!snippet || !confirm(`Delete snippet "${snippet.name}"?`)) return;
+
+    ApiSnippetStorage.removeSnippet(snippet.id);
+    setSnippets(ApiSnippetStorage.loadSnippets(currentEnvironment));
+  };
+
+  if (authenticatedUsers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Terminal className="h-5 w-5 text-gray-600" />
+          <h3 className="text-lg font-semibold text-gray-900">API Console</h3>
+        </div>
+        {snippets.length > 0 && (
+          <select
+            value=""
+            onChange={e => loadSnippet(e.target.value)}
+            className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          >
+            <option value="">Load snippet...</option>
+            {snippets.map(snippet => (
+              <option key={snippet.id} value={snippet.id}>{snippet.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <select
+          value={selectedUserId}
+          onChange={e => setUserId(e.target.value)}
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+        >
+          {authenticatedUsers.map(user => (
+            <option key={user.id} value={user.id}>
+              {user.slotLabel ? `${user.slotLabel}: ` : ''}{user.displayName || user.email || user.id}
+            </option>
+          ))}
+        </select>
+
+        <div className="flex items-center space-x-2">
+          <select
+            value={request.method}
+            onChange={e => updateRequest({ method: e.target.value as HttpMethod })}
+            className="border border-gray-300 rounded-lg px-3 py-2 text-sm font-mono"
+          >
+            {HTTP_METHODS.map(method => (
+              <option key={method} value={method}>{method}</option>
+            ))}
+          </select>
+          <div className="flex-1 flex items-center border border-gray-300 rounded-lg px-3 py-2 text-sm font-mono">
+            <span className="text-gray-400">/api/v1/</span>
+            <input
+              type="text"
+              value={request.path}
+              onChange={e => updateRequest({ path: e.target.value })}
+              onKeyDown={e => e.key === 'Enter' && handleSend()}
+              placeholder="tournament/<id>/game"
+              className="flex-1 outline-none"
+            />
+          </div>
+        </div>
+        {allowedPathPrefixes && (
+          <p className="text-xs text-gray-500">
+            The proxy forwards paths under {allowedPathPrefixes.join(', ')}. Other paths are rejected with a 403
+            unless their prefix is added to <code>PROXY_ALLOWED_PATH_PREFIXES</code> on the server.
+          </p>
+        )}
+
+        <input
+          type="text"
+          value={request.query}
+          onChange={e => updateRequest({ query: e.target.value })}
+          placeholder="Query string, e.g. status=upcoming&limit=20"
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm font-mono"
+        />
+
+        <textarea
+          value={headerText}
+          onChange={e => setHeaderText(e.target.value)}
+          placeholder={'Extra headers, one per line\nX-Debug: true'}
+          rows={2}
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 text-xs font-mono"
+        />
+
+        {request.method !== 'GET' && (
+          <textarea
+            value={request.body}
+            onChange={e => updateRequest({ body: e.target.value })}
+            placeholder={'JSON body\n{ "tournamentId": "..." }'}
+            rows={4}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-xs font-mono"
+          />
+        )}
+
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={handleSend}
+            disabled={isSending}
+            className={`btn-primary text-sm flex items-center space-x-1 ${isSending ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            <Send className="h-4 w-4" />
+            <span>{isSending ? 'Sending...' : 'Send'}</span>
+          </button>
+          <button onClick={copyAsCurl} className="btn-secondary text-sm flex items-center space-x-1">
+            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            <span>{copied ? 'Copied' : 'Copy as curl'}</span>
+          </button>
+          <input
+            type="text"
+            value={snippetName}
+            onChange={e => setSnippetName(e.target.value)}
+            placeholder="Snippet name"
+            className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          />
+          <button onClick={saveSnippet} title="Save snippet" className="p-2 rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200">
+            <Save className="h-4 w-4" />
+          </button>
+          {snippets.some(s => s.name === snippetName.trim()) && (
+            <button onClick={deleteSnippet} title="Delete snippet" className="p-2 rounded-lg bg-red-50 text-red-600 hover:bg-red-100">
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+
+        {sendError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+            {sendError}
+          </div>
+        )}
+
+        {response && (
+          <div className="border border-gray-200 rounded-lg p-3 space-y-2 text-sm">
+            <div className="flex items-center space-x-3">
+              <span className={`px-2 py-0.5 rounded text-xs font-medium ${getStatusColor(response.status)}`}>
+                {response.status} {response.statusText}
+              </span>
+              <span className="text-gray-500">{response.durationMs} ms</span>
+            </div>
+            <details className="text-xs text-gray-500">
+              <summary className="cursor-pointer">Response headers ({Object.keys(response.headers).length})</summary>
+              <div className="font-mono mt-1 space-y-0.5">
+                {Object.entries(response.headers).map(([name, value]) => (
+                  <div key={name} className="break-all">
+                    <span className="text-gray-500">{name}:</span> <span className="text-gray-800">{value}</span>
+                  </div>
+                ))}
+              </div>
+            </details>
+            <pre className="bg-gray-50 rounded p-2 text-xs max-h-96 overflow-auto">{formatBody(response.body)}</pre>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { AuthStorageHook } from '@/hooks/useAuthStorage';
+import { AuthStorage } from '@/lib/auth-storage';
+import { QuarantinedEntry } from '@/lib/auth-storage-schema';
+import { STORAGE_BACKENDS, STORAGE_BACKEND_LABELS, StorageBackend, isStorageBackend } from '@/lib/storage-adapters';
+import { Database, Lock, Unlock, AlertTriangle } from 'lucide-react';
+
+interface AuthStorageProps {
+  storage: AuthStorageHook;
+}
+
+const downloadJson = (data: unknown, fileName: string) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const AuthStorageSettings: React.FC<AuthStorageProps> = ({ storage }) => {
+  const { settings } = storage;
+  const [backend, setBackend] = useState<StorageBackend>(settings.backend);
+  const [encrypted, setEncrypted] = useState(settings.encrypted);
+  const [passphrase, setPassphrase] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [quarantine, setQuarantine] = useState<QuarantinedEntry[]>([]);
+
+  useEffect(() => {
+    AuthStorage.loadQuarantine().then(setQuarantine);
+  }, [storage.version]);
+
+  const hasChanges = backend !== settings.backend || encrypted !== settings.encrypted;
+  // Encrypting a new location needs a passphrase; the current key can't be reused
+  const needsPassphrase = encrypted && hasChanges;
+
+  const applySettings = async () => {
+    if (needsPassphrase && !passphrase) {
+      alert('Enter a passphrase to encrypt the stored tokens');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await storage.configure({ backend, encrypted }, passphrase || undefined);
+      setPassphrase('');
+    } catch (error) {
+      console.error('Failed to change auth storage:', error);
+      alert(`Changing storage failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const discardQuarantine = async () => {
+    if (!confirm(`Discard ${quarantine.length} quarantined stored users for good?`)) return;
+    await AuthStorage.clearQuarantine();
+    setQuarantine([]);
+  };
+
+  return (
+    <details className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm">
+      <summary className="cursor-pointer flex items-center space-x-2 text-gray-700">
+        <Database className="h-4 w-4" />
+        <span>
+          Token storage: {STORAGE_BACKEND_LABELS[settings.backend]}
+          {settings.encrypted && ', encrypted'}
+        </span>
+        {quarantine.length > 0 && (
+          <span className="flex items-center space-x-1 text-orange-700">
+            <AlertTriangle className="h-4 w-4" />
+            <span>{quarantine.length} quarantined</span>
+          </span>
+        )}
+      </summary>
+
+      {quarantine.length > 0 && (
+        <div className="mt-3 bg-orange-50 border border-orange-200 rounded p-2 text-orange-800 space-y-2">
+          <p>
+            {quarantine.length} stored users couldn&apos;t be read or migrated and were set aside instead of being
+            dropped. Latest reason: {quarantine[quarantine.length - 1].reason}
+          </p>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => downloadJson(quarantine, `tambola-quarantine-${Date.now()}.json`)}
+              className="btn-secondary text-sm"
+            >
+              Download
+            </button>
+            <button onClick={discardQuarantine} className="btn-secondary text-sm">
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-3 space-y-2">
+        <select
+          value={backend}
+          onChange={e => isStorageBackend(e.target.value) && setBackend(e.target.value)}
+          className="w-full border border-gray-300 rounded px-2 py-1"
+        >
+          {STORAGE_BACKENDS.map(option => (
+            <option key={option} value={option}>{STORAGE_BACKEND_LABELS[option]}</option>
+          ))}
+        </select>
+
+        <label className="flex items-center space-x-2 text-gray-700">
+          <input type="checkbox" checked={encrypted} onChange={e => setEncrypted(e.target.checked)} />
+          <span>Encrypt tokens at rest with a passphrase</span>
+        </label>
+
+        {needsPassphrase && (
+          <input
+            type="password"
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            placeholder="Passphrase (never stored)"
+            className="w-full border border-gray-300 rounded px-2 py-1"
+          />
+        )}
+
+        <div className="flex space-x-2">
+          <button
+            onClick={applySettings}
+            disabled={!hasChanges || isSaving}
+            className={`btn-secondary text-sm ${!hasChanges || isSaving ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            {isSaving ? 'Moving tokens...' : 'Apply'}
+          </button>
+          {settings.encrypted && (
+            <button onClick={storage.lock} className="btn-secondary text-sm flex items-center space-x-1">
+              <Lock className="h-4 w-4" />
+              <span>Lock</span>
+            </button>
+          )}
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Stored players and slot settings move to the new storage. Use sessionStorage or
+          in-memory storage when testing production accounts on a shared machine.
+        </p>
+      </div>
+    </details>
+  );
+};
+
+export const AuthStorageUnlock: React.FC<AuthStorageProps> = ({ storage }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const unlock = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsUnlocking(true);
+    try {
+      await storage.unlock(passphrase);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Unlocking storage failed');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const forgetStoredData = async () => {
+    if (!confirm('Delete all stored players and slot settings? Use this if you forgot the passphrase.')) return;
+    await storage.reset();
+  };
+
+  return (
+    <form onSubmit={unlock} className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3 text-sm">
+      <div className="flex items-center space-x-2 font-medium text-gray-900">
+        <Lock className="h-4 w-4" />
+        <span>Stored players are encrypted ({STORAGE_BACKEND_LABELS[storage.settings.backend]})</span>
+      </div>
+      <input
+        type="password"
+        value={passphrase}
+        onChange={e => setPassphrase(e.target.value)}
+        placeholder="Passphrase"
+        autoFocus
+        className="w-full border border-gray-300 rounded px-2 py-1"
+      />
+      <div className="flex space-x-2">
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className={`btn-primary text-sm flex items-center space-x-1 ${!passphrase || isUnlocking ? 'opacity-50 cursor-not-allowed' : ''}`}
+        >
+          <Unlock className="h-4 w-4" />
+          <span>{isUnlocking ? 'Unlocking...' : 'Unlock'}</span>
+        </button>
+        <button type="button" onClick={forgetStoredData} className="btn-secondary text-sm">
+          Forget stored data
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,67 @@
+'use client';
+
+import React from 'react';
+import { Environment, EnvironmentColor, getEnvironment, getEnvironmentLabel } from '@/lib/environments';
+import { FlaskConical } from 'lucide-react';
+
+interface EnvironmentStyle {
+  badge: string;
+  selected: string;
+  idle: string;
+}
+
+// Spelled out in full so Tailwind picks the classes up
+export const ENVIRONMENT_STYLES: Record<EnvironmentColor, EnvironmentStyle> = {
+  blue: {
+    badge: 'bg-blue-100 text-blue-800',
+    selected: 'border-blue-500 bg-blue-50 text-blue-700',
+    idle: 'border-gray-200 bg-gray-50 text-gray-700 hover:border-blue-300 hover:bg-blue-50'
+  },
+  green: {
+    badge: 'bg-green-100 text-green-800',
+    selected: 'border-green-500 bg-green-50 text-green-700',
+    idle: 'border-gray-200 bg-gray-50 text-gray-700 hover:border-green-300 hover:bg-green-50'
+  },
+  purple: {
+    badge: 'bg-purple-100 text-purple-800',
+    selected: 'border-purple-500 bg-purple-50 text-purple-700',
+    idle: 'border-gray-200 bg-gray-50 text-gray-700 hover:border-purple-300 hover:bg-purple-50'
+  },
+  orange: {
+    badge: 'bg-orange-100 text-orange-800',
+    selected: 'border-orange-500 bg-orange-50 text-orange-700',
+    idle: 'border-gray-200 bg-gray-50 text-gray-700 hover:border-orange-300 hover:bg-orange-50'
+  },
+  red: {
+    badge: 'bg-red-100 text-red-800',
+    selected: 'border-red-500 bg-red-50 text-red-700',
+    idle: 'border-gray-200 bg-gray-50 text-gray-700 hover:border-red-300 hover:bg-red-50'
+  },
+  yellow: {
+    badge: 'bg-yellow-100 text-yellow-800',
+    selected: 'border-yellow-500 bg-yellow-50 text-yellow-700',
+    idle: 'border-gray-200 bg-gray-50 text-gray-700 hover:border-yellow-300 hover:bg-yellow-50'
+  },
+  gray: {
+    badge: 'bg-gray-100 text-gray-800',
+    selected: 'border-gray-500 bg-gray-100 text-gray-800',
+    idle: 'border-gray-200 bg-gray-50 text-gray-700 hover:border-gray-400 hover:bg-gray-100'
+  }
+};
+
+export const getEnvironmentStyle = (environment: Environment): EnvironmentStyle => {
+  return ENVIRONMENT_STYLES[getEnvironment(environment)?.color || 'gray'] || ENVIRONMENT_STYLES.gray;
+};
+
+interface EnvironmentBadgeProps {
+  environment: Environment;
+}
+
+export const EnvironmentBadge: React.FC<EnvironmentBadgeProps> = ({ environment }) => (
+  <div className={`flex items-center space-x-1 px-3 py-1 rounded-full text-sm font-medium ${getEnvironmentStyle(environment).badge}`}>
+    <span>{getEnvironmentLabel(environment)}</span>
+    {getEnvironment(environment)?.authEmulatorUrl && (
+      <FlaskConical className="h-4 w-4" aria-label="Auth emulator" />
+    )}
+  </div>
+);
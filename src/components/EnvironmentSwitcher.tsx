@@ -1,12 +1,22 @@
 'use client';
 
 import React from 'react';
-import { Environment } from '@/lib/firebase-config';
+import { Environment, EnvironmentIcon, getEnvironment, getEnvironmentLabel, getEnvironments } from '@/lib/environments';
 import { useAuth } from '@/contexts/AuthContext';
-import { Settings, TestTube, Building } from 'lucide-react';
+import { getApiConfig } from '@/lib/api-config';
+import { ENVIRONMENT_STYLES, getEnvironmentStyle } from '@/components/EnvironmentBadge';
+import { Settings, TestTube, Building, Server, Globe, FlaskConical, LucideIcon } from 'lucide-react';
+
+const ENVIRONMENT_ICONS: Record<EnvironmentIcon, LucideIcon> = {
+  test: TestTube,
+  production: Building,
+  server: Server,
+  globe: Globe
+};
 
 export const EnvironmentSwitcher: React.FC = () => {
   const { currentEnvironment, setCurrentEnvironment, getActiveUsersCount } = useAuth();
+  const environments = getEnvironments();
 
   const handleEnvironmentChange = (env: Environment) => {
     if (env === currentEnvironment) return;
@@ -34,61 +44,50 @@ export const EnvironmentSwitcher: React.FC = () => {
           Select the environment to test. All players will authenticate against the selected environment.
         </p>
         
-        <div className="grid grid-cols-2 gap-3">
-          {/* Test Environment */}
-          <button
-            onClick={() => handleEnvironmentChange('test')}
-            className={`
-              flex items-center space-x-3 p-4 rounded-lg border-2 transition-all
-              ${currentEnvironment === 'test'
-                ? 'border-blue-500 bg-blue-50 text-blue-700'
-                : 'border-gray-200 bg-gray-50 text-gray-700 hover:border-blue-300 hover:bg-blue-50'
-              }
-            `}
-          >
-            <TestTube className="h-5 w-5" />
-            <div className="text-left">
-              <div className="font-medium">Test</div>
-              <div className="text-xs opacity-75">Development testing</div>
-            </div>
-          </button>
-
-          {/* Production Environment */}
-          <button
-            onClick={() => handleEnvironmentChange('production')}
-            className={`
-              flex items-center space-x-3 p-4 rounded-lg border-2 transition-all
-              ${currentEnvironment === 'production'
-                ? 'border-green-500 bg-green-50 text-green-700'
-                : 'border-gray-200 bg-gray-50 text-gray-700 hover:border-green-300 hover:bg-green-50'
-              }
-            `}
-          >
-            <Building className="h-5 w-5" />
-            <div className="text-left">
-              <div className="font-medium">Production</div>
-              <div className="text-xs opacity-75">Live environment</div>
-            </div>
-          </button>
+        <div className={`grid ${environments.length > 3 ? 'grid-cols-2' : 'grid-cols-3'} gap-3`}>
+          {environments.map(environment => {
+            const Icon = ENVIRONMENT_ICONS[environment.icon];
+            const style = ENVIRONMENT_STYLES[environment.color];
+            return (
+              <button
+                key={environment.id}
+                onClick={() => handleEnvironmentChange(environment.id)}
+                className={`
+                  flex items-center space-x-3 p-4 rounded-lg border-2 transition-all
+                  ${currentEnvironment === environment.id ? style.selected : style.idle}
+                `}
+              >
+                <Icon className="h-5 w-5" />
+                <div className="text-left">
+                  <div className="font-medium">{environment.label}</div>
+                  {environment.description && (
+                    <div className="text-xs opacity-75">{environment.description}</div>
+                  )}
+                  {environment.authEmulatorUrl && (
+                    <div className="flex items-center space-x-1 text-xs text-amber-700">
+                      <FlaskConical className="h-3 w-3" />
+                      <span>Auth emulator</span>
+                    </div>
+                  )}
+                </div>
+              </button>
+            );
+          })}
         </div>
 
         {/* Current Environment Info */}
-        <div className={`
-          p-3 rounded-lg text-sm
-          ${currentEnvironment === 'test'
-            ? 'bg-blue-100 text-blue-800'
-            : 'bg-green-100 text-green-800'
-          }
-        `}>
+        <div className={`p-3 rounded-lg text-sm ${getEnvironmentStyle(currentEnvironment).badge}`}>
           <div className="font-medium">
-            Currently testing: {currentEnvironment.charAt(0).toUpperCase() + currentEnvironment.slice(1)}
+            Currently testing: {getEnvironmentLabel(currentEnvironment)}
           </div>
           <div className="text-xs mt-1 opacity-75">
-            API Endpoint: {currentEnvironment === 'test' 
-              ? 'https://bluboy.ddns.net/test1' 
-              : 'https://bluboy.ddns.net/prod1'
-            }
+            API Endpoint: {getApiConfig(currentEnvironment).baseUrl}
           </div>
+          {getEnvironment(currentEnvironment)?.authEmulatorUrl && (
+            <div className="text-xs mt-1 opacity-75">
+              Auth Emulator: {getEnvironment(currentEnvironment)?.authEmulatorUrl}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,288 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ApiService } from '@/lib/api-config';
+import { JsonDifference, diffJson } from '@/lib/json-diff';
+import { useAuth } from '@/contexts/AuthContext';
+import { FanOutResult, useApiService } from '@/hooks/useApiService';
+import { useProxyAllowlist } from '@/hooks/useProxyAllowlist';
+import { GitCompare, Play, CheckCircle, XCircle, AlertTriangle, Star } from 'lucide-react';
+
+type FanOutOperationId = 'appConfig' | 'tambola' | 'upcoming' | 'active' | 'custom';
+
+interface FanOutOperation {
+  id: FanOutOperationId;
+  label: string;
+  run: (apiService: ApiService, token: string, path: string) => Promise<unknown>;
+}
+
+const FAN_OUT_OPERATIONS: FanOutOperation[] = [
+  { id: 'appConfig', label: 'App config (GET app/config)', run: (api, token) => api.getAppConfig(token) },
+  { id: 'tambola', label: 'Tambola tournaments', run: (api, token) => api.getTambolaTournaments(token) },
+  { id: 'upcoming', label: 'Upcoming Tambola tournaments', run: (api, token) => api.getUpcomingTambolaTournaments(token) },
+  { id: 'active', label: 'Active Tambola tournaments', run: (api, token) => api.getActiveTambolaTournaments(token) },
+  { id: 'custom', label: 'Other endpoint (GET)', run: (api, token, path) => api.get(token, path) }
+];
+
+// Long diffs are cut off; the raw response is still there to compare by hand
+const MAX_LISTED_DIFFERENCES = 50;
+
+interface FanOutRun {
+  label: string;
+  ranAt: number;
+  results: FanOutResult[];
+}
+
+const formatValue = (value: unknown): string => {
+  const text = JSON.stringify(value);
+  if (text === undefined) return 'undefined';
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+const DIFFERENCE_STYLES: Record<JsonDifference['kind'], string> = {
+  added: 'text-green-700',
+  removed: 'text-red-700',
+  changed: 'text-amber-700'
+};
+
+const DifferenceList: React.FC<{ differences: JsonDifference[] }> = ({ differences }) => (
+  <div className="font-mono text-xs space-y-0.5 max-h-48 overflow-y-auto">
+    {differences.slice(0, MAX_LISTED_DIFFERENCES).map(difference => (
+      <div key={`${difference.kind}-${difference.path}`} className={`break-all ${DIFFERENCE_STYLES[difference.kind]}`}>
+        {difference.kind === 'added' && `+ ${difference.path}: ${formatValue(difference.value)}`}
+        {difference.kind === 'removed' && `- ${difference.path}: ${formatValue(difference.baseline)}`}
+        {difference.kind === 'changed' &&
+          `~ ${difference.path}: ${formatValue(difference.baseline)} → ${formatValue(difference.value)}`}
+      </div>
+    ))}
+    {differences.length > MAX_LISTED_DIFFERENCES && (
+      <div className="text-gray-500">...and {differences.length - MAX_LISTED_DIFFERENCES} more</div>
+    )}
+  </div>
+);
+
+export const FanOutPanel: React.FC = () => {
+  const { authenticatedUsers } = useAuth();
+  const { apiService, fanOut } = useApiService();
+  const { allowedPathPrefixes } = useProxyAllowlist();
+  const [operationId, setOperationId] = useState<FanOutOperationId>('appConfig');
+  const [customPath, setCustomPath] = useState('');
+  const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
+  const [baselineUserId, setBaselineUserId] = useState('');
+  const [run, setRun] = useState<FanOutRun | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const knownUserIdsRef = useRef<string[]>([]);
+
+  // Newly signed-in players are selected and signed-out ones dropped; token refreshes and
+  // cross-tab syncs (which replace the users array) keep the user's deselections
+  useEffect(() => {
+    const userIds = authenticatedUsers.map(u => u.id);
+    const added = userIds.filter(id => !knownUserIdsRef.current.includes(id));
+    knownUserIdsRef.current = userIds;
+    setSelectedUserIds(prev => {
+      const kept = prev.filter(id => userIds.includes(id));
+      return added.length === 0 && kept.length === prev.length ? prev : [...kept, ...added];
+    });
+  }, [authenticatedUsers]);
+
+  const toggleUser = (userId: string) => {
+    setSelectedUserIds(prev => prev.includes(userId)
+      ? prev.filter(id => id !== userId)
+      : [...prev, userId]
+    );
+  };
+
+  const runFanOut = async () => {
+    const operation = FAN_OUT_OPERATIONS.find(o => o.id === operationId);
+    if (!operation || selectedUserIds.length === 0) return;
+    if (operation.id === 'custom' && !customPath.trim()) {
+      alert('Enter the endpoint path to call, e.g. tournament/<id>/game');
+      return;
+    }
+
+    setIsRunning(true);
+    try {
+      const results = await fanOut(token => operation.run(apiService, token, customPath.trim()), selectedUserIds);
+      setRun({
+        label: operation.id === 'custom' ? `GET ${customPath.trim()}` : operation.label,
+        ranAt: Date.now(),
+        results
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // The baseline falls back to the first player of the run when the chosen one wasn't part of it
+  const baseline = run
+    ? run.results.find(result => result.userId === baselineUserId) || run.results[0]
+    : null;
+
+  const differencesByUser = useMemo(() => {
+    const differences = new Map<string, JsonDifference[]>();
+    if (!run || !baseline || baseline.error) return differences;
+
+    run.results.forEach(result => {
+      if (result !== baseline && !result.error) {
+        differences.set(result.userId, diffJson(baseline.data, result.data));
+      }
+    });
+    return differences;
+  }, [run, baseline]);
+
+  if (authenticatedUsers.length === 0) {
+    return null;
+  }
+
+  const differingCount = Array.from(differencesByUser.values()).filter(d => d.length > 0).length;
+  const failedCount = run ? run.results.filter(result => result.error).length : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <GitCompare className="h-5 w-5 text-gray-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Compare Players</h3>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center space-x-2">
+          <select
+            value={operationId}
+            onChange={e => setOperationId(e.target.value as FanOutOperationId)}
+            className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          >
+            {FAN_OUT_OPERATIONS.map(operation => (
+              <option key={operation.id} value={operation.id}>{operation.label}</option>
+            ))}
+          </select>
+          {operationId === 'custom' && (
+            <input
+              type="text"
+              value={customPath}
+              onChange={e => setCustomPath(e.target.value)}
+              placeholder="tournament/<id>/game"
+              className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm font-mono"
+            />
+          )}
+        </div>
+        {operationId === 'custom' && allowedPathPrefixes && (
+          <p className="text-xs text-gray-500">
+            The proxy forwards paths under {allowedPathPrefixes.join(', ')}. Other paths are rejected with a 403
+            unless their prefix is added to <code>PROXY_ALLOWED_PATH_PREFIXES</code> on the server.
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {authenticatedUsers.map(user => (
+            <label
+              key={user.id}
+              className="flex items-center space-x-2 border border-gray-200 rounded-lg p-2 text-sm cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={selectedUserIds.includes(user.id)}
+                onChange={() => toggleUser(user.id)}
+                className="h-4 w-4"
+              />
+              <span className="truncate flex-1">{user.slotLabel ? `${user.slotLabel}: ` : ''}{user.displayName || user.email || user.id}</span>
+            </label>
+          ))}
+        </div>
+
+        <button
+          onClick={runFanOut}
+          disabled={isRunning || selectedUserIds.length === 0}
+          className={`btn-primary text-sm w-full flex items-center justify-center space-x-1 ${
+            isRunning || selectedUserIds.length === 0 ? 'opacity-50 cursor-not-allowed' : ''
+          }`}
+        >
+          <Play className="h-4 w-4" />
+          <span>{isRunning ? 'Running...' : `Run as ${selectedUserIds.length} players`}</span>
+        </button>
+
+        {run && baseline && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <span>
+                <strong>{run.label}</strong> at {new Date(run.ranAt).toLocaleTimeString()}
+              </span>
+              <span>
+                {baseline.error
+                  ? 'Baseline failed; pick another'
+                  : `${differingCount} differ from baseline`}
+                {failedCount > 0 && `, ${failedCount} failed`}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {run.results.map(result => {
+                const isBaseline = result === baseline;
+                const differences = differencesByUser.get(result.userId);
+                return (
+                  <div
+                    key={result.userId}
+                    className={`border rounded-lg p-3 text-sm space-y-2 ${
+                      isBaseline ? 'border-primary-300 bg-primary-50' : 'border-gray-200'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900 truncate">
+                        {result.displayName || result.userId}
+                      </span>
+                      <span className="text-xs text-gray-500 flex-shrink-0">{result.durationMs} ms</span>
+                    </div>
+
+                    {result.error ? (
+                      <div className="flex items-start space-x-1 text-red-700">
+                        <XCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                        <span className="break-all">{result.error}</span>
+                      </div>
+                    ) : isBaseline ? (
+                      <div className="flex items-center space-x-1 text-primary-700">
+                        <Star className="h-4 w-4" />
+                        <span>Baseline</span>
+                      </div>
+                    ) : differences && differences.length > 0 ? (
+                      <>
+                        <div className="flex items-center space-x-1 text-amber-700">
+                          <AlertTriangle className="h-4 w-4" />
+                          <span>{differences.length} differences</span>
+                        </div>
+                        <DifferenceList differences={differences} />
+                      </>
+                    ) : differences ? (
+                      <div className="flex items-center space-x-1 text-green-700">
+                        <CheckCircle className="h-4 w-4" />
+                        <span>Identical to baseline</span>
+                      </div>
+                    ) : null}
+
+                    <div className="flex items-center justify-between">
+                      {!result.error && (
+                        <details className="text-xs text-gray-500 flex-1">
+                          <summary className="cursor-pointer">Response</summary>
+                          <pre className="mt-1 bg-gray-50 rounded p-2 max-h-48 overflow-auto">
+                            {JSON.stringify(result.data, null, 2)}
+                          </pre>
+                        </details>
+                      )}
+                      {!isBaseline && (
+                        <button
+                          onClick={() => setBaselineUserId(result.userId)}
+                          className="text-xs text-primary-600 hover:text-primary-800 self-start"
+                        >
+                          Use as baseline
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,301 @@
+'use client';
+
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { GameSession, TambolaTicket } from '@/types/auth';
+import { CLAIM_LABELS, CLAIM_TYPES, ClaimType, evaluateClaims, verifyClaim } from '@/lib/claim-engine';
+import { CALL_SPEEDS, DEFAULT_CALL_INTERVAL, LocalNumberCaller } from '@/lib/number-caller';
+import { MAX_NUMBER, getTicketNumbers } from '@/lib/tambola-ticket';
+import { TicketGrid } from '@/components/TicketGrid';
+import { Grid3x3, Play, Pause, SkipForward, RotateCcw, Server, Cpu } from 'lucide-react';
+
+type CallSource = 'server' | 'local';
+
+interface GameBoardProps {
+  session: GameSession;
+  onClaim: (userId: string, ticketId: string, claim: ClaimType) => Promise<void>;
+  onGenerateLocalTickets: (userId: string) => void;
+}
+
+interface ClaimMessage {
+  text: string;
+  ok: boolean;
+}
+
+export const GameBoard: React.FC<GameBoardProps> = ({
+  session,
+  onClaim,
+  onGenerateLocalTickets
+}) => {
+  const [source, setSource] = useState<CallSource>('server');
+  const [autoDaub, setAutoDaub] = useState(true);
+  const [manualDaubs, setManualDaubs] = useState<Record<string, number[]>>({});
+  const [localCalled, setLocalCalled] = useState<number[]>([]);
+  const [callInterval, setCallInterval] = useState(DEFAULT_CALL_INTERVAL);
+  const [isCalling, setIsCalling] = useState(false);
+  const [claimMessages, setClaimMessages] = useState<Record<string, ClaimMessage>>({});
+  const callerRef = useRef<LocalNumberCaller | null>(null);
+
+  // One local caller per session, seeded so a replay calls the same numbers
+  useEffect(() => {
+    const caller = new LocalNumberCaller(setLocalCalled, session.sessionId, DEFAULT_CALL_INTERVAL);
+    callerRef.current = caller;
+    setCallInterval(DEFAULT_CALL_INTERVAL);
+    setIsCalling(false);
+    setManualDaubs({});
+    setClaimMessages({});
+
+    return () => caller.stop();
+  }, [session.sessionId]);
+
+  const calledNumbers = source === 'server' ? session.calledNumbers : localCalled;
+  const calledSet = useMemo(() => new Set(calledNumbers), [calledNumbers]);
+  const lastCall = calledNumbers[calledNumbers.length - 1] ?? null;
+  // The caller stops by itself after the 90th number
+  const callerRunning = isCalling && localCalled.length < MAX_NUMBER;
+
+  const startCalling = () => {
+    callerRef.current?.start();
+    setIsCalling(true);
+  };
+
+  const stopCalling = () => {
+    callerRef.current?.stop();
+    setIsCalling(false);
+  };
+
+  const callNext = () => {
+    callerRef.current?.callNext();
+  };
+
+  const resetCaller = () => {
+    callerRef.current?.reset(session.sessionId);
+    setIsCalling(false);
+    setManualDaubs({});
+    setClaimMessages({});
+  };
+
+  const changeSpeed = (intervalMs: number) => {
+    setCallInterval(intervalMs);
+    callerRef.current?.setInterval(intervalMs);
+  };
+
+  const changeSource = (next: CallSource) => {
+    stopCalling();
+    setSource(next);
+    setManualDaubs({});
+    setClaimMessages({});
+  };
+
+  const toggleDaub = (ticketId: string, value: number) => {
+    setManualDaubs(prev => {
+      const current = prev[ticketId] || [];
+      return {
+        ...prev,
+        [ticketId]: current.includes(value) ? current.filter(v => v !== value) : [...current, value]
+      };
+    });
+  };
+
+  const getDaubed = (ticket: TambolaTicket): Set<number> => {
+    if (autoDaub) {
+      return new Set(getTicketNumbers(ticket.numbers).filter(value => calledSet.has(value)));
+    }
+    return new Set(manualDaubs[ticket.ticketId] || []);
+  };
+
+  const handleClaim = async (userId: string, ticket: TambolaTicket, claim: ClaimType) => {
+    const key = `${ticket.ticketId}-${claim}`;
+
+    if (source === 'server') {
+      setClaimMessages(prev => ({ ...prev, [key]: { text: 'Submitting...', ok: true } }));
+      await onClaim(userId, ticket.ticketId, claim);
+      setClaimMessages(prev => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+      return;
+    }
+
+    // The server doesn't know about local calls, so verify locally
+    const result = verifyClaim(ticket.numbers, localCalled, claim);
+    setClaimMessages(prev => ({
+      ...prev,
+      [key]: { text: result.valid ? `${CLAIM_LABELS[claim]} valid` : result.reason || 'Invalid claim', ok: result.valid }
+    }));
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center space-x-2">
+          <Grid3x3 className="h-5 w-5 text-gray-600" />
+          <h4 className="font-semibold text-gray-900">Live Board</h4>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <div className="flex rounded-lg overflow-hidden border border-gray-300">
+            <button
+              onClick={() => changeSource('server')}
+              className={`flex items-center space-x-1 px-3 py-1 ${source === 'server' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700'}`}
+            >
+              <Server className="h-4 w-4" />
+              <span>Backend</span>
+            </button>
+            <button
+              onClick={() => changeSource('local')}
+              className={`flex items-center space-x-1 px-3 py-1 ${source === 'local' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700'}`}
+            >
+              <Cpu className="h-4 w-4" />
+              <span>Local caller</span>
+            </button>
+          </div>
+
+          <label className="flex items-center space-x-1">
+            <input
+              type="checkbox"
+              checked={autoDaub}
+              onChange={e => setAutoDaub(e.target.checked)}
+              className="h-4 w-4"
+            />
+            <span>Auto-daub</span>
+          </label>
+        </div>
+      </div>
+
+      {source === 'local' && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {callerRunning ? (
+            <button onClick={stopCalling} className="btn-secondary text-sm flex items-center space-x-1">
+              <Pause className="h-4 w-4" />
+              <span>Pause</span>
+            </button>
+          ) : (
+            <button
+              onClick={startCalling}
+              disabled={localCalled.length >= MAX_NUMBER}
+              className="btn-primary text-sm flex items-center space-x-1"
+            >
+              <Play className="h-4 w-4" />
+              <span>{localCalled.length > 0 ? 'Resume' : 'Start'}</span>
+            </button>
+          )}
+          <button
+            onClick={callNext}
+            disabled={callerRunning || localCalled.length >= MAX_NUMBER}
+            className="flex items-center space-x-1 px-3 py-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200"
+          >
+            <SkipForward className="h-4 w-4" />
+            <span>Next</span>
+          </button>
+          <button
+            onClick={resetCaller}
+            className="flex items-center space-x-1 px-3 py-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200"
+          >
+            <RotateCcw className="h-4 w-4" />
+            <span>Reset</span>
+          </button>
+          <select
+            value={callInterval}
+            onChange={e => changeSpeed(Number(e.target.value))}
+            className="border border-gray-300 rounded-lg px-2 py-2"
+          >
+            {CALL_SPEEDS.map(speed => (
+              <option key={speed} value={speed}>Every {speed / 1000}s</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* Called numbers board */}
+      <div>
+        <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
+          <span>Called: {calledNumbers.length}/{MAX_NUMBER}</span>
+          {lastCall !== null && (
+            <span>Last call: <strong className="text-lg text-gray-900">{lastCall}</strong></span>
+          )}
+        </div>
+        <div className="grid grid-cols-10 gap-1">
+          {Array.from({ length: MAX_NUMBER }, (_, index) => index + 1).map(value => (
+            <div
+              key={value}
+              className={`h-7 flex items-center justify-center rounded text-xs font-medium ${
+                value === lastCall
+                  ? 'bg-yellow-400 text-gray-900'
+                  : calledSet.has(value)
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-400'
+              }`}
+            >
+              {value}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Players' tickets side by side */}
+      <div className="flex space-x-4 overflow-x-auto pb-2">
+        {Object.values(session.participantStates).map(participant => (
+          <div key={participant.userId} className="min-w-[18rem] flex-shrink-0 space-y-3">
+            <h5 className="font-medium text-gray-900 truncate">
+              {participant.displayName || participant.userId}
+            </h5>
+
+            {participant.tickets.length === 0 ? (
+              <div className="text-center text-sm text-gray-500 border border-dashed border-gray-300 rounded-lg p-4">
+                <p>No tickets</p>
+                <button
+                  onClick={() => onGenerateLocalTickets(participant.userId)}
+                  className="mt-2 text-blue-600 hover:text-blue-800"
+                >
+                  Generate local tickets
+                </button>
+              </div>
+            ) : (
+              participant.tickets.map(ticket => {
+                const evaluation = evaluateClaims(ticket.numbers, calledNumbers);
+                return (
+                  <div key={ticket.ticketId} className="space-y-2">
+                    <TicketGrid
+                      numbers={ticket.numbers}
+                      daubed={getDaubed(ticket)}
+                      called={calledSet}
+                      lastCall={lastCall}
+                      onCellClick={autoDaub ? undefined : value => toggleDaub(ticket.ticketId, value)}
+                    />
+                    <div className="flex flex-wrap gap-1">
+                      {CLAIM_TYPES.map(claim => (
+                        <button
+                          key={claim}
+                          onClick={() => handleClaim(participant.userId, ticket, claim)}
+                          disabled={ticket.claims[claim]}
+                          className={`px-2 py-1 rounded text-xs font-medium ${
+                            ticket.claims[claim]
+                              ? 'bg-green-600 text-white'
+                              : evaluation[claim].satisfied
+                                ? 'bg-green-100 text-green-700 hover:bg-green-200'
+                                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                          }`}
+                        >
+                          {CLAIM_LABELS[claim]}
+                        </button>
+                      ))}
+                    </div>
+                    {CLAIM_TYPES.map(claim => {
+                      const message = claimMessages[`${ticket.ticketId}-${claim}`];
+                      return message && (
+                        <p key={claim} className={`text-xs ${message.ok ? 'text-green-700' : 'text-orange-700'}`}>
+                          {message.text}
+                        </p>
+                      );
+                    })}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,300 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Tournament } from '@/lib/api-config';
+import { CLAIM_LABELS } from '@/lib/claim-engine';
+import { SubscriptionStorage } from '@/lib/subscription-storage';
+import { useAuth } from '@/contexts/AuthContext';
+import { useApiService } from '@/hooks/useApiService';
+import { useGameSession } from '@/hooks/useGameSession';
+import { GameBoard } from '@/components/GameBoard';
+import { GameSession } from '@/types/auth';
+import {
+  Radio,
+  RefreshCw,
+  Play,
+  Square,
+  AlertCircle,
+  CheckCircle,
+  XCircle,
+  Clock,
+  Ticket
+} from 'lucide-react';
+
+const STATUS_COLORS: Record<GameSession['status'], string> = {
+  waiting: 'text-blue-600 bg-blue-100',
+  active: 'text-green-600 bg-green-100',
+  completed: 'text-gray-600 bg-gray-100'
+};
+
+const PARTICIPANT_STATUS_COLORS = {
+  pending: 'text-gray-600 bg-gray-100',
+  ready: 'text-green-600 bg-green-100',
+  error: 'text-red-600 bg-red-100'
+};
+
+const formatCountdown = (target: number): string => {
+  const diff = Math.max(0, Math.floor((target - Date.now()) / 1000));
+  const hours = Math.floor(diff / 3600);
+  const minutes = Math.floor((diff % 3600) / 60);
+  const seconds = diff % 60;
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m ${seconds.toString().padStart(2, '0')}s`;
+};
+
+export const GameSessionPanel: React.FC = () => {
+  const { authenticatedUsers, currentEnvironment } = useAuth();
+  const { fetchTambolaTournaments, isLoading, error } = useApiService();
+  const {
+    session,
+    serverError,
+    createSession,
+    endSession,
+    loadTickets,
+    generateLocalTickets,
+    claim
+  } = useGameSession();
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [selectedTournamentId, setSelectedTournamentId] = useState('');
+  const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
+
+  const loadTournaments = useCallback(async () => {
+    if (authenticatedUsers.length === 0) {
+      setTournaments([]);
+      return;
+    }
+
+    try {
+      const now = Math.floor(Date.now() / 1000);
+      // Only tournaments that haven't finished can host a session
+      setTournaments((await fetchTambolaTournaments()).filter(t => t.end > now));
+    } catch (err) {
+      console.error('Failed to load tournaments for game session:', err);
+    }
+  }, [authenticatedUsers, fetchTambolaTournaments]);
+
+  useEffect(() => {
+    loadTournaments();
+  }, [loadTournaments]);
+
+  // Default the participants to whoever is subscribed to the chosen tournament.
+  // Read storage directly so subscriptions made in TournamentList are picked up.
+  useEffect(() => {
+    const subscribed = SubscriptionStorage.loadSubscriptions(currentEnvironment)
+      .filter(s => s.tournamentId === selectedTournamentId)
+      .map(s => s.userId)
+      .filter(userId => authenticatedUsers.some(u => u.id === userId));
+    setSelectedUserIds(subscribed.length > 0 ? subscribed : authenticatedUsers.map(u => u.id));
+  }, [selectedTournamentId, authenticatedUsers, currentEnvironment]);
+
+  const toggleUser = (userId: string) => {
+    setSelectedUserIds(prev => prev.includes(userId)
+      ? prev.filter(id => id !== userId)
+      : [...prev, userId]
+    );
+  };
+
+  const handleCreateSession = () => {
+    const tournament = tournaments.find(t => t.id === selectedTournamentId);
+    if (!tournament || selectedUserIds.length === 0) return;
+
+    try {
+      createSession(tournament, selectedUserIds);
+    } catch (err) {
+      alert(`Failed to create session: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  if (authenticatedUsers.length === 0 && !session) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2">
+          <Radio className="h-5 w-5 text-gray-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Game Session</h3>
+        </div>
+        {session && (
+          <button onClick={endSession} className="btn-secondary text-sm flex items-center space-x-1">
+            <Square className="h-4 w-4" />
+            <span>End Session</span>
+          </button>
+        )}
+      </div>
+
+      {!session ? (
+        // Session setup
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div className="flex items-center space-x-2">
+            <select
+              value={selectedTournamentId}
+              onChange={e => setSelectedTournamentId(e.target.value)}
+              className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            >
+              <option value="">Select a tournament...</option>
+              {tournaments.map(tournament => (
+                <option key={tournament.id} value={tournament.id}>
+                  {tournament.name} ({new Date(tournament.start * 1000).toLocaleString()})
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={loadTournaments}
+              disabled={isLoading}
+              className="p-2 rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200"
+            >
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+
+          {selectedTournamentId && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">Participants</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {authenticatedUsers.map(user => (
+                  <label
+                    key={user.id}
+                    className="flex items-center space-x-2 border border-gray-200 rounded-lg p-2 text-sm cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedUserIds.includes(user.id)}
+                      onChange={() => toggleUser(user.id)}
+                      className="h-4 w-4"
+                    />
+                    <span className="truncate">{user.displayName || user.email || user.id}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <button
+            onClick={handleCreateSession}
+            disabled={!selectedTournamentId || selectedUserIds.length === 0}
+            className={`btn-primary text-sm w-full flex items-center justify-center space-x-1 ${
+              !selectedTournamentId || selectedUserIds.length === 0 ? 'opacity-50 cursor-not-allowed' : ''
+            }`}
+          >
+            <Play className="h-4 w-4" />
+            <span>Create Session</span>
+          </button>
+        </div>
+      ) : (
+        // Running session
+        <div className="space-y-4">
+          <div className="border border-gray-200 rounded-lg p-4">
+            <div className="flex items-start justify-between">
+              <div>
+                <h5 className="font-medium text-gray-900">{session.tournamentName}</h5>
+                <p className="text-xs text-gray-500">
+                  ID: {session.tournamentId} | Session: {session.sessionId}
+                </p>
+              </div>
+              <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${STATUS_COLORS[session.status]}`}>
+                {session.status}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mt-3 text-sm text-gray-600">
+              <div className="flex items-center space-x-1">
+                <Clock className="h-4 w-4 text-gray-400" />
+                <span>
+                  {session.status === 'waiting' && `Starts in ${formatCountdown(session.startTime)}`}
+                  {session.status === 'active' && `Ends in ${formatCountdown(session.endTime)}`}
+                  {session.status === 'completed' && 'Finished'}
+                </span>
+              </div>
+              <div>Numbers called: {session.calledNumbers.length}/90</div>
+              {session.calledNumbers.length > 0 && (
+                <div>Last call: <strong>{session.calledNumbers[session.calledNumbers.length - 1]}</strong></div>
+              )}
+            </div>
+
+            {serverError && (
+              <div className="flex items-center space-x-1 mt-3 text-xs text-red-700">
+                <AlertCircle className="h-4 w-4" />
+                <span>Game state unavailable: {serverError}</span>
+              </div>
+            )}
+          </div>
+
+          {session.status !== 'waiting' && (
+            <GameBoard
+              session={session}
+              onClaim={claim}
+              onGenerateLocalTickets={generateLocalTickets}
+            />
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {Object.values(session.participantStates).map(participant => (
+              <div key={participant.userId} className="border border-gray-200 rounded-lg p-3 text-sm">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-medium text-gray-900 truncate">
+                    {participant.displayName || participant.userId}
+                  </span>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${PARTICIPANT_STATUS_COLORS[participant.status]}`}>
+                    {participant.status}
+                  </span>
+                </div>
+
+                <div className="flex items-center justify-between text-xs text-gray-600">
+                  <span className="flex items-center space-x-1">
+                    <Ticket className="h-3 w-3" />
+                    <span>{participant.tickets.length} tickets</span>
+                  </span>
+                  <button
+                    onClick={() => loadTickets(participant.userId)}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    Reload tickets
+                  </button>
+                </div>
+
+                {participant.claims.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-xs">
+                    {participant.claims.map((claim, index) => (
+                      <li
+                        key={`${claim.ticketId}-${claim.claim}-${index}`}
+                        className={`flex items-start space-x-1 ${claim.accepted ? 'text-green-700' : 'text-orange-700'}`}
+                      >
+                        {claim.accepted
+                          ? <CheckCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                          : <XCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                        }
+                        <span>{CLAIM_LABELS[claim.claim]}: {claim.message}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {participant.errors.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-xs text-red-700">
+                    {participant.errors.map((message, index) => (
+                      <li key={index} className="flex items-start space-x-1">
+                        <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                        <span>{message}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
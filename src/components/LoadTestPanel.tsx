@@ -0,0 +1,259 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { LOAD_OPERATIONS, LOAD_OPERATION_LABELS, LoadOperation } from '@/lib/load-test';
+import { VIRTUAL_TOKEN_SOURCE_LABELS, VirtualTokenSource, getTokenSources } from '@/lib/virtual-players';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLoadTest } from '@/hooks/useLoadTest';
+import { Gauge, Play, Square, Download, AlertCircle } from 'lucide-react';
+
+const MAX_VIRTUAL_PLAYERS = 500;
+
+const downloadJson = (data: unknown, fileName: string) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const NumberField: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, onChange }) => (
+  <label className="text-sm text-gray-700 space-y-1">
+    <span className="block">{label}</span>
+    <input
+      type="number"
+      value={value}
+      min={min}
+      max={max}
+      onChange={e => onChange(Math.min(max, Math.max(min, Number(e.target.value) || min)))}
+      className="w-full border border-gray-300 rounded-lg px-3 py-2"
+    />
+  </label>
+);
+
+export const LoadTestPanel: React.FC = () => {
+  const { currentEnvironment } = useAuth();
+  const { phase, createdPlayers, report, error, start, stop } = useLoadTest();
+  const sources = getTokenSources(currentEnvironment);
+  const [source, setSource] = useState<VirtualTokenSource>(sources[0]);
+  const [playerCount, setPlayerCount] = useState(50);
+  const [customTokenText, setCustomTokenText] = useState('');
+  const [tournamentId, setTournamentId] = useState('');
+  const [operations, setOperations] = useState<LoadOperation[]>(['subscribe', 'gameState']);
+  const [requestsPerSecond, setRequestsPerSecond] = useState(20);
+  const [rampUpSeconds, setRampUpSeconds] = useState(10);
+  const [durationSeconds, setDurationSeconds] = useState(60);
+  const [maxConcurrency, setMaxConcurrency] = useState(50);
+
+  // Fall back to a source the new environment supports
+  useEffect(() => {
+    const available = getTokenSources(currentEnvironment);
+    setSource(prev => (available.includes(prev) ? prev : available[0]));
+  }, [currentEnvironment]);
+
+  const toggleOperation = (operation: LoadOperation) => {
+    setOperations(prev => prev.includes(operation)
+      ? prev.filter(o => o !== operation)
+      : LOAD_OPERATIONS.filter(o => o === operation || prev.includes(o))
+    );
+  };
+
+  const handleStart = () => {
+    const customTokens = customTokenText.split('\n').map(token => token.trim()).filter(Boolean);
+    if (!tournamentId.trim()) {
+      alert('Enter the ID of the tournament to load');
+      return;
+    }
+    if (operations.length === 0) {
+      alert('Pick at least one endpoint to call');
+      return;
+    }
+    if (source === 'customToken' && customTokens.length === 0) {
+      alert('Paste one custom token per line');
+      return;
+    }
+
+    start(source, playerCount, customTokens, {
+      tournamentId: tournamentId.trim(),
+      operations,
+      requestsPerSecond,
+      rampUpSeconds,
+      durationSeconds,
+      maxConcurrency
+    });
+  };
+
+  const isBusy = phase !== 'idle';
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Gauge className="h-5 w-5 text-gray-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Load Test</h3>
+        </div>
+        {isBusy ? (
+          <button onClick={stop} disabled={phase === 'creating'} className="btn-secondary text-sm flex items-center space-x-1">
+            <Square className="h-4 w-4" />
+            <span>{phase === 'creating' ? `Creating players (${createdPlayers})...` : 'Stop'}</span>
+          </button>
+        ) : (
+          <button onClick={handleStart} className="btn-primary text-sm flex items-center space-x-1">
+            <Play className="h-4 w-4" />
+            <span>Start</span>
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <label className="text-sm text-gray-700 space-y-1">
+            <span className="block">Virtual players</span>
+            <select
+              value={source}
+              onChange={e => setSource(e.target.value as VirtualTokenSource)}
+              disabled={isBusy}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2"
+            >
+              {sources.map(s => (
+                <option key={s} value={s}>{VIRTUAL_TOKEN_SOURCE_LABELS[s]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700 space-y-1">
+            <span className="block">Tournament ID</span>
+            <input
+              type="text"
+              value={tournamentId}
+              onChange={e => setTournamentId(e.target.value)}
+              disabled={isBusy}
+              placeholder="mock-soon"
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 font-mono"
+            />
+          </label>
+        </div>
+
+        {source === 'customToken' && (
+          <textarea
+            value={customTokenText}
+            onChange={e => setCustomTokenText(e.target.value)}
+            disabled={isBusy}
+            placeholder="Firebase custom tokens, one per line (one virtual player each)"
+            rows={3}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-xs font-mono"
+          />
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          {source !== 'customToken' && (
+            <NumberField label="Players" value={playerCount} min={1} max={MAX_VIRTUAL_PLAYERS} onChange={setPlayerCount} />
+          )}
+          <NumberField label="Requests/s" value={requestsPerSecond} min={1} max={1000} onChange={setRequestsPerSecond} />
+          <NumberField label="Ramp-up (s)" value={rampUpSeconds} min={0} max={600} onChange={setRampUpSeconds} />
+          <NumberField label="Duration (s)" value={durationSeconds} min={5} max={3600} onChange={setDurationSeconds} />
+          <NumberField label="Max in flight" value={maxConcurrency} min={1} max={500} onChange={setMaxConcurrency} />
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          {LOAD_OPERATIONS.map(operation => (
+            <label key={operation} className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={operations.includes(operation)}
+                onChange={() => toggleOperation(operation)}
+                disabled={isBusy}
+                className="h-4 w-4"
+              />
+              <span>{LOAD_OPERATION_LABELS[operation]}</span>
+            </label>
+          ))}
+        </div>
+
+        {error && (
+          <div className="flex items-center space-x-2 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {report && (
+          <div className="border border-gray-200 rounded-lg p-4 space-y-3 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="text-gray-700">
+                <strong>{report.requestCount}</strong> requests · {report.achievedRps} req/s ·{' '}
+                {report.activePlayers}/{report.playerCount} players
+                {report.status === 'running' && ` · ${report.inFlight} in flight`}
+                {report.throttled > 0 && ` · ${report.throttled} throttled`}
+              </span>
+              <div className="flex items-center space-x-2">
+                <span className="text-xs text-gray-500 uppercase">{report.status}</span>
+                {report.status !== 'running' && (
+                  <button
+                    onClick={() => downloadJson(report, `load-test-${new Date(report.startedAt).toISOString().replace(/[:.]/g, '-')}.json`)}
+                    title="Download report"
+                    className="p-1 text-gray-500 hover:text-gray-800"
+                  >
+                    <Download className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {report.operations.length > 0 && (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="font-medium py-1">Endpoint</th>
+                    <th className="font-medium py-1 text-right">Requests</th>
+                    <th className="font-medium py-1 text-right">Errors</th>
+                    <th className="font-medium py-1 text-right">Mean</th>
+                    <th className="font-medium py-1 text-right">p50</th>
+                    <th className="font-medium py-1 text-right">p90</th>
+                    <th className="font-medium py-1 text-right">p95</th>
+                    <th className="font-medium py-1 text-right">p99</th>
+                    <th className="font-medium py-1 text-right">Max</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  {report.operations.map(stats => (
+                    <tr key={stats.operation} className="border-t border-gray-100">
+                      <td className="py-1 font-sans">{LOAD_OPERATION_LABELS[stats.operation]}</td>
+                      <td className="py-1 text-right">{stats.count}</td>
+                      <td className={`py-1 text-right ${stats.errors > 0 ? 'text-red-600' : ''}`}>{stats.errors}</td>
+                      <td className="py-1 text-right">{stats.mean}</td>
+                      <td className="py-1 text-right">{stats.p50}</td>
+                      <td className="py-1 text-right">{stats.p90}</td>
+                      <td className="py-1 text-right">{stats.p95}</td>
+                      <td className="py-1 text-right">{stats.p99}</td>
+                      <td className="py-1 text-right">{stats.max}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {report.errors.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-gray-700">Errors</p>
+                {report.errors.map(({ reason, count }) => (
+                  <div key={reason} className="flex justify-between text-xs text-red-700">
+                    <span className="break-all">{reason}</span>
+                    <span className="ml-2 flex-shrink-0">{count}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
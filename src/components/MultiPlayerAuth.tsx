@@ -1,9 +1,7 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
-  signInWithPopup, 
-  GoogleAuthProvider, 
   signOut as firebaseSignOut,
   User,
   Auth
@@ -12,140 +10,308 @@ import {
   createFirebaseInstance, 
   getFirebaseInstance, 
   removeFirebaseInstance,
-  generatePlayerId,
-  Environment 
+  generatePlayerId
 } from '@/lib/firebase-config';
-import { AuthenticatedUser } from '@/types/auth';
+import { Environment, getEnvironment, isProductionEnvironment } from '@/lib/environments';
+import { AuthenticatedUser, Persona, SignInProvider, SlotSignInSettings } from '@/types/auth';
 import { AuthStorage, StoredAuthUser } from '@/lib/auth-storage';
-import { useAuth } from '@/contexts/AuthContext';
-import { UserPlus, LogOut, RefreshCw, Users, AlertTriangle } from 'lucide-react';
+import {
+  SIGN_IN_PROVIDERS,
+  SIGN_IN_PROVIDER_LABELS,
+  canSignInUnattended,
+  generateTestAccount,
+  getFallbackDisplayName,
+  mayCreateAccount,
+  signInWithProvider
+} from '@/lib/sign-in';
+import { TokenInspector } from '@/components/TokenInspector';
+import { AuthStorageSettings, AuthStorageUnlock } from '@/components/AuthStorageSettings';
+import { PersonaPanel } from '@/components/PersonaPanel';
+import { useAuthStorage } from '@/hooks/useAuthStorage';
+import { useTokenRefresh } from '@/hooks/useTokenRefresh';
+import { usePlayerClaims } from '@/hooks/usePlayerClaims';
+import { subscribeToAuthChanges } from '@/lib/auth-sync';
+import { MAX_SLOTS, SLOT_COLORS, SlotColor, SlotDefinition, createDefaultLayout, createSlotDefinition } from '@/lib/slot-layout';
+import { exchangeRefreshToken } from '@/lib/token-refresh';
+import { getTokenExpiry } from '@/lib/jwt';
+import {
+  UserPlus,
+  LogOut,
+  RefreshCw,
+  Users,
+  AlertTriangle,
+  Shuffle,
+  Zap,
+  FlaskConical,
+  MonitorSmartphone,
+  Plus,
+  Pencil,
+  ChevronLeft,
+  ChevronRight,
+  Trash2
+} from 'lucide-react';
 
 interface MultiPlayerAuthProps {
   environment: Environment;
   onUsersChange: (users: AuthenticatedUser[]) => void;
-  maxPlayers?: number;
+  initialPlayers?: number; // slots in the default layout, before any layout was saved
 }
 
-interface PlayerSlot {
-  id: string;
+interface PlayerSlot extends SlotDefinition {
   playerId: string;
   user: AuthenticatedUser | null;
   isSigningIn: boolean;
-  isRefreshing?: boolean;
   auth: Auth | null;
+  signIn: SlotSignInSettings;
+  customToken: string;
 }
 
+const DEFAULT_SIGN_IN: SlotSignInSettings = { provider: 'google' };
+
+const SLOT_COLOR_STYLES: Record<SlotColor, { border: string; swatch: string }> = {
+  blue: { border: 'border-l-blue-500', swatch: 'bg-blue-500' },
+  green: { border: 'border-l-green-500', swatch: 'bg-green-500' },
+  purple: { border: 'border-l-purple-500', swatch: 'bg-purple-500' },
+  orange: { border: 'border-l-orange-500', swatch: 'bg-orange-500' },
+  red: { border: 'border-l-red-500', swatch: 'bg-red-500' },
+  yellow: { border: 'border-l-yellow-400', swatch: 'bg-yellow-400' },
+  pink: { border: 'border-l-pink-500', swatch: 'bg-pink-500' },
+  teal: { border: 'border-l-teal-500', swatch: 'bg-teal-500' },
+  gray: { border: 'border-l-gray-400', swatch: 'bg-gray-400' }
+};
+
+const createSlot = (definition: SlotDefinition, signIn: SlotSignInSettings = DEFAULT_SIGN_IN): PlayerSlot => ({
+  id: definition.id,
+  label: definition.label,
+  color: definition.color,
+  playerId: generatePlayerId(),
+  user: null,
+  isSigningIn: false,
+  auth: null,
+  signIn,
+  customToken: ''
+});
+
+const toLayout = (slots: PlayerSlot[]): SlotDefinition[] => {
+  return slots.map(({ id, label, color }) => ({ id, label, color }));
+};
+
+// Where a stored player goes: back into its own slot when that is free, else the first
+// free slot, else a new slot appended to `slots` (up to MAX_SLOTS). -1 when full.
+const findSlotForUser = (slots: PlayerSlot[], storedUser: StoredAuthUser): number => {
+  const isFree = (slot: PlayerSlot) => !slot.user && !slot.isSigningIn;
+  let index = slots.findIndex(slot => slot.id === storedUser.slotId && isFree(slot));
+  if (index === -1) {
+    index = slots.findIndex(isFree);
+  }
+  if (index === -1 && slots.length < MAX_SLOTS) {
+    slots.push(createSlot(createSlotDefinition(slots)));
+    index = slots.length - 1;
+  }
+  return index;
+};
+
+// Rebuild a player from storage for display. Its new Firebase instance has no
+// signed-in user, so tokens are refreshed through the stored refresh token.
+const createRestoredUser = (storedUser: StoredAuthUser): AuthenticatedUser => {
+  const tokens = { accessToken: storedUser.accessToken, refreshToken: storedUser.refreshToken };
+  return {
+    id: storedUser.id,
+    user: {
+      uid: storedUser.uid,
+      displayName: storedUser.displayName,
+      email: storedUser.email,
+      photoURL: storedUser.photoURL,
+      get refreshToken() {
+        return tokens.refreshToken || '';
+      },
+      getIdToken: async (forceRefresh?: boolean) => {
+        const expiringSoon = getTokenExpiry(tokens.accessToken) <= Date.now() + 5 * 60 * 1000;
+        if (!forceRefresh && !expiringSoon) {
+          return tokens.accessToken;
+        }
+        if (!tokens.refreshToken) {
+          throw new Error('No refresh token stored for this player; sign in again');
+        }
+
+        const refreshed = await exchangeRefreshToken(storedUser.environment, tokens.refreshToken);
+        tokens.accessToken = refreshed.idToken;
+        tokens.refreshToken = refreshed.refreshToken;
+        return tokens.accessToken;
+      }
+    } as User,
+    accessToken: storedUser.accessToken,
+    refreshToken: storedUser.refreshToken,
+    environment: storedUser.environment,
+    signInTime: storedUser.signInTime,
+    tokenExpiry: storedUser.tokenExpiry,
+    displayName: storedUser.displayName,
+    email: storedUser.email,
+    photoURL: storedUser.photoURL,
+    provider: storedUser.provider,
+    personaId: storedUser.personaId,
+    requestHeaders: storedUser.requestHeaders,
+  };
+};
+
 export const MultiPlayerAuth: React.FC<MultiPlayerAuthProps> = ({
   environment,
   onUsersChange,
-  maxPlayers = 4
+  initialPlayers = 4
 }) => {
-  const { refreshUserToken } = useAuth();
   const [playerSlots, setPlayerSlots] = useState<PlayerSlot[]>([]);
   const [isInitializing, setIsInitializing] = useState(true);
+  const [editingSlotId, setEditingSlotId] = useState<string | null>(null);
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  // Google personas waiting for their own click (browsers only open popups from one)
+  const [queuedPersonaIds, setQueuedPersonaIds] = useState<string[]>([]);
+  const [blockedPersonaIds, setBlockedPersonaIds] = useState<string[]>([]);
+  const storage = useAuthStorage();
+  const slotsRef = useRef(playerSlots);
+  slotsRef.current = playerSlots;
 
-  // Initialize player slots and load persisted users
+  // Initialize player slots from the saved layout and load persisted users
   useEffect(() => {
+    let cancelled = false;
+
     const initializeSlots = async () => {
+      const slotSettings = await AuthStorage.loadSlotSettings(environment);
+      const layout = (await AuthStorage.loadSlotLayout(environment)) || createDefaultLayout(initialPlayers);
+      const slots = layout.map(definition => createSlot(definition, slotSettings[definition.id]));
+      setPersonas(await AuthStorage.loadPersonas(environment));
       try {
-        // Load persisted users for current environment
-        const storedUsers = AuthStorage.loadUsers().filter(u => u.environment === environment);
+        // Load persisted users for current environment; players whose slot still exists go first
+        const storedUsers = (await AuthStorage.loadUsers())
+          .filter(u => u.environment === environment)
+          .sort((a, b) => Number(!layout.some(d => d.id === a.slotId)) - Number(!layout.some(d => d.id === b.slotId)));
         console.log(`Found ${storedUsers.length} stored users for environment: ${environment}`, storedUsers);
-        
-        const slots: PlayerSlot[] = Array.from({ length: maxPlayers }, (_, index) => {
-          const playerId = generatePlayerId();
-          return {
-            id: `slot-${index + 1}`,
-            playerId,
-            user: null,
-            isSigningIn: false,
-            auth: null
-          };
-        });
 
         // Try to restore users to slots
         let restoredCount = 0;
-        for (let i = 0; i < Math.min(storedUsers.length, maxPlayers); i++) {
-          const storedUser = storedUsers[i];
+        for (const storedUser of storedUsers) {
           try {
             // Check if token needs refresh
             if (AuthStorage.needsTokenRefresh(storedUser)) {
               console.log(`Token needs refresh for user ${storedUser.displayName}`);
             }
 
+            const index = findSlotForUser(slots, storedUser);
+            if (index === -1) {
+              console.warn(`No free slot to restore ${storedUser.displayName} into`);
+              continue;
+            }
+
             // Create Firebase instance for restored user
-            const firebaseInstance = createFirebaseInstance(environment, slots[i].playerId);
-            
-            // Create a restored User object for display
-            const restoredUser: AuthenticatedUser = {
-              id: storedUser.id,
-              user: {
-                uid: storedUser.uid,
-                displayName: storedUser.displayName,
-                email: storedUser.email,
-                photoURL: storedUser.photoURL,
-                getIdToken: async (forceRefresh?: boolean) => {
-                  // Return stored token or refresh if needed
-                  if (forceRefresh || AuthStorage.needsTokenRefresh(storedUser)) {
-                    // This would need to be implemented with proper Firebase auth
-                    console.warn('Token refresh needed but not implemented in restored user');
-                  }
-                  return storedUser.accessToken;
-                }
-              } as User,
-              accessToken: storedUser.accessToken,
-              refreshToken: storedUser.refreshToken,
-              environment: storedUser.environment,
-              signInTime: storedUser.signInTime,
-              tokenExpiry: storedUser.tokenExpiry,
-              displayName: storedUser.displayName,
-              email: storedUser.email,
-              photoURL: storedUser.photoURL,
-            };
+            const firebaseInstance = createFirebaseInstance(environment, slots[index].playerId);
 
-            slots[i].user = restoredUser;
-            slots[i].auth = firebaseInstance.auth;
+            slots[index].user = { ...createRestoredUser(storedUser), slotId: slots[index].id, slotLabel: slots[index].label };
+            slots[index].auth = firebaseInstance.auth;
             restoredCount++;
-            console.log(`Restored user ${storedUser.displayName} to slot ${i + 1}`);
+            console.log(`Restored user ${storedUser.displayName} to ${slots[index].label}`);
           } catch (error) {
             console.warn(`Failed to restore user ${storedUser.displayName}:`, error);
           }
         }
 
         console.log(`Successfully restored ${restoredCount} users`);
-        setPlayerSlots(slots);
-        setIsInitializing(false);
+        if (slots.length !== layout.length) {
+          AuthStorage.saveSlotLayout(environment, toLayout(slots));
+        }
       } catch (error) {
-        console.error('Failed to initialize slots:', error);
-        // Fallback to empty slots
-        const slots: PlayerSlot[] = Array.from({ length: maxPlayers }, (_, index) => {
-          const playerId = generatePlayerId();
-          return {
-            id: `slot-${index + 1}`,
-            playerId,
-            user: null,
-            isSigningIn: false,
-            auth: null
-          };
+        console.error('Failed to restore stored users:', error);
+        // Fall back to the empty slots
+        slots.forEach(slot => {
+          slot.user = null;
+          slot.auth = null;
         });
-        setPlayerSlots(slots);
-        setIsInitializing(false);
       }
+      if (cancelled) {
+        slots.forEach(slot => removeFirebaseInstance(environment, slot.playerId));
+        return;
+      }
+      setPlayerSlots(slots);
+      setIsInitializing(false);
     };
 
     initializeSlots();
-  }, [maxPlayers, environment]);
+    return () => {
+      // The slots are about to be replaced (environment or storage switch), so free their Firebase apps
+      cancelled = true;
+      slotsRef.current.forEach(slot => removeFirebaseInstance(environment, slot.playerId));
+    };
+  }, [initialPlayers, environment, storage.version]);
 
-  // Update parent component when users change
+  // Mirror sign-ins, sign-outs and token refreshes made in other tabs
   useEffect(() => {
-    const authenticatedUsers = playerSlots
-      .filter(slot => slot.user !== null)
-      .map(slot => slot.user!);
-    
-    console.log(`Updating parent with ${authenticatedUsers.length} authenticated users:`, 
-      authenticatedUsers.map(u => u.displayName));
-    onUsersChange(authenticatedUsers);
-  }, [playerSlots, onUsersChange]);
+    const emptySlot = (slot: PlayerSlot): PlayerSlot => {
+      if (slot.auth) {
+        firebaseSignOut(slot.auth).catch(error => console.warn('Error signing out Firebase instance:', error));
+      }
+      removeFirebaseInstance(environment, slot.playerId);
+      return { ...slot, playerId: generatePlayerId(), user: null, auth: null };
+    };
+
+    const applyStoredUsers = async (userIds: string[]) => {
+      const storedUsers = (await AuthStorage.loadUsers())
+        .filter(u => u.environment === environment && userIds.includes(u.id));
+
+      const slots = [...slotsRef.current];
+      storedUsers.forEach(storedUser => {
+        const index = slots.findIndex(slot => slot.user?.id === storedUser.id);
+        if (index !== -1) {
+          const current = slots[index].user!;
+          if (storedUser.tokenExpiry > (current.tokenExpiry || 0)) {
+            slots[index] = {
+              ...slots[index],
+              user: {
+                ...current,
+                accessToken: storedUser.accessToken,
+                refreshToken: storedUser.refreshToken,
+                tokenExpiry: storedUser.tokenExpiry
+              }
+            };
+          }
+          return;
+        }
+
+        const freeIndex = findSlotForUser(slots, storedUser);
+        if (freeIndex === -1) {
+          console.warn(`No free slot for ${storedUser.displayName}, signed in from another tab`);
+          return;
+        }
+        const slot = slots[freeIndex];
+        const firebaseInstance = createFirebaseInstance(environment, slot.playerId);
+        slots[freeIndex] = {
+          ...slot,
+          user: { ...createRestoredUser(storedUser), slotId: slot.id, slotLabel: slot.label },
+          auth: firebaseInstance.auth
+        };
+      });
+      if (slots.length !== slotsRef.current.length) {
+        AuthStorage.saveSlotLayout(environment, toLayout(slots));
+      }
+      setPlayerSlots(slots);
+    };
+
+    return subscribeToAuthChanges(message => {
+      switch (message.type) {
+        case 'users-saved':
+          applyStoredUsers(message.userIds);
+          break;
+        case 'token-updated':
+          applyStoredUsers([message.userId]);
+          break;
+        case 'user-removed':
+          setPlayerSlots(slotsRef.current.map(slot => (slot.user?.id === message.userId ? emptySlot(slot) : slot)));
+          break;
+        case 'users-cleared':
+          if (message.environment === environment) {
+            setPlayerSlots(slotsRef.current.map(slot => (slot.user ? emptySlot(slot) : slot)));
+          }
+          break;
+      }
+    });
+  }, [environment]);
 
   const updateSlotState = (slotId: string, updates: Partial<PlayerSlot>) => {
     setPlayerSlots(prev => prev.map(slot => 
@@ -153,10 +319,64 @@ export const MultiPlayerAuth: React.FC<MultiPlayerAuthProps> = ({
     ));
   };
 
-  const signInPlayer = async (slotId: string) => {
-    const slot = playerSlots.find(s => s.id === slotId);
+  // Changes are computed first and persisted outside the state updater, which React may run twice
+  const updateSlotSignIn = (slotId: string, updates: Partial<SlotSignInSettings>) => {
+    const slot = slotsRef.current.find(s => s.id === slotId);
     if (!slot) return;
 
+    const signIn = { ...slot.signIn, ...updates };
+    updateSlotState(slotId, { signIn });
+    AuthStorage.saveSlotSettings(environment, slotId, signIn);
+  };
+
+  // Apply a change to the slot layout (slots, order, labels, colours) and persist it
+  const updateLayout = (update: (slots: PlayerSlot[]) => PlayerSlot[]) => {
+    const next = update(slotsRef.current);
+    if (next === slotsRef.current) return;
+
+    // Later calls before the next render build on this change
+    slotsRef.current = next;
+    setPlayerSlots(next);
+    AuthStorage.saveSlotLayout(environment, toLayout(next));
+  };
+
+  const addSlot = () => {
+    updateLayout(prev => (prev.length >= MAX_SLOTS ? prev : [...prev, createSlot(createSlotDefinition(prev))]));
+  };
+
+  // Only empty slots can be removed; sign the player out first
+  const removeSlot = (slotId: string) => {
+    updateLayout(prev => prev.filter(slot => slot.id !== slotId || slot.user || slot.isSigningIn));
+  };
+
+  const moveSlot = (slotId: string, offset: number) => {
+    updateLayout(prev => {
+      const index = prev.findIndex(slot => slot.id === slotId);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= prev.length) return prev;
+
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const updateSlotDefinition = (slotId: string, updates: Partial<Pick<SlotDefinition, 'label' | 'color'>>) => {
+    updateLayout(prev => prev.map(slot => {
+      if (slot.id !== slotId) return slot;
+
+      const user = slot.user && updates.label !== undefined ? { ...slot.user, slotLabel: updates.label } : slot.user;
+      return { ...slot, ...updates, user };
+    }));
+  };
+
+  const fillWithTestAccount = (slotId: string) => {
+    updateSlotSignIn(slotId, { provider: 'password', ...generateTestAccount() });
+  };
+
+  // Sign a slot in with its own sign-in settings, or as a saved persona
+  const signInSlot = async (slot: PlayerSlot, persona?: Persona) => {
+    const slotId = slot.id;
     try {
       updateSlotState(slotId, { isSigningIn: true });
 
@@ -164,30 +384,32 @@ export const MultiPlayerAuth: React.FC<MultiPlayerAuthProps> = ({
       const firebaseInstance = createFirebaseInstance(environment, slot.playerId);
       const auth = firebaseInstance.auth;
 
-      // Configure Google provider
-      const provider = new GoogleAuthProvider();
-      provider.setCustomParameters({
-        prompt: 'select_account' // Force account selection
-      });
-
-      // Add additional scopes if needed
-      provider.addScope('email');
-      provider.addScope('profile');
-
-      // Sign in with popup - each popup will be independent
-      const result = await signInWithPopup(auth, provider);
-      const user = result.user;
+      const provider = persona ? persona.provider : slot.signIn.provider;
+      const createIfMissing = mayCreateAccount(persona ? persona.email : slot.signIn.email, isProductionEnvironment(environment));
+      const user = await signInWithProvider(auth, persona
+        ? {
+          provider: persona.provider,
+          email: persona.email,
+          password: persona.password,
+          loginHint: persona.provider === 'google' ? persona.email : undefined,
+          createIfMissing
+        }
+        : {
+          ...slot.signIn,
+          customToken: slot.customToken,
+          createIfMissing
+        });
 
       // Get the access token
       const accessToken = await user.getIdToken();
 
       // Check if this user is already signed in another slot for this environment
-      const existingSlot = playerSlots.find(s => 
+      const existingSlot = slotsRef.current.find(s =>
         s.user && s.user.user.uid === user.uid && s.id !== slotId
       );
 
       if (existingSlot) {
-        throw new Error('This Google account is already signed in another player slot');
+        throw new Error('This account is already signed in another player slot');
       }
 
       const authenticatedUser: AuthenticatedUser = {
@@ -197,19 +419,28 @@ export const MultiPlayerAuth: React.FC<MultiPlayerAuthProps> = ({
         refreshToken: user.refreshToken,
         environment,
         signInTime: Date.now(),
-        tokenExpiry: Date.now() + (60 * 60 * 1000), // 1 hour from now
-        displayName: user.displayName,
+        tokenExpiry: getTokenExpiry(accessToken),
+        displayName: getFallbackDisplayName(user, provider),
         email: user.email,
-        photoURL: user.photoURL
+        photoURL: user.photoURL,
+        provider,
+        slotId: slot.id,
+        slotLabel: slot.label,
+        personaId: persona?.id,
+        requestHeaders: persona && Object.keys(persona.requestHeaders).length > 0 ? persona.requestHeaders : undefined
       };
 
       updateSlotState(slotId, {
         user: authenticatedUser,
         auth,
-        isSigningIn: false
+        isSigningIn: false,
+        customToken: ''
       });
 
-      console.log(`User ${authenticatedUser.displayName} signed in successfully and saved to localStorage`);
+      if (persona) {
+        setBlockedPersonaIds(prev => prev.filter(id => id !== persona.id));
+      }
+      console.log(`User ${authenticatedUser.displayName} signed in as ${slot.label} and saved to storage`);
 
     } catch (error: any) {
       console.error('Sign in error for slot', slotId, ':', error);
@@ -226,17 +457,94 @@ export const MultiPlayerAuth: React.FC<MultiPlayerAuthProps> = ({
         auth: null 
       });
 
+      // A blocked persona popup is shown on the persona itself, whose Sign in button retries it
+      if (persona && error.code === 'auth/popup-blocked') {
+        setBlockedPersonaIds(prev => (prev.includes(persona.id) ? prev : [...prev, persona.id]));
+        return;
+      }
+
       // Show user-friendly error message
       alert(`Sign in failed: ${error.message}`);
     }
   };
 
+  const signInPlayer = async (slotId: string) => {
+    const slot = slotsRef.current.find(s => s.id === slotId);
+    if (slot) {
+      await signInSlot(slot);
+    }
+  };
+
+  const savePersonas = (next: Persona[]) => {
+    setPersonas(next);
+    AuthStorage.savePersonas(environment, next);
+  };
+
+  // Sign a persona into its preferred slot when free, else the first free slot, else a new one
+  const signInPersona = async (saved: Persona) => {
+    const slots = slotsRef.current;
+    if (slots.some(slot => slot.user?.personaId === saved.id)) return;
+
+    // Passwords aren't stored unless the storage is encrypted; ask again and keep it for this session
+    let persona = saved;
+    if (saved.provider === 'password' && !saved.password) {
+      const password = prompt(`Password for persona "${saved.label}" (${saved.email})`);
+      if (!password) return;
+      persona = { ...saved, password };
+      setPersonas(prev => prev.map(p => (p.id === saved.id ? { ...p, password } : p)));
+    }
+
+    const isFree = (slot: PlayerSlot) => !slot.user && !slot.isSigningIn;
+    let slot = slots.find(s => s.id === persona.preferredSlotId && isFree(s)) || slots.find(isFree);
+    if (!slot) {
+      if (slots.length >= MAX_SLOTS) {
+        alert(`All ${MAX_SLOTS} player slots are in use`);
+        return;
+      }
+      const newSlot = createSlot(createSlotDefinition(slots));
+      updateLayout(prev => [...prev, newSlot]);
+      slot = newSlot;
+    }
+    await signInSlot(slot, persona);
+  };
+
+  // Personas that don't need a popup are signed in straight away. Google personas are queued:
+  // a popup opened after an await is blocked, so each one gets its own click
+  const signInAllPersonas = async () => {
+    const signedInIds = slotsRef.current.map(slot => slot.user?.personaId);
+    const pending = personas.filter(persona => !signedInIds.includes(persona.id));
+    setQueuedPersonaIds(pending.filter(persona => persona.provider === 'google').map(persona => persona.id));
+    for (const persona of pending.filter(p => p.provider !== 'google')) {
+      await signInPersona(persona);
+    }
+  };
+
+  // Called straight from a click so the Google popup is allowed to open
+  const signInNextQueuedPersona = () => {
+    const signedInIds = slotsRef.current.map(slot => slot.user?.personaId);
+    const queue = queuedPersonaIds.filter(id => !signedInIds.includes(id));
+    const persona = personas.find(p => p.id === queue[0]);
+    setQueuedPersonaIds(queue.slice(1));
+    if (persona) {
+      signInPersona(persona);
+    }
+  };
+
+  // Sign in every empty slot that doesn't need a popup, one after another
+  const fillEmptySlots = async () => {
+    for (const slot of playerSlots) {
+      if (!slot.user && !slot.isSigningIn && canSignInUnattended({ ...slot.signIn, customToken: slot.customToken })) {
+        await signInPlayer(slot.id);
+      }
+    }
+  };
+
   const signOutPlayer = async (slotId: string) => {
     const slot = playerSlots.find(s => s.id === slotId);
     if (!slot || !slot.user || !slot.auth) return;
 
     try {
-      // Remove from localStorage first
+      // Remove from storage first
       AuthStorage.removeUser(slot.user.id);
       
       // Sign out from Firebase
@@ -251,8 +559,7 @@ export const MultiPlayerAuth: React.FC<MultiPlayerAuthProps> = ({
       updateSlotState(slotId, {
         playerId: newPlayerId,
         user: null,
-        auth: null,
-        isRefreshing: false
+        auth: null
       });
 
       console.log(`User ${slot.user.displayName} signed out and removed from storage`);
@@ -263,48 +570,58 @@ export const MultiPlayerAuth: React.FC<MultiPlayerAuthProps> = ({
     }
   };
 
-  const refreshPlayerToken = useCallback(async (slotId: string) => {
+  // Refresh one player's ID token and store it in the slot; used by the background scheduler
+  const refreshSlotToken = async (userId: string): Promise<string> => {
+    const slot = playerSlots.find(s => s.user?.id === userId);
+    if (!slot || !slot.user) {
+      throw new Error('Player is no longer signed in');
+    }
+
+    const { user } = slot.user;
+    const newToken = await user.getIdToken(true);
+    const refreshToken = user.refreshToken || slot.user.refreshToken;
+
+    setPlayerSlots(prev => prev.map(s =>
+      s.id === slot.id && s.user
+        ? { ...s, user: { ...s.user, accessToken: newToken, refreshToken, tokenExpiry: getTokenExpiry(newToken) } }
+        : s
+    ));
+    AuthStorage.updateUserToken(userId, newToken, refreshToken);
+
+    console.log(`Token refreshed successfully for ${slot.user.displayName}`);
+    return newToken;
+  };
+
+  const signedInUsers = useMemo(
+    () => playerSlots.filter(slot => slot.user !== null).map(slot => slot.user!),
+    [playerSlots]
+  );
+  const { getClaimStatus, isDrivenHere, claim, release, takeOver } = usePlayerClaims(signedInUsers.map(user => user.id));
+  // Players claimed by another tab or released by this one are shown here but not driven
+  // (refreshed, used for API calls) by this tab
+  const drivenUsers = useMemo(
+    () => signedInUsers.filter(user => isDrivenHere(user.id)),
+    [signedInUsers, isDrivenHere]
+  );
+  const { getRefreshState, refreshNow } = useTokenRefresh(drivenUsers, refreshSlotToken);
+
+  // Update parent component when users change
+  useEffect(() => {
+    console.log(`Updating parent with ${drivenUsers.length} authenticated users:`,
+      drivenUsers.map(u => u.displayName));
+    onUsersChange(drivenUsers);
+  }, [drivenUsers, onUsersChange]);
+
+  const refreshPlayerToken = async (slotId: string) => {
     const slot = playerSlots.find(s => s.id === slotId);
     if (!slot || !slot.user) return;
 
     try {
-      setIsRefreshing(slotId, true);
-      
-      // Try to use the auth context refresh function first
-      const success = await refreshUserToken(slot.user.id);
-      
-      if (success) {
-        // Get the updated token
-        const newToken = await slot.user.user.getIdToken(true);
-        
-        // Update the user with new token and expiry
-        const updatedUser: AuthenticatedUser = {
-          ...slot.user,
-          accessToken: newToken,
-          tokenExpiry: Date.now() + (60 * 60 * 1000), // Reset to 1 hour from now
-        };
-
-        updateSlotState(slotId, { user: updatedUser });
-        
-        console.log(`Token refreshed successfully for ${slot.user.displayName}`);
-      } else {
-        throw new Error('Token refresh failed');
-      }
-
+      await refreshNow(slot.user.id);
     } catch (error: any) {
       console.error('Token refresh error for slot', slotId, ':', error);
       alert(`Token refresh failed: ${error.message}`);
-    } finally {
-      setIsRefreshing(slotId, false);
     }
-  }, [playerSlots, refreshUserToken]);
-
-  const setIsRefreshing = (slotId: string, isRefreshing: boolean) => {
-    setPlayerSlots(prev => prev.map(slot => 
-      slot.id === slotId 
-        ? { ...slot, isRefreshing } 
-        : slot
-    ));
   };
 
   const isTokenExpiringSoon = (user: AuthenticatedUser): boolean => {
@@ -315,8 +632,8 @@ export const MultiPlayerAuth: React.FC<MultiPlayerAuthProps> = ({
 
   const signOutAllPlayers = async () => {
     try {
-      // Clear all from localStorage first
-      AuthStorage.clearAll();
+      // Clear all from storage first
+      AuthStorage.clearAll(environment);
       
       const signOutPromises = playerSlots
         .filter(slot => slot.user)
@@ -340,6 +657,10 @@ export const MultiPlayerAuth: React.FC<MultiPlayerAuthProps> = ({
   }
 
   const authenticatedCount = playerSlots.filter(slot => slot.user).length;
+  const emulatorUrl = getEnvironment(environment)?.authEmulatorUrl;
+  const unattendedCount = playerSlots.filter(slot =>
+    !slot.user && canSignInUnattended({ ...slot.signIn, customToken: slot.customToken })
+  ).length;
 
   return (
     <div className="space-y-6">
@@ -353,8 +674,24 @@ export const MultiPlayerAuth: React.FC<MultiPlayerAuthProps> = ({
         </div>
         <div className="flex items-center space-x-2">
           <span className="text-sm text-gray-600">
-            {authenticatedCount}/{maxPlayers} players signed in
+            {authenticatedCount}/{playerSlots.length} players signed in
           </span>
+          {playerSlots.length < MAX_SLOTS && (
+            <button onClick={addSlot} className="btn-secondary text-sm flex items-center space-x-1">
+              <Plus className="h-4 w-4" />
+              <span>Add Player</span>
+            </button>
+          )}
+          {unattendedCount > 0 && (
+            <button
+              onClick={fillEmptySlots}
+              className="btn-secondary text-sm flex items-center space-x-1"
+              title="Sign in every empty slot that uses email/password, anonymous or custom token sign-in"
+            >
+              <Zap className="h-4 w-4" />
+              <span>Fill {unattendedCount} Empty</span>
+            </button>
+          )}
           {authenticatedCount > 0 && (
             <button
               onClick={signOutAllPlayers}
@@ -366,113 +703,346 @@ export const MultiPlayerAuth: React.FC<MultiPlayerAuthProps> = ({
         </div>
       </div>
 
+      {emulatorUrl && (
+        <div className="flex items-center space-x-2 bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+          <FlaskConical className="h-4 w-4 flex-shrink-0" />
+          <span>
+            Players sign in against the Firebase Auth emulator at <strong>{emulatorUrl}</strong>.
+            Their tokens are unsigned and only work with backends that trust the emulator.
+          </span>
+        </div>
+      )}
+
+      {storage.isLocked ? (
+        <AuthStorageUnlock storage={storage} />
+      ) : (
+        <AuthStorageSettings key={storage.version} storage={storage} />
+      )}
+
+      {!storage.isLocked && (
+        <PersonaPanel
+          personas={personas}
+          slots={toLayout(playerSlots)}
+          signedInPersonaIds={signedInUsers.map(user => user.personaId).filter((id): id is string => Boolean(id))}
+          onChange={savePersonas}
+          queuedPersonaIds={queuedPersonaIds.filter(id => !signedInUsers.some(user => user.personaId === id))}
+          blockedPersonaIds={blockedPersonaIds}
+          keepsPasswords={storage.settings.encrypted}
+          onSignIn={signInPersona}
+          onSignInAll={signInAllPersonas}
+          onSignInNext={signInNextQueuedPersona}
+        />
+      )}
+
       {/* Player Slots */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {playerSlots.map((slot) => (
-          <div key={slot.id} className="user-card">
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="font-medium text-gray-900">
-                Player {slot.id.split('-')[1]}
-              </h3>
-              <span className="text-xs text-gray-500">
-                {slot.playerId.split('-')[1]}
-              </span>
-            </div>
-
-            {slot.user ? (
-              // Authenticated state
-              <div className="space-y-3">
-                <div className="flex items-center space-x-3">
-                  {slot.user.photoURL && (
-                    <img
-                      key={`photo-${slot.id}`}
-                      src={slot.user.photoURL}
-                      alt={slot.user.displayName || 'User'}
-                      className="w-10 h-10 rounded-full"
-                    />
+      {!storage.isLocked && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {playerSlots.map((slot, index) => {
+            const refreshState = slot.user ? getRefreshState(slot.user.id) : null;
+            const isRefreshing = Boolean(refreshState?.isRefreshing);
+            const claimStatus = slot.user ? getClaimStatus(slot.user.id) : null;
+            const drivenElsewhere = claimStatus === 'other';
+            return (
+              <div key={slot.id} className={`user-card border-l-4 ${SLOT_COLOR_STYLES[slot.color].border}`}>
+                <div className="flex items-center justify-between mb-4">
+                  {editingSlotId === slot.id ? (
+                    <div className="flex-1 mr-2 space-y-2">
+                      <input
+                        type="text"
+                        value={slot.label}
+                        onChange={e => updateSlotDefinition(slot.id, { label: e.target.value })}
+                        onKeyDown={e => e.key === 'Enter' && setEditingSlotId(null)}
+                        placeholder="Label, e.g. Host or Late joiner"
+                        autoFocus
+                        className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                      />
+                      <div className="flex items-center space-x-1">
+                        {SLOT_COLORS.map(color => (
+                          <button
+                            key={color}
+                            onClick={() => updateSlotDefinition(slot.id, { color })}
+                            title={color}
+                            className={`w-5 h-5 rounded-full ${SLOT_COLOR_STYLES[color].swatch} ${
+                              slot.color === color ? 'ring-2 ring-offset-1 ring-gray-600' : ''
+                            }`}
+                          />
+                        ))}
+                        <button onClick={() => setEditingSlotId(null)} className="pl-2 text-xs text-blue-600 underline">
+                          Done
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <h3 className="flex items-center space-x-2 font-medium text-gray-900 min-w-0">
+                      <span className={`w-3 h-3 rounded-full flex-shrink-0 ${SLOT_COLOR_STYLES[slot.color].swatch}`} />
+                      <span className="truncate">{slot.label || 'Unnamed player'}</span>
+                    </h3>
                   )}
-                  <div className="flex-1 min-w-0">
-                    <p className="font-medium text-gray-900 truncate">
-                      {slot.user.displayName || 'Unknown User'}
-                    </p>
-                    <p className="text-sm text-gray-500 truncate">
-                      {slot.user.email}
-                    </p>
+                  <div className="flex items-center space-x-2">
+                    {emulatorUrl && (
+                      <span className="flex items-center space-x-1 px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs font-medium">
+                        <FlaskConical className="h-3 w-3" />
+                        <span>Emulator</span>
+                      </span>
+                    )}
+                    <span className="text-xs text-gray-500">
+                      {slot.playerId.split('-')[1]}
+                    </span>
+                    <div className="flex items-center text-gray-400">
+                      <button onClick={() => setEditingSlotId(slot.id)} title="Rename or recolour" className="p-0.5 hover:text-gray-700">
+                        <Pencil className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        onClick={() => moveSlot(slot.id, -1)}
+                        disabled={index === 0}
+                        title="Move earlier"
+                        className="p-0.5 hover:text-gray-700 disabled:opacity-30"
+                      >
+                        <ChevronLeft className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => moveSlot(slot.id, 1)}
+                        disabled={index === playerSlots.length - 1}
+                        title="Move later"
+                        className="p-0.5 hover:text-gray-700 disabled:opacity-30"
+                      >
+                        <ChevronRight className="h-4 w-4" />
+                      </button>
+                      {!slot.user && !slot.isSigningIn && playerSlots.length > 1 && (
+                        <button onClick={() => removeSlot(slot.id)} title="Remove slot" className="p-0.5 hover:text-red-600">
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      )}
+                    </div>
                   </div>
                 </div>
 
-                <div className="text-xs text-gray-400 space-y-1">
-                  <div>Token: {slot.user.accessToken.substring(0, 20)}...</div>
-                  {slot.user.tokenExpiry && (
-                    <div key={`expiry-${slot.id}`} className={`flex items-center space-x-1 ${
-                      isTokenExpiringSoon(slot.user) ? 'text-orange-600' : 'text-gray-500'
+                {slot.user ? (
+                  // Authenticated state
+                  <div className="space-y-3">
+                    <div className="flex items-center space-x-3">
+                      {slot.user.photoURL && (
+                        <img
+                          key={`photo-${slot.id}`}
+                          src={slot.user.photoURL}
+                          alt={slot.user.displayName || 'User'}
+                          className="w-10 h-10 rounded-full"
+                        />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-gray-900 truncate">
+                          {slot.user.displayName || 'Unknown User'}
+                        </p>
+                        <p className="text-sm text-gray-500 truncate">
+                          {slot.user.email || (slot.user.provider && SIGN_IN_PROVIDER_LABELS[slot.user.provider])}
+                        </p>
+                        {slot.user.personaId && (
+                          <p className="text-xs text-primary-600 truncate">
+                            Persona: {personas.find(p => p.id === slot.user!.personaId)?.label || 'deleted'}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className={`flex items-center justify-between text-xs rounded px-2 py-1 ${
+                      drivenElsewhere ? 'bg-amber-50 text-amber-800' : 'bg-gray-50 text-gray-600'
                     }`}>
-                      {isTokenExpiringSoon(slot.user) && <AlertTriangle key={`warning-${slot.id}`} className="h-3 w-3" />}
-                      <span>
-                        Expires: {new Date(slot.user.tokenExpiry).toLocaleTimeString()}
+                      <span className="flex items-center space-x-1">
+                        <MonitorSmartphone className="h-3 w-3" />
+                        <span>
+                          {claimStatus === 'mine' && 'Driven by this tab'}
+                          {claimStatus === 'other' && 'Driven by another tab'}
+                          {claimStatus === 'unclaimed' && 'Not claimed by any tab'}
+                        </span>
                       </span>
+                      {claimStatus === 'mine' && (
+                        <button onClick={() => release(slot.user!.id)} className="underline">Release</button>
+                      )}
+                      {claimStatus === 'unclaimed' && (
+                        <button onClick={() => claim(slot.user!.id)} className="underline">Claim</button>
+                      )}
+                      {claimStatus === 'other' && (
+                        <button
+                          onClick={() => confirm('Drive this player from this tab instead?') && takeOver(slot.user!.id)}
+                          className="underline"
+                        >
+                          Take over
+                        </button>
+                      )}
                     </div>
-                  )}
-                </div>
 
-                <div className="flex space-x-2">
-                  <button
-                    onClick={() => refreshPlayerToken(slot.id)}
-                    disabled={slot.isRefreshing}
-                    className={`flex-1 flex items-center justify-center space-x-1 py-2 px-3 rounded text-sm transition-colors ${
-                      isTokenExpiringSoon(slot.user)
-                        ? 'bg-orange-50 text-orange-600 hover:bg-orange-100'
-                        : 'bg-blue-50 text-blue-600 hover:bg-blue-100'
-                    } ${slot.isRefreshing ? 'opacity-50 cursor-not-allowed' : ''}`}
-                  >
-                    <RefreshCw className={`h-4 w-4 ${slot.isRefreshing ? 'animate-spin' : ''}`} />
-                    <span>{slot.isRefreshing ? 'Refreshing...' : 'Refresh Token'}</span>
-                  </button>
-                  <button
-                    onClick={() => signOutPlayer(slot.id)}
-                    disabled={slot.isRefreshing}
-                    className={`flex-1 flex items-center justify-center space-x-1 bg-red-50 text-red-600 py-2 px-3 rounded text-sm hover:bg-red-100 ${
-                      slot.isRefreshing ? 'opacity-50 cursor-not-allowed' : ''
-                    }`}
-                  >
-                    <LogOut className="h-4 w-4" />
-                    <span>Sign Out</span>
-                  </button>
-                </div>
-              </div>
-            ) : (
-              // Unauthenticated state
-              <div className="text-center py-8">
-                {slot.isSigningIn ? (
-                  <div className="flex flex-col items-center space-y-2">
-                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-500"></div>
-                    <span className="text-sm text-gray-600">Signing in...</span>
+                    <div className="text-xs text-gray-400 space-y-1">
+                      <div>Token: {slot.user.accessToken.substring(0, 20)}...</div>
+                      {refreshState?.nextRefreshAt && (
+                        <div>
+                          Next refresh: {new Date(refreshState.nextRefreshAt).toLocaleTimeString()}
+                          {refreshState.consecutiveFailures > 0 && (
+                            <span className="text-red-600"> (retry after {refreshState.consecutiveFailures} failed)</span>
+                          )}
+                        </div>
+                      )}
+                      {slot.user.tokenExpiry && (
+                        <div key={`expiry-${slot.id}`} className={`flex items-center space-x-1 ${
+                          isTokenExpiringSoon(slot.user) ? 'text-orange-600' : 'text-gray-500'
+                        }`}>
+                          {isTokenExpiringSoon(slot.user) && <AlertTriangle key={`warning-${slot.id}`} className="h-3 w-3" />}
+                          <span>
+                            Expires: {new Date(slot.user.tokenExpiry).toLocaleTimeString()}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => refreshPlayerToken(slot.id)}
+                        disabled={isRefreshing || drivenElsewhere}
+                        className={`flex-1 flex items-center justify-center space-x-1 py-2 px-3 rounded text-sm transition-colors ${
+                          isTokenExpiringSoon(slot.user)
+                            ? 'bg-orange-50 text-orange-600 hover:bg-orange-100'
+                            : 'bg-blue-50 text-blue-600 hover:bg-blue-100'
+                        } ${isRefreshing || drivenElsewhere ? 'opacity-50 cursor-not-allowed' : ''}`}
+                      >
+                        <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+                        <span>{isRefreshing ? 'Refreshing...' : 'Refresh Token'}</span>
+                      </button>
+                      <button
+                        onClick={() => signOutPlayer(slot.id)}
+                        disabled={isRefreshing}
+                        className={`flex-1 flex items-center justify-center space-x-1 bg-red-50 text-red-600 py-2 px-3 rounded text-sm hover:bg-red-100 ${
+                          isRefreshing ? 'opacity-50 cursor-not-allowed' : ''
+                        }`}
+                      >
+                        <LogOut className="h-4 w-4" />
+                        <span>Sign Out</span>
+                      </button>
+                    </div>
+
+                    <details className="text-xs text-gray-500">
+                      <summary className="cursor-pointer">Inspect token</summary>
+                      <div className="mt-2">
+                        <TokenInspector token={slot.user.accessToken} environment={slot.user.environment} />
+                      </div>
+                    </details>
+
+                    {refreshState && refreshState.history.length > 0 && (
+                      <details className="text-xs text-gray-500">
+                        <summary className="cursor-pointer">
+                          Refresh history ({refreshState.history.length})
+                        </summary>
+                        <ul className="mt-1 space-y-0.5">
+                          {refreshState.history.map(attempt => (
+                            <li
+                              key={`${attempt.time}-${attempt.trigger}`}
+                              className={attempt.success ? 'text-green-700' : 'text-red-600'}
+                            >
+                              {new Date(attempt.time).toLocaleTimeString()} · {attempt.trigger} ·{' '}
+                              {attempt.success
+                                ? `ok, expires ${attempt.expiresAt ? new Date(attempt.expiresAt).toLocaleTimeString() : 'unknown'}`
+                                : attempt.error}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
                   </div>
                 ) : (
-                  <button
-                    onClick={() => signInPlayer(slot.id)}
-                    className="flex items-center justify-center space-x-2 w-full btn-primary"
-                  >
-                    <UserPlus className="h-4 w-4" />
-                    <span>Sign In with Google</span>
-                  </button>
+                  // Unauthenticated state
+                  <div className="py-4">
+                    {slot.isSigningIn ? (
+                      <div className="flex flex-col items-center space-y-2 py-4">
+                        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-500"></div>
+                        <span className="text-sm text-gray-600">Signing in...</span>
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        <select
+                          value={slot.signIn.provider}
+                          onChange={e => updateSlotSignIn(slot.id, { provider: e.target.value as SignInProvider })}
+                          className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                        >
+                          {SIGN_IN_PROVIDERS.map(provider => (
+                            <option key={provider} value={provider}>{SIGN_IN_PROVIDER_LABELS[provider]}</option>
+                          ))}
+                        </select>
+
+                        {slot.signIn.provider === 'password' && (
+                          <>
+                            <input
+                              type="email"
+                              value={slot.signIn.email || ''}
+                              onChange={e => updateSlotSignIn(slot.id, { email: e.target.value })}
+                              placeholder="Email"
+                              className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                            />
+                            <div className="flex space-x-2">
+                              <input
+                                type="password"
+                                value={slot.signIn.password || ''}
+                                onChange={e => updateSlotSignIn(slot.id, { password: e.target.value })}
+                                placeholder="Password"
+                                className="flex-1 min-w-0 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                              />
+                              <button
+                                onClick={() => fillWithTestAccount(slot.id)}
+                                className="flex items-center space-x-1 px-3 py-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 text-sm"
+                                title="Generate a throwaway test account (created on first sign-in)"
+                              >
+                                <Shuffle className="h-4 w-4" />
+                              </button>
+                            </div>
+                            {!storage.settings.encrypted && (
+                              <p className="text-xs text-gray-500">
+                                Only the email is saved; encrypt the token storage to remember the password too
+                              </p>
+                            )}
+                          </>
+                        )}
+
+                        {slot.signIn.provider === 'customToken' && (
+                          <textarea
+                            value={slot.customToken}
+                            onChange={e => updateSlotState(slot.id, { customToken: e.target.value })}
+                            placeholder="Paste a Firebase custom token"
+                            rows={2}
+                            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-xs font-mono"
+                          />
+                        )}
+
+                        <button
+                          onClick={() => signInPlayer(slot.id)}
+                          className="flex items-center justify-center space-x-2 w-full btn-primary"
+                        >
+                          <UserPlus className="h-4 w-4" />
+                          <span>
+                            {slot.signIn.provider === 'google' ? 'Sign In with Google' : `Sign In (${SIGN_IN_PROVIDER_LABELS[slot.signIn.provider]})`}
+                          </span>
+                        </button>
+                      </div>
+                    )}
+                  </div>
                 )}
               </div>
-            )}
-          </div>
-        ))}
-      </div>
+            );
+          })}
+        </div>
+      )}
 
       {/* Instructions */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <h4 className="font-medium text-blue-900 mb-2">Testing Instructions:</h4>
         <ul className="text-sm text-blue-800 space-y-1">
           <li>• Each player slot creates an independent Firebase authentication session</li>
-          <li>• Use different Google accounts for each player to simulate real multi-player scenarios</li>
-          <li>• <strong>Persistent Storage:</strong> Users are automatically saved to localStorage and restored on page reload</li>
-          <li>• <strong>Token Management:</strong> Tokens are automatically refreshed when they expire (shown with warning icon)</li>
-          <li>• Switch between Test and Production environments to test both configurations</li>
-          <li>• Sign out to remove users from both memory and localStorage</li>
+          <li>• Use different accounts for each player to simulate real multi-player scenarios</li>
+          <li>• <strong>Sign-in Providers:</strong> Each slot remembers its provider: Google, email/password (use the shuffle button for a throwaway account; other unknown emails only get an account created outside production), anonymous or a Firebase custom token</li>
+          <li>• <strong>Persistent Storage:</strong> Users are saved to the chosen token storage (localStorage, sessionStorage, IndexedDB or memory, optionally encrypted with a passphrase) and restored on page reload</li>
+          <li>• <strong>Token Management:</strong> Tokens refresh in the background a few minutes before their real expiry, with retries on failure (see each slot&apos;s refresh history)</li>
+          <li>• <strong>Token Inspector:</strong> Expand &quot;Inspect token&quot; to see the decoded claims, audience mismatches and copy the token as a curl header</li>
+          <li>• <strong>Multiple Tabs:</strong> Sign-ins, sign-outs, token refreshes and environment switches sync across open tabs. Each player is driven (refreshed and used for API calls) by one tab at a time; release or take over a player from its slot</li>
+          <li>• <strong>Player Slots:</strong> Add up to {MAX_SLOTS} slots, give each a label and colour, reorder them and remove empty ones; the layout is saved per environment</li>
+          <li>• <strong>Personas:</strong> Save the accounts you keep using (label, provider, email hint, preferred slot and request headers) and sign them all in at once; Google personas then follow one click each and pre-select their account in the popup</li>
+          <li>• Switch between the configured environments (Test, Production, Mock or your own) to test each configuration</li>
+          <li>• Sign out to remove users from both memory and storage</li>
         </ul>
       </div>
     </div>
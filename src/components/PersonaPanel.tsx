@@ -0,0 +1,230 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Persona, SignInProvider } from '@/types/auth';
+import { SlotDefinition } from '@/lib/slot-layout';
+import { SIGN_IN_PROVIDER_LABELS, generateTestAccount } from '@/lib/sign-in';
+import { PERSONA_PROVIDERS, createPersona, formatHeaderProfile, parseHeaderProfile } from '@/lib/personas';
+import { BookUser, LogIn, Pencil, Plus, Shuffle, Trash2, Zap } from 'lucide-react';
+
+interface PersonaPanelProps {
+  personas: Persona[];
+  slots: SlotDefinition[];
+  signedInPersonaIds: string[];
+  queuedPersonaIds: string[]; // Google personas waiting for a click of their own
+  blockedPersonaIds: string[]; // whose popup the browser blocked
+  keepsPasswords: boolean; // whether passwords are saved (only with encrypted storage)
+  onChange: (personas: Persona[]) => void;
+  onSignIn: (persona: Persona) => void;
+  onSignInAll: () => void;
+  onSignInNext: () => void;
+}
+
+interface PersonaDraft extends Persona {
+  headerText: string;
+}
+
+const toDraft = (persona: Persona): PersonaDraft => ({
+  ...persona,
+  headerText: formatHeaderProfile(persona.requestHeaders)
+});
+
+export const PersonaPanel: React.FC<PersonaPanelProps> = ({
+  personas,
+  slots,
+  signedInPersonaIds,
+  queuedPersonaIds,
+  blockedPersonaIds,
+  keepsPasswords,
+  onChange,
+  onSignIn,
+  onSignInAll,
+  onSignInNext
+}) => {
+  const [draft, setDraft] = useState<PersonaDraft | null>(null);
+
+  const pendingCount = personas.filter(persona => !signedInPersonaIds.includes(persona.id)).length;
+  const nextQueued = personas.find(persona => persona.id === queuedPersonaIds[0]);
+
+  const saveDraft = () => {
+    if (!draft) return;
+    if (!draft.label.trim()) {
+      alert('Give the persona a label');
+      return;
+    }
+    if (draft.provider === 'password' && (!draft.email || (keepsPasswords && !draft.password))) {
+      alert('Email/password personas need both an email and a password');
+      return;
+    }
+
+    const { headerText, ...persona } = draft;
+    const saved: Persona = {
+      ...persona,
+      label: persona.label.trim(),
+      email: persona.provider === 'anonymous' ? undefined : persona.email?.trim() || undefined,
+      password: persona.provider === 'password' ? persona.password : undefined,
+      requestHeaders: parseHeaderProfile(headerText)
+    };
+
+    const exists = personas.some(p => p.id === saved.id);
+    onChange(exists ? personas.map(p => (p.id === saved.id ? saved : p)) : [...personas, saved]);
+    setDraft(null);
+  };
+
+  const deletePersona = (persona: Persona) => {
+    if (!confirm(`Delete persona "${persona.label}"?`)) return;
+    onChange(personas.filter(p => p.id !== persona.id));
+  };
+
+  const getSlotLabel = (slotId?: string) => {
+    return slots.find(slot => slot.id === slotId)?.label || 'any free slot';
+  };
+
+  return (
+    <details className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm">
+      <summary className="cursor-pointer flex items-center space-x-2 text-gray-700">
+        <BookUser className="h-4 w-4" />
+        <span>Personas ({personas.length})</span>
+      </summary>
+
+      <div className="mt-3 space-y-2">
+        {personas.length === 0 && !draft && (
+          <p className="text-gray-500">
+            Save the test accounts you keep signing in as personas, then sign them all in with one click.
+          </p>
+        )}
+
+        {personas.map(persona => {
+          const isSignedIn = signedInPersonaIds.includes(persona.id);
+          return (
+            <div key={persona.id} className="flex items-center justify-between bg-white border border-gray-200 rounded px-2 py-1.5">
+              <div className="min-w-0">
+                <div className="font-medium text-gray-900 truncate">{persona.label}</div>
+                {blockedPersonaIds.includes(persona.id) && !isSignedIn && (
+                  <div className="text-xs text-red-600">Popup blocked by the browser; click Sign in to retry</div>
+                )}
+                <div className="text-xs text-gray-500 truncate">
+                  {SIGN_IN_PROVIDER_LABELS[persona.provider]}
+                  {persona.email && ` · ${persona.email}`}
+                  {` · ${getSlotLabel(persona.preferredSlotId)}`}
+                  {Object.keys(persona.requestHeaders).length > 0 && ` · ${Object.keys(persona.requestHeaders).length} headers`}
+                </div>
+              </div>
+              <div className="flex items-center space-x-1 flex-shrink-0">
+                {isSignedIn ? (
+                  <span className="text-xs text-green-700 px-2">Signed in</span>
+                ) : (
+                  <button
+                    onClick={() => onSignIn(persona)}
+                    className="flex items-center space-x-1 text-xs bg-primary-500 text-white rounded px-2 py-1 hover:bg-primary-600"
+                  >
+                    <LogIn className="h-3 w-3" />
+                    <span>Sign in</span>
+                  </button>
+                )}
+                <button onClick={() => setDraft(toDraft(persona))} title="Edit" className="p-1 text-gray-400 hover:text-gray-700">
+                  <Pencil className="h-3.5 w-3.5" />
+                </button>
+                <button onClick={() => deletePersona(persona)} title="Delete" className="p-1 text-gray-400 hover:text-red-600">
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+
+        {draft && (
+          <div className="bg-white border border-gray-200 rounded p-2 space-y-2">
+            <input
+              type="text"
+              value={draft.label}
+              onChange={e => setDraft({ ...draft, label: e.target.value })}
+              placeholder="Label, e.g. Host"
+              className="w-full border border-gray-300 rounded px-2 py-1"
+            />
+            <select
+              value={draft.provider}
+              onChange={e => setDraft({ ...draft, provider: e.target.value as SignInProvider })}
+              className="w-full border border-gray-300 rounded px-2 py-1"
+            >
+              {PERSONA_PROVIDERS.map(provider => (
+                <option key={provider} value={provider}>{SIGN_IN_PROVIDER_LABELS[provider]}</option>
+              ))}
+            </select>
+            {draft.provider !== 'anonymous' && (
+              <input
+                type="email"
+                value={draft.email || ''}
+                onChange={e => setDraft({ ...draft, email: e.target.value })}
+                placeholder={draft.provider === 'google' ? 'Email hint (pre-selects the Google account)' : 'Email'}
+                className="w-full border border-gray-300 rounded px-2 py-1"
+              />
+            )}
+            {draft.provider === 'password' && (
+              <div className="flex space-x-1">
+                <input
+                  type="text"
+                  value={draft.password || ''}
+                  onChange={e => setDraft({ ...draft, password: e.target.value })}
+                  placeholder={keepsPasswords ? 'Password' : 'Password (asked for again after a reload)'}
+                  className="flex-1 border border-gray-300 rounded px-2 py-1"
+                />
+                <button
+                  onClick={() => setDraft({ ...draft, ...generateTestAccount() })}
+                  title="Generate a throwaway test account"
+                  className="px-2 border border-gray-300 rounded text-gray-600 hover:bg-gray-100"
+                >
+                  <Shuffle className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+            <select
+              value={draft.preferredSlotId || ''}
+              onChange={e => setDraft({ ...draft, preferredSlotId: e.target.value || undefined })}
+              className="w-full border border-gray-300 rounded px-2 py-1"
+            >
+              <option value="">Any free slot</option>
+              {slots.map(slot => (
+                <option key={slot.id} value={slot.id}>{slot.label}</option>
+              ))}
+            </select>
+            <textarea
+              value={draft.headerText}
+              onChange={e => setDraft({ ...draft, headerText: e.target.value })}
+              placeholder={'Request headers, one per line\nUser-Agent: TambolaAndroid/2.3.0'}
+              rows={3}
+              className="w-full border border-gray-300 rounded px-2 py-1 font-mono text-xs"
+            />
+            <div className="flex space-x-2">
+              <button onClick={saveDraft} className="btn-primary text-sm">Save persona</button>
+              <button onClick={() => setDraft(null)} className="btn-secondary text-sm">Cancel</button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex space-x-2">
+          {!draft && (
+            <button
+              onClick={() => setDraft(toDraft(createPersona()))}
+              className="btn-secondary text-sm flex items-center space-x-1"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add persona</span>
+            </button>
+          )}
+          {nextQueued ? (
+            <button onClick={onSignInNext} className="btn-primary text-sm flex items-center space-x-1">
+              <LogIn className="h-4 w-4" />
+              <span>Sign in {nextQueued.label} with Google ({queuedPersonaIds.length} left)</span>
+            </button>
+          ) : pendingCount > 0 && (
+            <button onClick={onSignInAll} className="btn-primary text-sm flex items-center space-x-1">
+              <Zap className="h-4 w-4" />
+              <span>Sign in all personas ({pendingCount})</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,179 @@
+'use client';
+
+import React, { useState, useRef } from 'react';
+import { EXAMPLE_SCENARIO, ScenarioStepStatus, parseScenario } from '@/lib/scenario';
+import { useAuth } from '@/contexts/AuthContext';
+import { useScenarioRunner } from '@/hooks/useScenarioRunner';
+import {
+  ListChecks,
+  Play,
+  Square,
+  Upload,
+  Download,
+  CheckCircle,
+  XCircle,
+  Clock,
+  Loader2,
+  MinusCircle
+} from 'lucide-react';
+
+const STEP_STATUS_ICONS: Record<ScenarioStepStatus, React.ReactNode> = {
+  pending: <Clock className="h-4 w-4 text-gray-400" />,
+  running: <Loader2 className="h-4 w-4 text-blue-600 animate-spin" />,
+  passed: <CheckCircle className="h-4 w-4 text-green-600" />,
+  failed: <XCircle className="h-4 w-4 text-red-600" />,
+  skipped: <MinusCircle className="h-4 w-4 text-gray-400" />
+};
+
+const RUN_STATUS_COLORS = {
+  running: 'text-blue-600 bg-blue-100',
+  passed: 'text-green-600 bg-green-100',
+  failed: 'text-red-600 bg-red-100',
+  aborted: 'text-gray-600 bg-gray-100'
+};
+
+const downloadJson = (data: unknown, fileName: string) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const ScenarioRunner: React.FC = () => {
+  const { authenticatedUsers } = useAuth();
+  const { run, isRunning, start, abort } = useScenarioRunner();
+  const [scenarioText, setScenarioText] = useState(() => JSON.stringify(EXAMPLE_SCENARIO, null, 2));
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleRun = async () => {
+    try {
+      await start(parseScenario(scenarioText));
+    } catch (err) {
+      alert(`Cannot run scenario: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setScenarioText(await file.text());
+    } catch (err) {
+      alert(`Failed to read scenario: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  if (authenticatedUsers.length === 0 && !run) {
+    return null;
+  }
+
+  const passedCount = run ? run.steps.filter(step => step.status === 'passed').length : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <ListChecks className="h-5 w-5 text-gray-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Scenarios</h3>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isRunning}
+            className="flex items-center space-x-1 px-3 py-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 text-sm disabled:opacity-50"
+          >
+            <Upload className="h-4 w-4" />
+            <span>Open</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+          {isRunning ? (
+            <button onClick={abort} className="btn-secondary text-sm flex items-center space-x-1">
+              <Square className="h-4 w-4" />
+              <span>Abort</span>
+            </button>
+          ) : (
+            <button onClick={handleRun} className="btn-primary text-sm flex items-center space-x-1">
+              <Play className="h-4 w-4" />
+              <span>Run</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <textarea
+          value={scenarioText}
+          onChange={e => setScenarioText(e.target.value)}
+          disabled={isRunning}
+          rows={12}
+          spellCheck={false}
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 text-xs font-mono disabled:bg-gray-50"
+        />
+
+        {run && (
+          <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <h5 className="font-medium text-gray-900">{run.scenarioName}</h5>
+                <p className="text-xs text-gray-500">
+                  {passedCount}/{run.steps.length} steps passed
+                  {run.finishedAt && ` in ${((run.finishedAt - run.startedAt) / 1000).toFixed(1)}s`}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <span className={`px-2 py-1 rounded text-xs font-medium ${RUN_STATUS_COLORS[run.status]}`}>
+                  {run.status.toUpperCase()}
+                </span>
+                {!isRunning && (
+                  <button
+                    onClick={() => downloadJson(run, `scenario-report-${new Date(run.startedAt).toISOString().replace(/[:.]/g, '-')}.json`)}
+                    title="Download report"
+                    className="p-1 text-gray-500 hover:text-gray-800"
+                  >
+                    <Download className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              {run.steps.map(step => (
+                <div key={step.index} className="flex items-start space-x-2 text-sm">
+                  <span className="mt-0.5 flex-shrink-0">{STEP_STATUS_ICONS[step.status]}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-900 truncate">{step.name}</span>
+                      <span className="text-xs text-gray-500 flex-shrink-0 ml-2">
+                        {step.attempts > 1 && `${step.attempts} attempts · `}
+                        {step.durationMs !== undefined && `${step.durationMs} ms`}
+                      </span>
+                    </div>
+                    {step.players.length > 0 && (
+                      <p className="text-xs text-gray-500 truncate">{step.players.join(', ')}</p>
+                    )}
+                    {step.message && (
+                      <p className={`text-xs whitespace-pre-wrap break-all ${step.status === 'failed' ? 'text-red-700' : 'text-gray-600'}`}>
+                        {step.message}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
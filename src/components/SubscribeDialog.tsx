@@ -0,0 +1,134 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Tournament } from '@/lib/api-config';
+import { useAuth } from '@/contexts/AuthContext';
+import { SubscriptionResult } from '@/types/auth';
+import { X, Play, CheckCircle, XCircle, Users } from 'lucide-react';
+
+interface SubscribeDialogProps {
+  tournament: Tournament;
+  isSubscribed: (tournamentId: string, userId: string) => boolean;
+  onSubscribe: (tournamentId: string, userIds: string[]) => Promise<SubscriptionResult[]>;
+  onClose: () => void;
+}
+
+export const SubscribeDialog: React.FC<SubscribeDialogProps> = ({
+  tournament,
+  isSubscribed,
+  onSubscribe,
+  onClose
+}) => {
+  const { authenticatedUsers } = useAuth();
+  const [selectedUserIds, setSelectedUserIds] = useState<string[]>(
+    () => authenticatedUsers
+      .filter(u => !isSubscribed(tournament.id, u.id))
+      .map(u => u.id)
+  );
+  const [results, setResults] = useState<SubscriptionResult[]>([]);
+  const [isSubscribing, setIsSubscribing] = useState(false);
+
+  const toggleUser = (userId: string) => {
+    setSelectedUserIds(prev => prev.includes(userId)
+      ? prev.filter(id => id !== userId)
+      : [...prev, userId]
+    );
+  };
+
+  const handleSubscribe = async () => {
+    if (selectedUserIds.length === 0) return;
+
+    setIsSubscribing(true);
+    try {
+      setResults(await onSubscribe(tournament.id, selectedUserIds));
+    } finally {
+      setIsSubscribing(false);
+    }
+  };
+
+  const getResult = (userId: string) => results.find(r => r.userId === userId);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+        <div className="flex items-start justify-between p-4 border-b border-gray-200">
+          <div>
+            <h4 className="font-semibold text-gray-900">Subscribe Players</h4>
+            <p className="text-sm text-gray-600">{tournament.name} (ID: {tournament.id})</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-2 max-h-80 overflow-y-auto">
+          {authenticatedUsers.length === 0 ? (
+            <div className="text-center py-6 text-gray-600 text-sm">
+              <Users className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+              No players signed in
+            </div>
+          ) : (
+            authenticatedUsers.map(user => {
+              const result = getResult(user.id);
+              const alreadySubscribed = isSubscribed(tournament.id, user.id);
+              return (
+                <div key={user.id} className="border border-gray-200 rounded-lg p-3">
+                  <label className="flex items-center space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selectedUserIds.includes(user.id)}
+                      onChange={() => toggleUser(user.id)}
+                      disabled={isSubscribing}
+                      className="h-4 w-4"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900 truncate">
+                        {user.displayName || 'Unknown User'}
+                      </p>
+                      <p className="text-xs text-gray-500 truncate">{user.email}</p>
+                    </div>
+                    {alreadySubscribed && !result && (
+                      <span className="px-2 py-1 rounded-full text-xs font-medium text-green-600 bg-green-100">
+                        Subscribed
+                      </span>
+                    )}
+                  </label>
+
+                  {result && (
+                    <div className={`flex items-start space-x-1 mt-2 text-xs ${
+                      result.success ? 'text-green-700' : 'text-red-700'
+                    }`}>
+                      {result.success
+                        ? <CheckCircle className="h-4 w-4 flex-shrink-0" />
+                        : <XCircle className="h-4 w-4 flex-shrink-0" />
+                      }
+                      <span>{result.success ? 'Subscribed successfully' : result.error}</span>
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div className="flex space-x-2 p-4 border-t border-gray-200">
+          <button onClick={onClose} className="btn-secondary text-sm flex-1">
+            {results.length > 0 ? 'Done' : 'Cancel'}
+          </button>
+          <button
+            onClick={handleSubscribe}
+            disabled={isSubscribing || selectedUserIds.length === 0}
+            className={`btn-primary text-sm flex-1 flex items-center justify-center space-x-1 ${
+              isSubscribing || selectedUserIds.length === 0 ? 'opacity-50 cursor-not-allowed' : ''
+            }`}
+          >
+            <Play className="h-4 w-4" />
+            <span>
+              {isSubscribing ? 'Subscribing...' : `Subscribe ${selectedUserIds.length} Player${selectedUserIds.length === 1 ? '' : 's'}`}
+            </span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
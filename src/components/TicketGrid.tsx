@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+
+interface TicketGridProps {
+  numbers: number[][];
+  daubed: Set<number>;
+  called: Set<number>;
+  lastCall: number | null;
+  onCellClick?: (value: number) => void;
+}
+
+export const TicketGrid: React.FC<TicketGridProps> = ({
+  numbers,
+  daubed,
+  called,
+  lastCall,
+  onCellClick
+}) => {
+  const getCellClass = (value: number): string => {
+    if (value === 0) return 'bg-gray-100';
+    if (daubed.has(value)) {
+      // A daub on a number that hasn't been called is a mistake worth seeing
+      return called.has(value) ? 'bg-green-500 text-white' : 'bg-red-500 text-white';
+    }
+    if (value === lastCall) return 'bg-yellow-100 text-gray-900 ring-2 ring-yellow-400';
+    return 'bg-white text-gray-900';
+  };
+
+  return (
+    <div className="grid grid-cols-9 gap-px bg-gray-300 border border-gray-300 rounded overflow-hidden">
+      {numbers.flatMap((row, rowIndex) =>
+        row.map((value, columnIndex) => (
+          <button
+            key={`${rowIndex}-${columnIndex}`}
+            onClick={() => value !== 0 && onCellClick?.(value)}
+            disabled={value === 0 || !onCellClick}
+            className={`h-8 text-xs font-medium transition-colors ${getCellClass(value)}`}
+          >
+            {value !== 0 ? value : ''}
+          </button>
+        ))
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { Environment, getEnvironmentLabel } from '@/lib/environments';
+import { getFirebaseConfig } from '@/lib/firebase-config';
+import { decodeJwt } from '@/lib/jwt';
+import { toCurlHeader } from '@/lib/api-config';
+import { AlertTriangle, Copy, Check } from 'lucide-react';
+
+interface TokenInspectorProps {
+  token: string;
+  environment: Environment;
+}
+
+const TIME_CLAIMS = ['auth_time', 'iat', 'exp'] as const;
+
+// Claims Firebase puts in every ID token; anything else was set with setCustomUserClaims
+const FIREBASE_CLAIMS = new Set([
+  'iss', 'aud', 'sub', 'auth_time', 'iat', 'exp', 'user_id', 'email', 'email_verified',
+  'name', 'picture', 'phone_number', 'firebase'
+]);
+
+const formatRelative = (time: number): string => {
+  const minutes = Math.round((time - Date.now()) / 60000);
+  if (minutes === 0) return 'now';
+  const amount = Math.abs(minutes) < 120 ? `${Math.abs(minutes)} min` : `${Math.round(Math.abs(minutes) / 60)} h`;
+  return minutes > 0 ? `in ${amount}` : `${amount} ago`;
+};
+
+const formatClaimTime = (value: unknown): string => {
+  if (typeof value !== 'number') return 'missing';
+  const time = value * 1000;
+  return `${new Date(time).toLocaleString()} (${formatRelative(time)})`;
+};
+
+const formatClaimValue = (value: unknown): string => {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+export const TokenInspector: React.FC<TokenInspectorProps> = ({ token, environment }) => {
+  const [copied, setCopied] = useState(false);
+  const decoded = useMemo(() => decodeJwt(token), [token]);
+
+  if (!decoded) {
+    return <div className="text-xs text-red-600">Token is not a decodable JWT</div>;
+  }
+
+  const { header, payload } = decoded;
+  const { projectId } = getFirebaseConfig(environment);
+  const expectedIssuer = `https://securetoken.google.com/${projectId}`;
+  const warnings: string[] = [];
+  if (payload.aud !== projectId) {
+    warnings.push(`Audience "${payload.aud ?? 'missing'}" does not match the ${getEnvironmentLabel(environment)} Firebase project "${projectId}"`);
+  }
+  if (payload.iss !== expectedIssuer) {
+    warnings.push(`Issuer "${payload.iss ?? 'missing'}" is not ${expectedIssuer}`);
+  }
+
+  const customClaims = Object.entries(payload).filter(([claim]) => !FIREBASE_CLAIMS.has(claim));
+  const signInProvider = (payload.firebase as { sign_in_provider?: string } | undefined)?.sign_in_provider;
+
+  const copyCurlHeader = async () => {
+    try {
+      // Same header the app sends (see ApiService.toCurl)
+      await navigator.clipboard.writeText(toCurlHeader('Authorization', token));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy token:', error);
+      alert('Could not copy to the clipboard');
+    }
+  };
+
+  return (
+    <div className="space-y-2 text-xs">
+      {warnings.map(warning => (
+        <div key={warning} className="flex items-start space-x-1 text-orange-700 bg-orange-50 border border-orange-200 rounded p-2">
+          <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+          <span>{warning}</span>
+        </div>
+      ))}
+
+      <div className="font-mono space-y-0.5 text-gray-700">
+        <div className="break-all"><span className="text-gray-500">alg:</span> {formatClaimValue(header.alg)} <span className="text-gray-500">kid:</span> {formatClaimValue(header.kid ?? 'none')}</div>
+        <div className="break-all"><span className="text-gray-500">iss:</span> {payload.iss ?? 'missing'}</div>
+        <div className="break-all"><span className="text-gray-500">aud:</span> {payload.aud ?? 'missing'}</div>
+        <div className="break-all"><span className="text-gray-500">sub:</span> {payload.sub ?? 'missing'}</div>
+        {TIME_CLAIMS.map(claim => (
+          <div key={claim}><span className="text-gray-500">{claim}:</span> {formatClaimTime(payload[claim])}</div>
+        ))}
+        {signInProvider && (
+          <div><span className="text-gray-500">sign_in_provider:</span> {signInProvider}</div>
+        )}
+      </div>
+
+      <div>
+        <h6 className="font-medium text-gray-700 mb-1">Custom claims</h6>
+        {customClaims.length > 0 ? (
+          <div className="font-mono space-y-0.5 text-gray-700">
+            {customClaims.map(([claim, value]) => (
+              <div key={claim} className="break-all">
+                <span className="text-gray-500">{claim}:</span> {formatClaimValue(value)}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-gray-500">None</div>
+        )}
+      </div>
+
+      <button
+        onClick={copyCurlHeader}
+        className="flex items-center space-x-1 px-2 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200"
+      >
+        {copied ? <Check className="h-3 w-3 text-green-600" /> : <Copy className="h-3 w-3" />}
+        <span>{copied ? 'Copied' : 'Copy as curl header'}</span>
+      </button>
+    </div>
+  );
+};
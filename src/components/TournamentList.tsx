@@ -1,83 +1,193 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Tournament } from '@/lib/api-config';
+import {
+  SortKey,
+  TIME_WINDOWS,
+  TIME_WINDOW_LABELS,
+  TOURNAMENT_STATUSES,
+  TimeWindow,
+  TournamentStatus,
+  filterTournaments,
+  getTournamentStatus,
+  groupTournamentsByDay,
+  sortTournaments
+} from '@/lib/tournament-filters';
 import { useApiService } from '@/hooks/useApiService';
 import { useAuth } from '@/contexts/AuthContext';
-import { 
-  Trophy, 
-  Clock, 
-  Users, 
-  DollarSign, 
-  RefreshCw, 
+import { useSubscriptions } from '@/hooks/useSubscriptions';
+import { useTournamentFilters } from '@/hooks/useTournamentFilters';
+import { SubscribeDialog } from '@/components/SubscribeDialog';
+import {
+  Trophy,
+  RefreshCw,
   Calendar,
   Play,
-  AlertCircle
+  AlertCircle,
+  Search,
+  ArrowUp,
+  ArrowDown,
+  X
 } from 'lucide-react';
 
+const PAGE_SIZE = 50;
+
+const STATUS_STYLES: Record<TournamentStatus, { label: string; color: string }> = {
+  upcoming: { label: 'Upcoming', color: 'text-blue-600 bg-blue-100' },
+  active: { label: 'Active', color: 'text-green-600 bg-green-100' },
+  completed: { label: 'Completed', color: 'text-gray-600 bg-gray-100' }
+};
+
+const parseNumberInput = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
 export const TournamentList: React.FC = () => {
   const { authenticatedUsers, currentEnvironment } = useAuth();
-  const { fetchTambolaTournaments, fetchUpcomingTournaments, isLoading, error } = useApiService();
+  const { fetchTambolaTournaments, isLoading, error } = useApiService();
   const [tournaments, setTournaments] = useState<Tournament[]>([]);
-  const [upcomingTournaments, setUpcomingTournaments] = useState<Tournament[]>([]);
   const [lastRefresh, setLastRefresh] = useState<Date | null>(null);
+  const [subscribingTournament, setSubscribingTournament] = useState<Tournament | null>(null);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const { subscribePlayers, getTournamentSubscriptions, isSubscribed } = useSubscriptions();
+  const { filters, updateFilters, resetFilters, isFiltered } = useTournamentFilters();
 
   const loadTournaments = useCallback(async () => {
     if (authenticatedUsers.length === 0) {
       // Clear tournaments when no users are authenticated
       setTournaments([]);
-      setUpcomingTournaments([]);
       setLastRefresh(null);
       return;
     }
 
     try {
-      const [allTournaments, upcoming] = await Promise.all([
-        fetchTambolaTournaments(),
-        fetchUpcomingTournaments()
-      ]);
-      
+      const allTournaments = await fetchTambolaTournaments();
       setTournaments(allTournaments);
-      setUpcomingTournaments(upcoming);
       setLastRefresh(new Date());
     } catch (err) {
       console.error('Failed to load tournaments:', err);
     }
-  }, [authenticatedUsers, fetchTambolaTournaments, fetchUpcomingTournaments]);
+  }, [authenticatedUsers, fetchTambolaTournaments]);
 
   useEffect(() => {
     loadTournaments();
   }, [loadTournaments]);
 
+  // Start from the first page whenever the result set changes
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE);
+  }, [filters]);
+
+  // Statuses and time windows are judged as of the last refresh so the list doesn't reshuffle between renders
+  const now = Math.floor((lastRefresh ? lastRefresh.getTime() : Date.now()) / 1000);
+
+  const matchingTournaments = useMemo(() => sortTournaments(
+    filterTournaments(tournaments, filters, now),
+    filters.sortBy,
+    filters.sortDirection
+  ), [tournaments, filters, now]);
+
+  const visibleTournaments = matchingTournaments.slice(0, visibleCount);
+
   const formatDateTime = (epochTime: number): string => {
     return new Date(epochTime * 1000).toLocaleString();
   };
 
   const formatTimeRemaining = (epochTime: number): string => {
-    const now = Math.floor(Date.now() / 1000);
     const diff = epochTime - now;
-    
+
     if (diff <= 0) return 'Started';
-    
-    const hours = Math.floor(diff / 3600);
+
+    const days = Math.floor(diff / 86400);
+    const hours = Math.floor((diff % 86400) / 3600);
     const minutes = Math.floor((diff % 3600) / 60);
-    
+
+    if (days > 0) {
+      return `${days}d ${hours}h`;
+    }
     if (hours > 0) {
       return `${hours}h ${minutes}m`;
     }
     return `${minutes}m`;
   };
 
-  const getTournamentStatus = (tournament: Tournament): { status: string; color: string } => {
-    const now = Math.floor(Date.now() / 1000);
-    
-    if (now < tournament.start) {
-      return { status: 'Upcoming', color: 'text-blue-600 bg-blue-100' };
-    } else if (now >= tournament.start && now < tournament.end) {
-      return { status: 'Active', color: 'text-green-600 bg-green-100' };
-    } else {
-      return { status: 'Completed', color: 'text-gray-600 bg-gray-100' };
-    }
+  const toggleStatus = (status: TournamentStatus) => {
+    updateFilters({
+      statuses: filters.statuses.includes(status)
+        ? filters.statuses.filter(s => s !== status)
+        : TOURNAMENT_STATUSES.filter(s => s === status || filters.statuses.includes(s))
+    });
+  };
+
+  const handleSort = (sortBy: SortKey) => {
+    updateFilters(filters.sortBy === sortBy
+      ? { sortDirection: filters.sortDirection === 'asc' ? 'desc' : 'asc' }
+      : { sortBy, sortDirection: 'asc' }
+    );
+  };
+
+  const renderSortHeader = (label: string, sortKey: SortKey, className = '') => (
+    <th className={`font-medium py-2 pr-3 ${className}`}>
+      <button
+        onClick={() => handleSort(sortKey)}
+        className={`inline-flex items-center space-x-1 hover:text-gray-900 ${filters.sortBy === sortKey ? 'text-gray-900' : ''}`}
+      >
+        <span>{label}</span>
+        {filters.sortBy === sortKey && (
+          filters.sortDirection === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
+        )}
+      </button>
+    </th>
+  );
+
+  const renderRow = (tournament: Tournament) => {
+    const status = getTournamentStatus(tournament, now);
+    const subscriptions = getTournamentSubscriptions(tournament.id);
+    const isFull = !!tournament.max_players && (tournament.current_players || 0) >= tournament.max_players;
+    return (
+      <tr key={tournament.id} className="border-t border-gray-100 hover:bg-gray-50">
+        <td className="py-2 pr-3">
+          <div className="font-medium text-gray-900">{tournament.name}</div>
+          <div className="text-xs text-gray-500 font-mono">{tournament.id}</div>
+          {subscriptions.length > 0 && (
+            <div className="text-xs text-green-600">
+              Subscribed: {subscriptions.map(s => s.displayName || s.userId.substring(0, 8)).join(', ')}
+            </div>
+          )}
+        </td>
+        <td className="py-2 pr-3">
+          <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[status].color}`}>
+            {STATUS_STYLES[status].label}
+          </span>
+        </td>
+        <td className="py-2 pr-3 text-gray-600">
+          <div>{formatDateTime(tournament.start)}</div>
+          <div className="text-xs text-gray-500">
+            {status === 'upcoming' ? `Starts in ${formatTimeRemaining(tournament.start)}` : `Ends ${formatDateTime(tournament.end)}`}
+          </div>
+        </td>
+        <td className="py-2 pr-3 text-right text-gray-600">
+          {tournament.entry_fee ? `₹${tournament.entry_fee}` : 'Free'}
+        </td>
+        <td className={`py-2 pr-3 text-right ${isFull ? 'text-red-600' : 'text-gray-600'}`}>
+          {tournament.max_players ? `${tournament.current_players || 0}/${tournament.max_players}` : '—'}
+        </td>
+        <td className="py-2 text-right">
+          {status !== 'completed' && (
+            <button
+              onClick={() => setSubscribingTournament(tournament)}
+              className="btn-primary text-xs inline-flex items-center space-x-1"
+            >
+              <Play className="h-3 w-3" />
+              <span>Subscribe</span>
+            </button>
+          )}
+        </td>
+      </tr>
+    );
   };
 
   if (authenticatedUsers.length === 0) {
@@ -133,73 +243,118 @@ export const TournamentList: React.FC = () => {
         </div>
       )}
 
-      {/* Upcoming Tournaments Section */}
-      {upcomingTournaments.length > 0 && (
-        <div key="upcoming-section" className="mb-8">
-          <h4 className="text-md font-medium text-gray-900 mb-4 flex items-center space-x-2">
-            <Calendar className="h-4 w-4" />
-            <span>Upcoming Tournaments ({upcomingTournaments.length})</span>
-          </h4>
-          <div className="grid gap-4">
-            {upcomingTournaments.slice(0, 3).map((tournament) => {
-              const { status, color } = getTournamentStatus(tournament);
-              return (
-                <div key={tournament.id} className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow">
-                  <div className="flex items-start justify-between mb-3">
-                    <div>
-                      <h5 className="font-medium text-gray-900">{tournament.name}</h5>
-                      <p className="text-sm text-gray-600">ID: {tournament.id}</p>
-                    </div>
-                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${color}`}>
-                      {status}
-                    </span>
-                  </div>
-                  
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-                    <div key={`time-${tournament.id}`} className="flex items-center space-x-1">
-                      <Clock className="h-4 w-4 text-gray-400" />
-                      <span className="text-gray-600">Starts in {formatTimeRemaining(tournament.start)}</span>
-                    </div>
-                    <div key={`date-${tournament.id}`} className="flex items-center space-x-1">
-                      <Calendar className="h-4 w-4 text-gray-400" />
-                      <span className="text-gray-600">{formatDateTime(tournament.start)}</span>
-                    </div>
-                    {tournament.entry_fee && (
-                      <div key={`fee-${tournament.id}`} className="flex items-center space-x-1">
-                        <DollarSign className="h-4 w-4 text-gray-400" />
-                        <span className="text-gray-600">₹{tournament.entry_fee}</span>
-                      </div>
-                    )}
-                    {tournament.max_players && (
-                      <div key={`players-${tournament.id}`} className="flex items-center space-x-1">
-                        <Users className="h-4 w-4 text-gray-400" />
-                        <span className="text-gray-600">
-                          {tournament.current_players || 0}/{tournament.max_players}
-                        </span>
-                      </div>
-                    )}
-                  </div>
-                  
-                  <div className="mt-3 pt-3 border-t border-gray-100">
-                    <button className="btn-primary text-sm w-full flex items-center justify-center space-x-1">
-                      <Play className="h-4 w-4" />
-                      <span>Subscribe for Testing</span>
-                    </button>
-                  </div>
-                </div>
-              );
-            })}
+      {/* Filters */}
+      <div key="filters-section" className="space-y-3 mb-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[12rem]">
+            <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={filters.search}
+              onChange={e => updateFilters({ search: e.target.value })}
+              placeholder="Search by name or ID"
+              className="w-full border border-gray-300 rounded-lg pl-9 pr-3 py-2 text-sm"
+            />
+          </div>
+          <div className="flex items-center gap-1">
+            {TOURNAMENT_STATUSES.map(status => (
+              <button
+                key={status}
+                onClick={() => toggleStatus(status)}
+                className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                  filters.statuses.includes(status)
+                    ? `${STATUS_STYLES[status].color} border-transparent`
+                    : 'text-gray-600 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {STATUS_STYLES[status].label}
+              </button>
+            ))}
           </div>
+          <select
+            value={filters.timeWindow}
+            onChange={e => updateFilters({ timeWindow: e.target.value as TimeWindow })}
+            className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          >
+            {TIME_WINDOWS.map(timeWindow => (
+              <option key={timeWindow} value={timeWindow}>{TIME_WINDOW_LABELS[timeWindow]}</option>
+            ))}
+          </select>
         </div>
-      )}
 
-      {/* All Tournaments Section */}
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+          <label className="flex items-center space-x-2">
+            <span>Fee ₹</span>
+            <input
+              type="number"
+              min={0}
+              value={filters.minFee ?? ''}
+              onChange={e => updateFilters({ minFee: parseNumberInput(e.target.value) })}
+              placeholder="min"
+              className="w-20 border border-gray-300 rounded-lg px-2 py-1"
+            />
+            <span>–</span>
+            <input
+              type="number"
+              min={0}
+              value={filters.maxFee ?? ''}
+              onChange={e => updateFilters({ maxFee: parseNumberInput(e.target.value) })}
+              placeholder="max"
+              className="w-20 border border-gray-300 rounded-lg px-2 py-1"
+            />
+          </label>
+          <label className="flex items-center space-x-2">
+            <span>Capacity at least</span>
+            <input
+              type="number"
+              min={0}
+              value={filters.minCapacity ?? ''}
+              onChange={e => updateFilters({ minCapacity: parseNumberInput(e.target.value) })}
+              placeholder="players"
+              className="w-24 border border-gray-300 rounded-lg px-2 py-1"
+            />
+          </label>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={filters.hasOpenSpots}
+              onChange={e => updateFilters({ hasOpenSpots: e.target.checked })}
+              className="h-4 w-4"
+            />
+            <span>Open spots only</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={filters.groupByDay}
+              onChange={e => updateFilters({ groupByDay: e.target.checked })}
+              className="h-4 w-4"
+            />
+            <span>Group by day</span>
+          </label>
+          {isFiltered && (
+            <button
+              onClick={resetFilters}
+              className="flex items-center space-x-1 text-xs text-gray-500 hover:text-gray-800"
+            >
+              <X className="h-3 w-3" />
+              <span>Clear filters</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Tournaments */}
       <div key="all-tournaments-section">
-        <h4 className="text-md font-medium text-gray-900 mb-4 flex items-center space-x-2">
+        <h4 className="text-md font-medium text-gray-900 mb-2 flex items-center space-x-2">
           <Trophy className="h-4 w-4" />
-          <span>All Tambola Tournaments ({tournaments.length})</span>
+          <span>
+            {matchingTournaments.length === tournaments.length
+              ? `All Tambola Tournaments (${tournaments.length})`
+              : `Showing ${matchingTournaments.length} of ${tournaments.length} Tambola Tournaments`}
+          </span>
         </h4>
-        
+
         {tournaments.length === 0 ? (
           <div key="empty-state" className="text-center py-8">
             {isLoading ? (
@@ -211,33 +366,64 @@ export const TournamentList: React.FC = () => {
               <p key="no-tournaments" className="text-gray-600">No Tambola tournaments found</p>
             )}
           </div>
+        ) : matchingTournaments.length === 0 ? (
+          <div key="no-matches" className="text-center py-8">
+            <p className="text-gray-600">No tournaments match these filters</p>
+          </div>
         ) : (
-          <div key="tournaments-list" className="space-y-3 max-h-96 overflow-y-auto">
-            {tournaments.map((tournament) => {
-              const { status, color } = getTournamentStatus(tournament);
-              return (
-                <div key={tournament.id} className="border border-gray-200 rounded-lg p-3 hover:bg-gray-50 transition-colors">
-                  <div className="flex items-center justify-between">
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center space-x-2">
-                        <h6 className="font-medium text-gray-900 truncate">{tournament.name}</h6>
-                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${color}`}>
-                          {status}
+          <div key="tournaments-list" className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500">
+                  {renderSortHeader('Name', 'name')}
+                  <th className="font-medium py-2 pr-3">Status</th>
+                  {renderSortHeader('Start', 'start')}
+                  {renderSortHeader('Entry fee', 'entryFee', 'text-right')}
+                  {renderSortHeader('Players', 'capacity', 'text-right')}
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              {filters.groupByDay ? (
+                groupTournamentsByDay(visibleTournaments).map(group => (
+                  <tbody key={group.day}>
+                    <tr className="bg-gray-50 border-t border-gray-200">
+                      <td colSpan={6} className="py-1 px-2 text-xs font-medium text-gray-700">
+                        <span className="inline-flex items-center space-x-1">
+                          <Calendar className="h-3 w-3" />
+                          <span>{group.label} ({group.tournaments.length})</span>
                         </span>
-                      </div>
-                      <div className="flex items-center space-x-4 mt-1 text-xs text-gray-500">
-                        <span key={`id-${tournament.id}`}>ID: {tournament.id}</span>
-                        <span key={`start-${tournament.id}`}>Start: {formatDateTime(tournament.start)}</span>
-                        <span key={`end-${tournament.id}`}>End: {formatDateTime(tournament.end)}</span>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              );
-            })}
+                      </td>
+                    </tr>
+                    {group.tournaments.map(renderRow)}
+                  </tbody>
+                ))
+              ) : (
+                <tbody>{visibleTournaments.map(renderRow)}</tbody>
+              )}
+            </table>
+
+            {matchingTournaments.length > visibleCount && (
+              <div className="text-center mt-3">
+                <button
+                  onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+                  className="btn-secondary text-sm"
+                >
+                  Show {Math.min(PAGE_SIZE, matchingTournaments.length - visibleCount)} more
+                </button>
+              </div>
+            )}
           </div>
         )}
       </div>
+
+      {subscribingTournament && (
+        <SubscribeDialog
+          tournament={subscribingTournament}
+          isSubscribed={isSubscribed}
+          onSubscribe={subscribePlayers}
+          onClose={() => setSubscribingTournament(null)}
+        />
+      )}
     </div>
   );
 };
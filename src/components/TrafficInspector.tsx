@@ -0,0 +1,309 @@
+'use client';
+
+import React, { useState, useMemo, useRef } from 'react';
+import { TrafficEntry } from '@/lib/traffic-log';
+import { parseHar } from '@/lib/har';
+import { useTrafficLog } from '@/hooks/useTrafficLog';
+import { Activity, Pause, Play, Trash2, ChevronDown, ChevronRight, AlertCircle, Download, Upload, X } from 'lucide-react';
+
+type StatusFilter = 'all' | '2xx' | '3xx' | '4xx' | '5xx' | 'failed';
+
+interface ImportedHar {
+  fileName: string;
+  entries: TrafficEntry[];
+}
+
+const STATUS_FILTERS: Array<{ value: StatusFilter; label: string }> = [
+  { value: 'all', label: 'All statuses' },
+  { value: '2xx', label: '2xx Success' },
+  { value: '3xx', label: '3xx Redirect' },
+  { value: '4xx', label: '4xx Client error' },
+  { value: '5xx', label: '5xx Server error' },
+  { value: 'failed', label: 'Network failure' }
+];
+
+const getPlayerLabel = (entry: TrafficEntry): string => {
+  return entry.player.name || entry.player.email || entry.player.userId || 'Unknown player';
+};
+
+const matchesStatus = (entry: TrafficEntry, filter: StatusFilter): boolean => {
+  if (filter === 'all') return true;
+  if (filter === 'failed') return entry.status === null;
+  return entry.status !== null && Math.floor(entry.status / 100) === Number(filter[0]);
+};
+
+const getStatusColor = (status: number | null): string => {
+  if (status === null) return 'text-red-600 bg-red-100';
+  if (status < 300) return 'text-green-600 bg-green-100';
+  if (status < 400) return 'text-blue-600 bg-blue-100';
+  if (status < 500) return 'text-orange-600 bg-orange-100';
+  return 'text-red-600 bg-red-100';
+};
+
+const formatBody = (preview: string | null): string => {
+  if (!preview) return '(empty)';
+  try {
+    return JSON.stringify(JSON.parse(preview), null, 2);
+  } catch {
+    return preview;
+  }
+};
+
+const downloadJson = (data: unknown, fileName: string) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const HeaderList: React.FC<{ headers: Record<string, string> }> = ({ headers }) => (
+  <div className="font-mono text-xs space-y-0.5">
+    {Object.entries(headers).map(([key, value]) => (
+      <div key={key} className="break-all">
+        <span className="text-gray-500">{key}:</span> {value}
+      </div>
+    ))}
+  </div>
+);
+
+export const TrafficInspector: React.FC = () => {
+  const { entries: liveEntries, isPaused, setIsPaused, error, clear, exportHar } = useTrafficLog();
+  const [imported, setImported] = useState<ImportedHar | null>(null);
+  const [redactAuthorization, setRedactAuthorization] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [playerFilter, setPlayerFilter] = useState('all');
+  const [routeFilter, setRouteFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const entries = imported ? imported.entries : liveEntries;
+
+  const players = useMemo(() => {
+    const labels = new Map<string, string>();
+    entries.forEach(entry => labels.set(entry.player.userId || 'unknown', getPlayerLabel(entry)));
+    return Array.from(labels.entries());
+  }, [entries]);
+
+  const filteredEntries = useMemo(() => {
+    const route = routeFilter.trim().toLowerCase();
+    return entries
+      .filter(entry => playerFilter === 'all' || (entry.player.userId || 'unknown') === playerFilter)
+      .filter(entry => !route || entry.path.toLowerCase().includes(route))
+      .filter(entry => matchesStatus(entry, statusFilter))
+      .reverse();
+  }, [entries, playerFilter, routeFilter, statusFilter]);
+
+  const handleExport = async () => {
+    if (!redactAuthorization && !confirm('The exported file will contain the current Authorization tokens of the players signed in here. Continue?')) {
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      // Export what the filters currently show
+      const har = await exportHar(filteredEntries.map(entry => entry.id), redactAuthorization);
+      downloadJson(har, `tambola-traffic-${new Date().toISOString().replace(/[:.]/g, '-')}.har`);
+    } catch (err) {
+      alert(`Failed to export HAR: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setImported({ fileName: file.name, entries: parseHar(await file.text()) });
+      setExpandedId(null);
+    } catch (err) {
+      alert(`Failed to import HAR: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Activity className="h-5 w-5 text-gray-600" />
+          <h3 className="text-lg font-semibold text-gray-900">API Traffic ({entries.length})</h3>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center space-x-1 px-3 py-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 text-sm"
+          >
+            <Upload className="h-4 w-4" />
+            <span>Import HAR</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".har,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <button
+            onClick={handleExport}
+            disabled={imported !== null || filteredEntries.length === 0 || isExporting}
+            className="flex items-center space-x-1 px-3 py-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 text-sm disabled:opacity-50"
+          >
+            <Download className="h-4 w-4" />
+            <span>{isExporting ? 'Exporting...' : 'Export HAR'}</span>
+          </button>
+          <button
+            onClick={() => setIsPaused(!isPaused)}
+            className="flex items-center space-x-1 px-3 py-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 text-sm"
+          >
+            {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+            <span>{isPaused ? 'Resume' : 'Pause'}</span>
+          </button>
+          <button
+            onClick={clear}
+            disabled={imported !== null}
+            className="flex items-center space-x-1 px-3 py-2 rounded-lg bg-red-50 text-red-600 hover:bg-red-100 text-sm disabled:opacity-50"
+          >
+            <Trash2 className="h-4 w-4" />
+            <span>Clear</span>
+          </button>
+        </div>
+      </div>
+
+      {imported ? (
+        <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4 text-sm text-blue-800">
+          <span>Viewing <strong>{imported.fileName}</strong> ({imported.entries.length} exchanges)</span>
+          <button
+            onClick={() => setImported(null)}
+            className="flex items-center space-x-1 text-blue-700 hover:text-blue-900"
+          >
+            <X className="h-4 w-4" />
+            <span>Back to live traffic</span>
+          </button>
+        </div>
+      ) : (
+        <label className="flex items-center space-x-2 mb-4 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={redactAuthorization}
+            onChange={e => setRedactAuthorization(e.target.checked)}
+            className="h-4 w-4"
+          />
+          <span>Redact Authorization headers in HAR exports</span>
+        </label>
+      )}
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mb-4 text-sm">
+        <select
+          value={playerFilter}
+          onChange={e => setPlayerFilter(e.target.value)}
+          className="border border-gray-300 rounded-lg px-3 py-2"
+        >
+          <option value="all">All players</option>
+          {players.map(([userId, label]) => (
+            <option key={userId} value={userId}>{label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={routeFilter}
+          onChange={e => setRouteFilter(e.target.value)}
+          placeholder="Filter by route, e.g. app/config"
+          className="border border-gray-300 rounded-lg px-3 py-2"
+        />
+        <select
+          value={statusFilter}
+          onChange={e => setStatusFilter(e.target.value as StatusFilter)}
+          className="border border-gray-300 rounded-lg px-3 py-2"
+        >
+          {STATUS_FILTERS.map(filter => (
+            <option key={filter.value} value={filter.value}>{filter.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && !imported && (
+        <div className="flex items-center space-x-2 bg-red-50 border border-red-200 rounded-lg p-3 mb-4 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {filteredEntries.length === 0 ? (
+        <p className="text-center py-8 text-gray-600 text-sm">
+          {entries.length === 0 ? 'No API traffic captured yet' : 'No exchanges match the filters'}
+        </p>
+      ) : (
+        <div className="space-y-1 max-h-96 overflow-y-auto">
+          {filteredEntries.map(entry => (
+            <div key={entry.id} className="border border-gray-200 rounded-lg">
+              <button
+                onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                className="w-full flex items-center space-x-2 p-2 text-xs text-left hover:bg-gray-50"
+              >
+                {expandedId === entry.id
+                  ? <ChevronDown className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                  : <ChevronRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                }
+                <span className="text-gray-500 w-20 flex-shrink-0">
+                  {new Date(entry.timestamp).toLocaleTimeString()}
+                </span>
+                <span className="w-32 truncate flex-shrink-0">{getPlayerLabel(entry)}</span>
+                <span className="font-mono font-medium w-14 flex-shrink-0">{entry.method}</span>
+                <span className="font-mono flex-1 truncate">{entry.path}</span>
+                <span className={`px-2 py-0.5 rounded-full font-medium ${getStatusColor(entry.status)}`}>
+                  {entry.status ?? 'ERR'}
+                </span>
+                <span className="text-gray-500 w-16 text-right flex-shrink-0">{entry.latencyMs} ms</span>
+              </button>
+
+              {expandedId === entry.id && (
+                <div className="border-t border-gray-200 p-3 space-y-3 text-xs bg-gray-50">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div><span className="text-gray-500">Environment:</span> {entry.environment}</div>
+                    <div className="break-all"><span className="text-gray-500">URL:</span> {entry.url}</div>
+                    <div><span className="text-gray-500">Player ID:</span> {entry.player.userId || 'unknown'}</div>
+                    <div><span className="text-gray-500">Sizes:</span> {entry.requestBodySize} B sent, {entry.responseBodySize} B received</div>
+                  </div>
+                  {entry.error && (
+                    <div className="text-red-700">Error: {entry.error}</div>
+                  )}
+                  <div>
+                    <h6 className="font-medium text-gray-700 mb-1">Request headers</h6>
+                    <HeaderList headers={entry.requestHeaders} />
+                  </div>
+                  {entry.requestBodyPreview && (
+                    <div>
+                      <h6 className="font-medium text-gray-700 mb-1">Request body</h6>
+                      <pre className="bg-white border border-gray-200 rounded p-2 overflow-x-auto max-h-48">
+                        {formatBody(entry.requestBodyPreview)}
+                      </pre>
+                    </div>
+                  )}
+                  <div>
+                    <h6 className="font-medium text-gray-700 mb-1">
+                      Response headers ({entry.status ?? 'no response'} {entry.statusText})
+                    </h6>
+                    <HeaderList headers={entry.responseHeaders} />
+                  </div>
+                  <div>
+                    <h6 className="font-medium text-gray-700 mb-1">Response body</h6>
+                    <pre className="bg-white border border-gray-200 rounded p-2 overflow-x-auto max-h-48">
+                      {formatBody(entry.responseBodyPreview)}
+                    </pre>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,11 @@
 'use client';
 
 import React, { createContext, useContext, useEffect, useState, ReactNode, useCallback } from 'react';
-import { Environment, getFirebaseInstance } from '@/lib/firebase-config';
+import { getFirebaseInstance } from '@/lib/firebase-config';
+import { DEFAULT_ENVIRONMENT, Environment } from '@/lib/environments';
 import { AuthenticatedUser } from '@/types/auth';
 import { AuthStorage } from '@/lib/auth-storage';
+import { publishAuthChange, subscribeToAuthChanges } from '@/lib/auth-sync';
 
 interface AuthContextType {
   // Current environment
@@ -36,16 +38,16 @@ interface AuthProviderProps {
 }
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
-  const [currentEnvironment, setCurrentEnvironment] = useState<Environment>('test');
+  const [currentEnvironment, setCurrentEnvironment] = useState<Environment>(DEFAULT_ENVIRONMENT);
   const [authenticatedUsers, setAuthenticatedUsers] = useState<AuthenticatedUser[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Load persisted users on app initialization (MultiPlayerAuth handles the actual restoration)
   useEffect(() => {
-    const loadPersistedUsers = () => {
+    const loadPersistedUsers = async () => {
       try {
-        const storedUsers = AuthStorage.loadUsers();
+        const storedUsers = await AuthStorage.loadUsers();
         const usersForCurrentEnv = storedUsers.filter(u => u.environment === currentEnvironment);
         
         console.log(`Found ${usersForCurrentEnv.length} persisted users for ${currentEnvironment}`);
@@ -58,17 +60,27 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     loadPersistedUsers();
   }, [currentEnvironment]);
 
+  // Follow environment switches made in other tabs
+  useEffect(() => {
+    return subscribeToAuthChanges(message => {
+      if (message.type === 'environment-changed') {
+        setCurrentEnvironment(message.environment);
+        setError(null);
+      }
+    });
+  }, []);
+
   // Clear users when environment changes
   useEffect(() => {
     setAuthenticatedUsers([]);
     setError(null);
   }, [currentEnvironment]);
 
-  // Save users to localStorage whenever authenticatedUsers changes
+  // Save users to storage whenever authenticatedUsers changes
   useEffect(() => {
     if (authenticatedUsers.length > 0) {
       AuthStorage.saveUsers(authenticatedUsers);
-      console.log(`Saved ${authenticatedUsers.length} users to localStorage:`, 
+      console.log(`Saved ${authenticatedUsers.length} users to storage:`, 
         authenticatedUsers.map(u => u.displayName));
     }
   }, [authenticatedUsers]);
@@ -97,7 +109,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const removeUser = useCallback((userId: string) => {
     setAuthenticatedUsers(prev => {
       const filteredUsers = prev.filter(u => u.id !== userId);
-      // Update localStorage
+      // Update storage
       AuthStorage.removeUser(userId);
       return filteredUsers;
     });
@@ -115,9 +127,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const clearAllUsers = useCallback(() => {
     setAuthenticatedUsers([]);
-    AuthStorage.clearAll();
+    AuthStorage.clearAll(currentEnvironment);
     setError(null);
-  }, []);
+  }, [currentEnvironment]);
 
   const refreshUserToken = useCallback(async (userId: string): Promise<boolean> => {
     try {
@@ -138,7 +150,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       // Update in memory
       updateUser(userId, { accessToken: newToken });
       
-      // Update in localStorage
+      // Update in storage
       AuthStorage.updateUserToken(userId, newToken, user.refreshToken);
       
       return true;
@@ -165,6 +177,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     
     setCurrentEnvironment(env);
     setError(null);
+    publishAuthChange({ type: 'environment-changed', environment: env });
   };
 
   const contextValue: AuthContextType = {
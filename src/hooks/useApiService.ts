@@ -1,9 +1,19 @@
 'use client';
 
 import { useState, useEffect, useMemo, useCallback } from 'react';
-import { ApiService, Tournament } from '@/lib/api-config';
+import { ApiError, ApiService, ClaimResponse, GameState, RawApiRequest, RawApiResponse, Tournament } from '@/lib/api-config';
+import { ClaimType } from '@/lib/claim-engine';
 import { useAuth } from '@/contexts/AuthContext';
-import { AuthenticatedUser } from '@/types/auth';
+import { AuthenticatedUser, TambolaTicket, TournamentSubscription } from '@/types/auth';
+
+// The outcome of one player's run of a fanned-out operation
+export interface FanOutResult<T = unknown> {
+  userId: string;
+  displayName: string | null;
+  data?: T;
+  error?: string;
+  durationMs: number;
+}
 
 export interface ApiServiceHook {
   apiService: ApiService;
@@ -15,6 +25,18 @@ export interface ApiServiceHook {
   fetchTambolaTournaments: (userId?: string) => Promise<Tournament[]>;
   fetchUpcomingTournaments: (userId?: string) => Promise<Tournament[]>;
   fetchActiveTournaments: (userId?: string) => Promise<Tournament[]>;
+  subscribeToTournament: (tournamentId: string, userId: string) => Promise<TournamentSubscription>;
+  
+  // Game operations (always run as a specific player)
+  fetchTickets: (tournamentId: string, userId: string) => Promise<TambolaTicket[]>;
+  fetchGameState: (tournamentId: string, userId: string) => Promise<GameState>;
+  submitClaim: (tournamentId: string, ticketId: string, claim: ClaimType, userId: string) => Promise<ClaimResponse>;
+
+  // Send an arbitrary request as a player and return the response as received
+  sendRequest: (request: RawApiRequest, userId: string) => Promise<RawApiResponse>;
+
+  // Run the same operation as each of the given players at once
+  fanOut: <T>(operation: (token: string) => Promise<T>, userIds: string[]) => Promise<FanOutResult<T>[]>;
   
   // Utility functions
   refreshTokenForUser: (userId: string) => Promise<string>;
@@ -36,6 +58,13 @@ export const useApiService = (): ApiServiceHook => {
     apiService.switchEnvironment(currentEnvironment);
   }, [currentEnvironment, apiService]);
 
+  // Send each player's persona header profile with the requests made as them
+  useEffect(() => {
+    apiService.setExtraHeadersProvider(authToken =>
+      authenticatedUsers.find(user => user.accessToken === authToken)?.requestHeaders
+    );
+  }, [apiService, authenticatedUsers]);
+
   const getAuthTokenForUser = useCallback((userId: string): string | null => {
     const user = authenticatedUsers.find(u => u.id === userId);
     return user?.accessToken || null;
@@ -61,6 +90,30 @@ export const useApiService = (): ApiServiceHook => {
     }
   }, [authenticatedUsers, updateUser]);
 
+  // Runs an operation with the given player's token, retrying once with a fresh token on auth failure
+  const runAsUser = useCallback(async <T>(
+    operation: (token: string) => Promise<T>,
+    userId: string
+  ): Promise<T> => {
+    let authToken = getAuthTokenForUser(userId);
+    
+    if (!authToken) {
+      throw new Error('No authentication token available for user');
+    }
+
+    try {
+      return await operation(authToken);
+    } catch (err: any) {
+      // If token expired, try to refresh
+      if (err instanceof ApiError && err.status === 401) {
+        console.log('Token expired, attempting refresh...');
+        authToken = await refreshTokenForUser(userId);
+        return await operation(authToken);
+      }
+      throw err;
+    }
+  }, [getAuthTokenForUser, refreshTokenForUser]);
+
   const executeWithAuth = useCallback(async <T>(
     operation: (token: string) => Promise<T>,
     userId?: string
@@ -76,23 +129,7 @@ export const useApiService = (): ApiServiceHook => {
         throw new Error('No authenticated users available. Please sign in at least one player.');
       }
 
-      let authToken = getAuthTokenForUser(targetUserId);
-      
-      if (!authToken) {
-        throw new Error('No authentication token available for user');
-      }
-
-      try {
-        return await operation(authToken);
-      } catch (err: any) {
-        // If token expired, try to refresh
-        if (err.message?.includes('401') || err.message?.includes('unauthorized')) {
-          console.log('Token expired, attempting refresh...');
-          authToken = await refreshTokenForUser(targetUserId);
-          return await operation(authToken);
-        }
-        throw err;
-      }
+      return await runAsUser(operation, targetUserId);
     } catch (err: any) {
       const errorMessage = err.message || 'API operation failed';
       setError(errorMessage);
@@ -100,7 +137,7 @@ export const useApiService = (): ApiServiceHook => {
     } finally {
       setIsLoading(false);
     }
-  }, [authenticatedUsers, getAuthTokenForUser, refreshTokenForUser]);
+  }, [authenticatedUsers, runAsUser]);
 
   const fetchTournaments = useCallback(async (userId?: string): Promise<Tournament[]> => {
     return executeWithAuth(async (token) => {
@@ -127,6 +164,79 @@ export const useApiService = (): ApiServiceHook => {
     }, userId);
   }, [executeWithAuth, apiService]);
 
+  // Per-player operations run outside executeWithAuth so one player's failure
+  // doesn't surface as the shared loading/error state of the tournament list
+  const subscribeToTournament = useCallback(async (
+    tournamentId: string,
+    userId: string
+  ): Promise<TournamentSubscription> => {
+    const user = authenticatedUsers.find(u => u.id === userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    await runAsUser(token => apiService.subscribeToTournament(token, tournamentId), userId);
+
+    return {
+      tournamentId,
+      userId,
+      environment: user.environment,
+      subscriptionTime: Date.now(),
+      status: 'subscribed',
+      displayName: user.displayName
+    };
+  }, [authenticatedUsers, runAsUser, apiService]);
+
+  const fetchTickets = useCallback(async (tournamentId: string, userId: string): Promise<TambolaTicket[]> => {
+    return runAsUser(token => apiService.getTickets(token, tournamentId), userId);
+  }, [runAsUser, apiService]);
+
+  const fetchGameState = useCallback(async (tournamentId: string, userId: string): Promise<GameState> => {
+    return runAsUser(token => apiService.getGameState(token, tournamentId), userId);
+  }, [runAsUser, apiService]);
+
+  const submitClaim = useCallback(async (
+    tournamentId: string,
+    ticketId: string,
+    claim: ClaimType,
+    userId: string
+  ): Promise<ClaimResponse> => {
+    return runAsUser(token => apiService.submitClaim(token, tournamentId, ticketId, claim), userId);
+  }, [runAsUser, apiService]);
+
+  // send() resolves with error statuses instead of throwing, so retry a 401 here the way runAsUser would
+  const sendRequest = useCallback(async (request: RawApiRequest, userId: string): Promise<RawApiResponse> => {
+    const response = await runAsUser(token => apiService.send(token, request), userId);
+    if (response.status !== 401) {
+      return response;
+    }
+
+    console.log('Token rejected, attempting refresh...');
+    return apiService.send(await refreshTokenForUser(userId), request);
+  }, [runAsUser, refreshTokenForUser, apiService]);
+
+  // Like the per-player operations, failures are reported per result rather than as shared error state
+  const fanOut = useCallback(async <T>(
+    operation: (token: string) => Promise<T>,
+    userIds: string[]
+  ): Promise<FanOutResult<T>[]> => {
+    return Promise.all(userIds.map(async (userId): Promise<FanOutResult<T>> => {
+      const displayName = authenticatedUsers.find(u => u.id === userId)?.displayName || null;
+      const startTime = performance.now();
+      try {
+        const data = await runAsUser(operation, userId);
+        return { userId, displayName, data, durationMs: Math.round(performance.now() - startTime) };
+      } catch (err) {
+        return {
+          userId,
+          displayName,
+          error: err instanceof Error ? err.message : 'API operation failed',
+          durationMs: Math.round(performance.now() - startTime)
+        };
+      }
+    }));
+  }, [authenticatedUsers, runAsUser]);
+
   return {
     apiService,
     isLoading,
@@ -135,6 +245,12 @@ export const useApiService = (): ApiServiceHook => {
     fetchTambolaTournaments,
     fetchUpcomingTournaments,
     fetchActiveTournaments,
+    subscribeToTournament,
+    fetchTickets,
+    fetchGameState,
+    submitClaim,
+    sendRequest,
+    fanOut,
     refreshTokenForUser,
     getAuthTokenForUser
   };
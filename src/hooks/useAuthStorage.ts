@@ -0,0 +1,62 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { AuthStorage, StorageSettings } from '@/lib/auth-storage';
+import { subscribeToAuthChanges } from '@/lib/auth-sync';
+
+export interface AuthStorageHook {
+  settings: StorageSettings;
+  isLocked: boolean;
+  // Bumped whenever the storage behind AuthStorage changes, so callers can reload from it
+  version: number;
+  configure: (settings: StorageSettings, passphrase?: string) => Promise<void>;
+  unlock: (passphrase: string) => Promise<void>;
+  lock: () => void;
+  reset: () => Promise<void>;
+}
+
+export const useAuthStorage = (): AuthStorageHook => {
+  const [version, setVersion] = useState(0);
+
+  const bump = useCallback(() => setVersion(current => current + 1), []);
+
+  // Another tab moved the storage; drop the cached adapter (and key) and reload
+  useEffect(() => {
+    return subscribeToAuthChanges(message => {
+      if (message.type === 'storage-configured') {
+        AuthStorage.reloadSettings();
+        bump();
+      }
+    });
+  }, [bump]);
+
+  const configure = useCallback(async (settings: StorageSettings, passphrase?: string) => {
+    await AuthStorage.configure(settings, passphrase);
+    bump();
+  }, [bump]);
+
+  const unlock = useCallback(async (passphrase: string) => {
+    await AuthStorage.unlock(passphrase);
+    bump();
+  }, [bump]);
+
+  const lock = useCallback(() => {
+    AuthStorage.lock();
+    bump();
+  }, [bump]);
+
+  const reset = useCallback(async () => {
+    await AuthStorage.reset();
+    bump();
+  }, [bump]);
+
+  return {
+    settings: AuthStorage.getSettings(),
+    isLocked: AuthStorage.isLocked(),
+    version,
+    configure,
+    unlock,
+    lock,
+    reset
+  };
+};
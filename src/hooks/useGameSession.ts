@@ -0,0 +1,168 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useApiService } from '@/hooks/useApiService';
+import { Tournament } from '@/lib/api-config';
+import { ClaimType } from '@/lib/claim-engine';
+import { GameSessionEvent, GameSessionManager } from '@/lib/game-session';
+import { generateStrip } from '@/lib/tambola-ticket';
+import { GameSession } from '@/types/auth';
+
+const STATUS_TICK_INTERVAL = 1000;
+const GAME_POLL_INTERVAL = 3000;
+const PRE_START_POLL_WINDOW = 60 * 1000; // start polling a minute before the tournament starts
+const LOCAL_TICKETS_PER_PLAYER = 2;
+
+export interface GameSessionHook {
+  session: GameSession | null;
+  serverError: string | null;
+  createSession: (tournament: Tournament, userIds: string[]) => void;
+  endSession: () => void;
+  loadTickets: (userId: string) => Promise<void>;
+  generateLocalTickets: (userId: string) => void;
+  claim: (userId: string, ticketId: string, claim: ClaimType) => Promise<void>;
+}
+
+export const useGameSession = (): GameSessionHook => {
+  const { currentEnvironment, authenticatedUsers } = useAuth();
+  const { fetchTickets, fetchGameState, submitClaim } = useApiService();
+  const [session, setSession] = useState<GameSession | null>(null);
+  const [serverError, setServerError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Apply an event only if it belongs to the session that is still open
+  const dispatch = useCallback((sessionId: string, event: GameSessionEvent) => {
+    setSession(prev => prev && prev.sessionId === sessionId
+      ? GameSessionManager.applyEvent(prev, event)
+      : prev
+    );
+  }, []);
+
+  const loadTicketsForSession = useCallback(async (sessionId: string, tournamentId: string, userId: string) => {
+    try {
+      const tickets = await fetchTickets(tournamentId, userId);
+      dispatch(sessionId, { type: 'tickets-loaded', userId, tickets });
+    } catch (err) {
+      dispatch(sessionId, {
+        type: 'participant-error',
+        userId,
+        message: `Failed to load tickets: ${err instanceof Error ? err.message : 'Unknown error'}`
+      });
+    }
+  }, [fetchTickets, dispatch]);
+
+  const createSession = useCallback((tournament: Tournament, userIds: string[]) => {
+    const participants = authenticatedUsers.filter(u => userIds.includes(u.id));
+    const newSession = GameSessionManager.createSession(tournament, participants, currentEnvironment);
+
+    setSession(newSession);
+    setServerError(null);
+    console.log(`Created game session ${newSession.sessionId} for ${tournament.name} with ${participants.length} players`);
+
+    participants.forEach(user => {
+      loadTicketsForSession(newSession.sessionId, tournament.id, user.id);
+    });
+  }, [authenticatedUsers, currentEnvironment, loadTicketsForSession]);
+
+  const endSession = useCallback(() => {
+    setSession(null);
+    setServerError(null);
+  }, []);
+
+  const loadTickets = useCallback(async (userId: string) => {
+    if (!session) return;
+    await loadTicketsForSession(session.sessionId, session.tournamentId, userId);
+  }, [session, loadTicketsForSession]);
+
+  // For playing along with the local caller when the backend has no tickets for a player
+  const generateLocalTickets = useCallback((userId: string) => {
+    if (!session) return;
+
+    const tickets = generateStrip(userId, session.tournamentId, session.sessionId)
+      .slice(0, LOCAL_TICKETS_PER_PLAYER);
+    dispatch(session.sessionId, { type: 'tickets-loaded', userId, tickets });
+  }, [session, dispatch]);
+
+  const claim = useCallback(async (userId: string, ticketId: string, claimType: ClaimType) => {
+    if (!session) return;
+    const { sessionId, tournamentId } = session;
+
+    try {
+      const result = await submitClaim(tournamentId, ticketId, claimType, userId);
+      dispatch(sessionId, {
+        type: 'claim-result',
+        userId,
+        claim: {
+          ticketId,
+          claim: claimType,
+          accepted: result.accepted,
+          message: result.message,
+          callIndex: result.callIndex,
+          time: Date.now()
+        }
+      });
+    } catch (err) {
+      dispatch(sessionId, {
+        type: 'participant-error',
+        userId,
+        message: `Claim ${claimType} failed: ${err instanceof Error ? err.message : 'Unknown error'}`
+      });
+    }
+  }, [session, submitClaim, dispatch]);
+
+  // Sessions belong to one environment
+  useEffect(() => {
+    endSession();
+  }, [currentEnvironment, endSession]);
+
+  // The effects below only need to restart when these change, not on every session update
+  const sessionId = session?.sessionId;
+  const sessionStatus = session?.status;
+  const tournamentId = session?.tournamentId;
+
+  // Move through waiting/active/completed as the tournament clock runs
+  useEffect(() => {
+    if (!sessionId || sessionStatus === 'completed') return;
+
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      setSession(prev => prev && GameSessionManager.resolveStatus(prev));
+    }, STATUS_TICK_INTERVAL);
+
+    return () => clearInterval(timer);
+  }, [sessionId, sessionStatus]);
+
+  // Poll the server's game state while the game is (about to be) running
+  const shouldPoll = !!session && session.status !== 'completed' &&
+    (session.status === 'active' || session.startTime - now <= PRE_START_POLL_WINDOW);
+  const pollUserId = session?.participants[0]?.id;
+
+  useEffect(() => {
+    if (!shouldPoll || !sessionId || !tournamentId || !pollUserId) return;
+
+    const poll = async () => {
+      try {
+        const game = await fetchGameState(tournamentId, pollUserId);
+        dispatch(sessionId, { type: 'game-state', game });
+        setServerError(null);
+      } catch (err) {
+        setServerError(err instanceof Error ? err.message : 'Failed to fetch game state');
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, GAME_POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [shouldPoll, sessionId, tournamentId, pollUserId, fetchGameState, dispatch]);
+
+  return {
+    session,
+    serverError,
+    createSession,
+    endSession,
+    loadTickets,
+    generateLocalTickets,
+    claim
+  };
+};
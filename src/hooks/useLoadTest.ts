@@ -0,0 +1,76 @@
+'use client';
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useApiService } from '@/hooks/useApiService';
+import { LoadTestConfig, LoadTestReport, LoadTestRunner } from '@/lib/load-test';
+import { VirtualTokenSource, createVirtualPlayers } from '@/lib/virtual-players';
+
+export type LoadTestPhase = 'idle' | 'creating' | 'running';
+
+export interface LoadTestHook {
+  phase: LoadTestPhase;
+  createdPlayers: number;
+  report: LoadTestReport | null;
+  error: string | null;
+  start: (source: VirtualTokenSource, playerCount: number, customTokens: string[], config: LoadTestConfig) => Promise<void>;
+  stop: () => void;
+}
+
+export const useLoadTest = (): LoadTestHook => {
+  const { currentEnvironment } = useAuth();
+  const { apiService } = useApiService();
+  const [phase, setPhase] = useState<LoadTestPhase>('idle');
+  const [createdPlayers, setCreatedPlayers] = useState(0);
+  const [report, setReport] = useState<LoadTestReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const runnerRef = useRef<LoadTestRunner | null>(null);
+
+  const start = useCallback(async (
+    source: VirtualTokenSource,
+    playerCount: number,
+    customTokens: string[],
+    config: LoadTestConfig
+  ) => {
+    setError(null);
+    setReport(null);
+    setCreatedPlayers(0);
+    setPhase('creating');
+
+    try {
+      const players = await createVirtualPlayers(currentEnvironment, source, playerCount, customTokens, setCreatedPlayers);
+      if (players.length === 0) {
+        throw new Error('No virtual players were created');
+      }
+
+      console.log(`Load test: ${players.length} virtual players, ${config.requestsPerSecond} req/s for ${config.durationSeconds}s`);
+      setPhase('running');
+      const runner = new LoadTestRunner(apiService, players, config, setReport);
+      runnerRef.current = runner;
+      await runner.run();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Load test failed');
+    } finally {
+      runnerRef.current = null;
+      setPhase('idle');
+    }
+  }, [currentEnvironment, apiService]);
+
+  const stop = useCallback(() => {
+    runnerRef.current?.stop();
+  }, []);
+
+  // A load test targets one environment; stop it when switching away
+  useEffect(() => {
+    return () => runnerRef.current?.stop();
+  }, [currentEnvironment]);
+
+  return {
+    phase,
+    createdPlayers,
+    report,
+    error,
+    start,
+    stop
+  };
+};
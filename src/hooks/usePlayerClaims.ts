@@ -0,0 +1,103 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { subscribeToAuthChanges } from '@/lib/auth-sync';
+import {
+  CLAIM_HEARTBEAT_MS,
+  ClaimStatus,
+  claimPlayer,
+  getClaimStatus as readClaimStatus,
+  releaseAllClaims,
+  releasePlayer,
+  renewClaims
+} from '@/lib/player-claims';
+
+export interface PlayerClaimsHook {
+  getClaimStatus: (userId: string) => ClaimStatus;
+  isDrivenHere: (userId: string) => boolean; // whether this tab may refresh and use the player
+  claim: (userId: string) => void;
+  release: (userId: string) => void;
+  takeOver: (userId: string) => void;
+}
+
+/**
+ * Claim the given players for this tab so no other tab drives them at the same time.
+ * Unclaimed players are claimed automatically unless this tab released them.
+ */
+export const usePlayerClaims = (userIds: string[]): PlayerClaimsHook => {
+  const [statuses, setStatuses] = useState<Record<string, ClaimStatus>>({});
+  const userIdsRef = useRef(userIds);
+  const releasedRef = useRef(new Set<string>());
+  const [releasedIds, setReleasedIds] = useState<string[]>([]);
+
+  userIdsRef.current = userIds;
+
+  const sync = useCallback(() => {
+    const ids = userIdsRef.current;
+    renewClaims(ids);
+    ids
+      .filter(userId => !releasedRef.current.has(userId) && readClaimStatus(userId) === 'unclaimed')
+      .forEach(userId => claimPlayer(userId));
+
+    const next = Object.fromEntries(ids.map(userId => [userId, readClaimStatus(userId)]));
+    setStatuses(prev => (JSON.stringify(prev) === JSON.stringify(next) ? prev : next));
+  }, []);
+
+  const userIdsKey = userIds.join(',');
+  useEffect(() => {
+    sync();
+  }, [userIdsKey, sync]);
+
+  useEffect(() => {
+    const interval = setInterval(sync, CLAIM_HEARTBEAT_MS);
+    const unsubscribe = subscribeToAuthChanges(message => {
+      if (message.type === 'claims-changed') sync();
+    });
+    window.addEventListener('pagehide', releaseAllClaims);
+
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+      window.removeEventListener('pagehide', releaseAllClaims);
+      releaseAllClaims();
+    };
+  }, [sync]);
+
+  const getClaimStatus = useCallback((userId: string) => {
+    return statuses[userId] || 'unclaimed';
+  }, [statuses]);
+
+  // Released players stay unclaimed here until claimed again, and another tab's players are driven there
+  const isDrivenHere = useCallback((userId: string) => {
+    return statuses[userId] !== 'other' && !releasedIds.includes(userId);
+  }, [statuses, releasedIds]);
+
+  const claim = useCallback((userId: string) => {
+    releasedRef.current.delete(userId);
+    setReleasedIds(Array.from(releasedRef.current));
+    claimPlayer(userId);
+    sync();
+  }, [sync]);
+
+  const release = useCallback((userId: string) => {
+    releasedRef.current.add(userId);
+    setReleasedIds(Array.from(releasedRef.current));
+    releasePlayer(userId);
+    sync();
+  }, [sync]);
+
+  const takeOver = useCallback((userId: string) => {
+    releasedRef.current.delete(userId);
+    setReleasedIds(Array.from(releasedRef.current));
+    claimPlayer(userId, true);
+    sync();
+  }, [sync]);
+
+  return {
+    getClaimStatus,
+    isDrivenHere,
+    claim,
+    release,
+    takeOver
+  };
+};
@@ -0,0 +1,53 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getProxyClientHeaders } from '@/lib/proxy-guard';
+
+export interface ProxyAllowlistHook {
+  allowedPathPrefixes: string[] | null; // null until loaded
+  error: string | null;
+}
+
+// API path prefixes the proxy forwards for the current environment
+export const useProxyAllowlist = (): ProxyAllowlistHook => {
+  const { currentEnvironment } = useAuth();
+  const [allowedPathPrefixes, setAllowedPathPrefixes] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setAllowedPathPrefixes(null);
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/proxy-allowlist?environment=${encodeURIComponent(currentEnvironment)}`, {
+          headers: getProxyClientHeaders()
+        });
+        if (!response.ok) {
+          throw new Error(`Allowlist request failed: ${response.status} ${response.statusText}`);
+        }
+
+        const data: { allowedPathPrefixes: string[] } = await response.json();
+        if (!cancelled) {
+          setAllowedPathPrefixes(data.allowedPathPrefixes);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load the proxy allowlist');
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [currentEnvironment]);
+
+  return {
+    allowedPathPrefixes,
+    error
+  };
+};
@@ -0,0 +1,282 @@
+'use client';
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useApiService } from '@/hooks/useApiService';
+import { HttpMethod } from '@/lib/api-config';
+import { ClaimType } from '@/lib/claim-engine';
+import { SubscriptionStorage } from '@/lib/subscription-storage';
+import {
+  Scenario,
+  ScenarioCall,
+  ScenarioExpectation,
+  ScenarioRun,
+  ScenarioStep,
+  ScenarioStepResult,
+  ScenarioVariables,
+  checkExpectation,
+  describeStep,
+  resolveTemplates
+} from '@/lib/scenario';
+import { AuthenticatedUser } from '@/types/auth';
+
+const DEFAULT_RETRY_INTERVAL = 2000;
+const SLEEP_SLICE = 250; // how often a wait checks for an abort
+
+export interface ScenarioRunnerHook {
+  run: ScenarioRun | null;
+  isRunning: boolean;
+  start: (scenario: Scenario) => Promise<void>;
+  abort: () => void;
+}
+
+interface PlayerOutcome {
+  user: AuthenticatedUser;
+  result: unknown;
+  failures: string[];
+  attempts: number;
+}
+
+const getPlayerLabel = (user: AuthenticatedUser): string => {
+  return user.slotLabel || user.displayName || user.email || user.id;
+};
+
+const resolvePlayers = (target: ScenarioStep['player'], players: AuthenticatedUser[]): AuthenticatedUser[] => {
+  if (target === 'all') return players;
+
+  if (typeof target === 'number') {
+    const player = players[target - 1];
+    if (!player) throw new Error(`There is no player ${target}; ${players.length} are signed in`);
+    return [player];
+  }
+
+  const wanted = String(target).toLowerCase();
+  const player = players.find(user =>
+    [user.slotLabel, user.displayName, user.email].some(value => value?.toLowerCase() === wanted)
+  );
+  if (!player) throw new Error(`No signed-in player is called "${target}"`);
+  return [player];
+};
+
+export const useScenarioRunner = (): ScenarioRunnerHook => {
+  const { authenticatedUsers, currentEnvironment } = useAuth();
+  const api = useApiService();
+  const [run, setRun] = useState<ScenarioRun | null>(null);
+  const abortedRef = useRef(false);
+
+  // A run outlives the render it started in; calling the latest API callbacks keeps it
+  // on the players' current tokens as they are refreshed
+  const apiRef = useRef(api);
+  useEffect(() => {
+    apiRef.current = api;
+  });
+
+  const updateStep = useCallback((index: number, updates: Partial<ScenarioStepResult>) => {
+    setRun(prev => prev && {
+      ...prev,
+      steps: prev.steps.map(step => (step.index === index ? { ...step, ...updates } : step))
+    });
+  }, []);
+
+  // Resolves early (without throwing) when the run is aborted
+  const sleep = useCallback(async (ms: number) => {
+    const until = Date.now() + ms;
+    while (!abortedRef.current && Date.now() < until) {
+      await new Promise(resolve => setTimeout(resolve, Math.min(SLEEP_SLICE, until - Date.now())));
+    }
+  }, []);
+
+  const executeCall = useCallback(async (
+    call: ScenarioCall,
+    params: Record<string, unknown>,
+    userId: string
+  ): Promise<unknown> => {
+    const { apiService, fanOut, subscribeToTournament, fetchTickets, fetchGameState, submitClaim, sendRequest } = apiRef.current;
+
+    // Reads without a typed hook method go through fanOut, which still retries on an expired token
+    const runAs = async (operation: (token: string) => Promise<unknown>) => {
+      const [outcome] = await fanOut(operation, [userId]);
+      if (outcome.error) throw new Error(outcome.error);
+      return outcome.data;
+    };
+    const tournamentId = String(params.tournamentId);
+
+    switch (call) {
+      case 'appConfig':
+        return runAs(token => apiService.getAppConfig(token));
+      case 'tambolaTournaments':
+        return runAs(token => apiService.getTambolaTournaments(token));
+      case 'upcomingTournaments':
+        return runAs(token => apiService.getUpcomingTambolaTournaments(token));
+      case 'activeTournaments':
+        return runAs(token => apiService.getActiveTambolaTournaments(token));
+      case 'subscribe': {
+        const subscription = await subscribeToTournament(tournamentId, userId);
+        SubscriptionStorage.saveSubscription(subscription);
+        return subscription;
+      }
+      case 'tickets':
+        return fetchTickets(tournamentId, userId);
+      case 'gameState':
+        return fetchGameState(tournamentId, userId);
+      case 'claim':
+        return submitClaim(tournamentId, String(params.ticketId), params.claim as ClaimType, userId);
+      case 'request': {
+        const { body } = params;
+        const response = await sendRequest({
+          method: String(params.method || 'GET').toUpperCase() as HttpMethod,
+          path: String(params.path),
+          query: params.query ? String(params.query) : '',
+          headers: (params.headers as Record<string, string>) || {},
+          body: body === undefined ? '' : typeof body === 'string' ? body : JSON.stringify(body)
+        }, userId);
+
+        let parsed: unknown = response.body;
+        try {
+          parsed = JSON.parse(response.body);
+        } catch {
+          // Not JSON; assert on the text
+        }
+        return { status: response.status, headers: response.headers, body: parsed };
+      }
+    }
+  }, []);
+
+  // Run a step's call as one player, repeating it until its expectations pass when it has a retry
+  const runCallAsPlayer = useCallback(async (
+    step: ScenarioStep,
+    user: AuthenticatedUser,
+    variables: ScenarioVariables
+  ): Promise<PlayerOutcome> => {
+    const params = resolveTemplates(step.params || {}, variables) as Record<string, unknown>;
+    const expectations = resolveTemplates(step.expect || [], variables) as ScenarioExpectation[];
+    const deadline = Date.now() + (step.retry?.timeoutMs || 0);
+    let attempts = 0;
+
+    while (true) {
+      attempts++;
+      let result: unknown;
+      let failures: string[];
+      try {
+        result = await executeCall(step.call!, params, user.id);
+        failures = step.expectError
+          ? ['Expected the call to fail, but it succeeded']
+          : expectations.map(expectation => checkExpectation(result, expectation)).filter((f): f is string => f !== null);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Call failed';
+        const expected = step.expectError && (typeof step.expectError !== 'string' || message.includes(step.expectError));
+        result = { error: message };
+        failures = expected ? [] : [step.expectError ? `Failed with "${message}", expected "${step.expectError}"` : message];
+      }
+
+      if (failures.length === 0 || !step.retry || Date.now() >= deadline || abortedRef.current) {
+        return { user, result, failures, attempts };
+      }
+      await sleep(step.retry.intervalMs || DEFAULT_RETRY_INTERVAL);
+    }
+  }, [executeCall, sleep]);
+
+  const start = useCallback(async (scenario: Scenario) => {
+    // Players are fixed for the whole run, in slot order
+    const players = [...authenticatedUsers];
+    if (scenario.players && players.length < scenario.players) {
+      throw new Error(`The scenario needs ${scenario.players} signed-in players; ${players.length} are signed in`);
+    }
+
+    abortedRef.current = false;
+    const startedAt = Date.now();
+    setRun({
+      scenarioName: scenario.name,
+      environment: currentEnvironment,
+      status: 'running',
+      startedAt,
+      steps: scenario.steps.map((step, index) => ({
+        index,
+        name: describeStep(step, index),
+        status: 'pending',
+        players: [],
+        attempts: 0
+      }))
+    });
+
+    const globals: ScenarioVariables = {};
+    const playerVariables = new Map<string, ScenarioVariables>(players.map(user => [user.id, {}]));
+    let stopped = false;
+    let anyFailed = false;
+
+    for (const [index, step] of scenario.steps.entries()) {
+      if (stopped || abortedRef.current) {
+        updateStep(index, { status: 'skipped' });
+        continue;
+      }
+
+      const stepStart = Date.now();
+      let attempts = 1;
+      updateStep(index, { status: 'running' });
+      try {
+        const targets = resolvePlayers(step.player ?? 1, players);
+        updateStep(index, { players: targets.map(getPlayerLabel) });
+
+        if (step.wait) {
+          const { ms, until } = resolveTemplates(step.wait, { ...globals, now: Math.floor(Date.now() / 1000) }) as NonNullable<ScenarioStep['wait']>;
+          const waitMs = until !== undefined ? Number(until) * 1000 - Date.now() : Number(ms);
+          if (Number.isNaN(waitMs)) throw new Error('The wait does not resolve to a number');
+          await sleep(Math.max(0, waitMs));
+        }
+
+        if (step.call) {
+          const outcomes = await Promise.all(targets.map(user => runCallAsPlayer(step, user, {
+            ...globals,
+            ...playerVariables.get(user.id),
+            now: Math.floor(Date.now() / 1000),
+            player: { id: user.id, displayName: user.displayName, email: user.email, slot: user.slotLabel }
+          })));
+
+          if (step.save) {
+            outcomes.forEach(outcome => {
+              playerVariables.get(outcome.user.id)![step.save!] = outcome.result;
+            });
+            globals[step.save] = outcomes.length === 1 ? outcomes[0].result : outcomes.map(outcome => outcome.result);
+          }
+
+          attempts = Math.max(...outcomes.map(outcome => outcome.attempts));
+          updateStep(index, { attempts });
+          const failed = outcomes.filter(outcome => outcome.failures.length > 0);
+          if (failed.length > 0) {
+            throw new Error(failed.map(outcome => `${getPlayerLabel(outcome.user)}: ${outcome.failures.join('; ')}`).join('\n'));
+          }
+        }
+
+        if (abortedRef.current) {
+          updateStep(index, { status: 'skipped', message: 'Aborted', durationMs: Date.now() - stepStart });
+          continue;
+        }
+        updateStep(index, { status: 'passed', durationMs: Date.now() - stepStart });
+      } catch (err) {
+        anyFailed = true;
+        stopped = !step.continueOnFailure;
+        updateStep(index, {
+          status: 'failed',
+          message: err instanceof Error ? err.message : 'Step failed',
+          attempts,
+          durationMs: Date.now() - stepStart
+        });
+      }
+    }
+
+    const status = abortedRef.current ? 'aborted' : anyFailed ? 'failed' : 'passed';
+    setRun(prev => prev && { ...prev, status, finishedAt: Date.now() });
+    console.log(`Scenario "${scenario.name}" ${status} in ${Date.now() - startedAt} ms`);
+  }, [authenticatedUsers, currentEnvironment, updateStep, sleep, runCallAsPlayer]);
+
+  const abort = useCallback(() => {
+    abortedRef.current = true;
+  }, []);
+
+  return {
+    run,
+    isRunning: run?.status === 'running',
+    start,
+    abort
+  };
+};
@@ -0,0 +1,73 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useApiService } from '@/hooks/useApiService';
+import { SubscriptionStorage } from '@/lib/subscription-storage';
+import { SubscriptionResult, TournamentSubscription } from '@/types/auth';
+
+export interface SubscriptionsHook {
+  subscriptions: TournamentSubscription[];
+  subscribePlayers: (tournamentId: string, userIds: string[]) => Promise<SubscriptionResult[]>;
+  getTournamentSubscriptions: (tournamentId: string) => TournamentSubscription[];
+  isSubscribed: (tournamentId: string, userId: string) => boolean;
+}
+
+export const useSubscriptions = (): SubscriptionsHook => {
+  const { currentEnvironment, authenticatedUsers } = useAuth();
+  const { subscribeToTournament } = useApiService();
+  const [subscriptions, setSubscriptions] = useState<TournamentSubscription[]>([]);
+
+  // Load persisted subscriptions for the current environment
+  useEffect(() => {
+    setSubscriptions(SubscriptionStorage.loadSubscriptions(currentEnvironment));
+  }, [currentEnvironment]);
+
+  const subscribePlayers = useCallback(async (
+    tournamentId: string,
+    userIds: string[]
+  ): Promise<SubscriptionResult[]> => {
+    // Subscribe every player in parallel, each with their own token
+    const settled = await Promise.allSettled(
+      userIds.map(userId => subscribeToTournament(tournamentId, userId))
+    );
+
+    const results: SubscriptionResult[] = settled.map((outcome, index) => {
+      const userId = userIds[index];
+      const displayName = authenticatedUsers.find(u => u.id === userId)?.displayName ?? null;
+
+      if (outcome.status === 'fulfilled') {
+        SubscriptionStorage.saveSubscription(outcome.value);
+        return { userId, displayName, success: true, subscription: outcome.value };
+      }
+
+      const reason = outcome.reason;
+      return {
+        userId,
+        displayName,
+        success: false,
+        error: reason instanceof Error ? reason.message : 'Subscription failed'
+      };
+    });
+
+    console.log(`Subscribed ${results.filter(r => r.success).length}/${results.length} players to tournament ${tournamentId}`);
+    setSubscriptions(SubscriptionStorage.loadSubscriptions(currentEnvironment));
+
+    return results;
+  }, [subscribeToTournament, authenticatedUsers, currentEnvironment]);
+
+  const getTournamentSubscriptions = useCallback((tournamentId: string): TournamentSubscription[] => {
+    return subscriptions.filter(s => s.tournamentId === tournamentId);
+  }, [subscriptions]);
+
+  const isSubscribed = useCallback((tournamentId: string, userId: string): boolean => {
+    return subscriptions.some(s => s.tournamentId === tournamentId && s.userId === userId);
+  }, [subscriptions]);
+
+  return {
+    subscriptions,
+    subscribePlayers,
+    getTournamentSubscriptions,
+    isSubscribed
+  };
+};
@@ -0,0 +1,60 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { AuthenticatedUser } from '@/types/auth';
+import { RefreshScheduleState, TokenRefreshScheduler } from '@/lib/token-refresh';
+
+export interface TokenRefreshHook {
+  getRefreshState: (userId: string) => RefreshScheduleState | null;
+  refreshNow: (userId: string) => Promise<string>;
+}
+
+/**
+ * Keep the given players' tokens fresh in the background. `refresh` performs the
+ * actual refresh for one player and resolves to the new ID token.
+ */
+export const useTokenRefresh = (
+  users: AuthenticatedUser[],
+  refresh: (userId: string) => Promise<string>
+): TokenRefreshHook => {
+  const [, setVersion] = useState(0);
+  const refreshRef = useRef(refresh);
+  const schedulerRef = useRef<TokenRefreshScheduler | null>(null);
+
+  refreshRef.current = refresh;
+  if (!schedulerRef.current) {
+    schedulerRef.current = new TokenRefreshScheduler(
+      userId => refreshRef.current(userId),
+      () => setVersion(version => version + 1)
+    );
+  }
+
+  // Track exactly the signed-in players, rescheduling whenever a token changes
+  useEffect(() => {
+    const scheduler = schedulerRef.current!;
+    users.forEach(user => scheduler.track(user.id, user.accessToken));
+
+    const userIds = new Set(users.map(user => user.id));
+    scheduler.getTrackedUserIds()
+      .filter(userId => !userIds.has(userId))
+      .forEach(userId => scheduler.untrack(userId));
+  }, [users]);
+
+  useEffect(() => {
+    const scheduler = schedulerRef.current!;
+    return () => scheduler.stop();
+  }, []);
+
+  const getRefreshState = useCallback((userId: string) => {
+    return schedulerRef.current!.getState(userId);
+  }, []);
+
+  const refreshNow = useCallback((userId: string) => {
+    return schedulerRef.current!.refreshNow(userId);
+  }, []);
+
+  return {
+    getRefreshState,
+    refreshNow
+  };
+};
@@ -0,0 +1,59 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  DEFAULT_TOURNAMENT_FILTERS,
+  TournamentFilters,
+  applyFiltersToSearchParams,
+  filtersFromSearchParams
+} from '@/lib/tournament-filters';
+
+export interface TournamentFiltersHook {
+  filters: TournamentFilters;
+  updateFilters: (updates: Partial<TournamentFilters>) => void;
+  resetFilters: () => void;
+  isFiltered: boolean;
+}
+
+// Keeps the tournament filters in the page's query string. The URL is read and written
+// through window.location/history rather than useSearchParams so the dashboard page
+// doesn't need a Suspense boundary.
+export const useTournamentFilters = (): TournamentFiltersHook => {
+  const [filters, setFilters] = useState<TournamentFilters>(DEFAULT_TOURNAMENT_FILTERS);
+
+  // Load from the URL on mount and when navigating back/forward
+  useEffect(() => {
+    const readUrl = () => setFilters(filtersFromSearchParams(new URLSearchParams(window.location.search)));
+    readUrl();
+    window.addEventListener('popstate', readUrl);
+    return () => window.removeEventListener('popstate', readUrl);
+  }, []);
+
+  const writeUrl = useCallback((next: TournamentFilters) => {
+    const params = applyFiltersToSearchParams(new URLSearchParams(window.location.search), next);
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+  }, []);
+
+  const updateFilters = useCallback((updates: Partial<TournamentFilters>) => {
+    setFilters(prev => {
+      const next = { ...prev, ...updates };
+      writeUrl(next);
+      return next;
+    });
+  }, [writeUrl]);
+
+  const resetFilters = useCallback(() => {
+    setFilters(DEFAULT_TOURNAMENT_FILTERS);
+    writeUrl(DEFAULT_TOURNAMENT_FILTERS);
+  }, [writeUrl]);
+
+  const isFiltered = applyFiltersToSearchParams(new URLSearchParams(), filters).toString() !== '';
+
+  return {
+    filters,
+    updateFilters,
+    resetFilters,
+    isFiltered
+  };
+};
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { TrafficEntry } from '@/lib/traffic-log';
+import { Har, restoreAuthorization } from '@/lib/har';
+import { getProxyClientHeaders } from '@/lib/proxy-guard';
+import { useAuth } from '@/contexts/AuthContext';
+
+const POLL_INTERVAL = 2000;
+const MAX_CLIENT_ENTRIES = 500;
+
+export interface TrafficLogHook {
+  entries: TrafficEntry[];
+  isPaused: boolean;
+  setIsPaused: (paused: boolean) => void;
+  error: string | null;
+  refresh: () => Promise<void>;
+  clear: () => Promise<void>;
+  exportHar: (ids: string[], redactAuthorization: boolean) => Promise<Har>;
+}
+
+export const useTrafficLog = (): TrafficLogHook => {
+  const { authenticatedUsers } = useAuth();
+  const [entries, setEntries] = useState<TrafficEntry[]>([]);
+  const [isPaused, setIsPaused] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const lastSequenceRef = useRef(0);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/traffic?after=${lastSequenceRef.current}`, {
+        headers: getProxyClientHeaders()
+      });
+      if (!response.ok) {
+        throw new Error(`Traffic log request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const data: { entries: TrafficEntry[]; latestSequence: number } = await response.json();
+
+      // The server's log restarts with the dev server; start over rather than miss entries
+      if (data.latestSequence < lastSequenceRef.current) {
+        lastSequenceRef.current = 0;
+        setEntries([]);
+        return;
+      }
+
+      if (data.entries.length > 0) {
+        lastSequenceRef.current = data.entries[data.entries.length - 1].sequence;
+        setEntries(prev => [...prev, ...data.entries].slice(-MAX_CLIENT_ENTRIES));
+      }
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load traffic log');
+    }
+  }, []);
+
+  const clear = useCallback(async () => {
+    try {
+      await fetch('/api/traffic', { method: 'DELETE', headers: getProxyClientHeaders() });
+      setEntries([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clear traffic log');
+    }
+  }, []);
+
+  const exportHar = useCallback(async (ids: string[], redactAuthorization: boolean): Promise<Har> => {
+    const response = await fetch('/api/traffic/har', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getProxyClientHeaders() },
+      body: JSON.stringify({ ids })
+    });
+    if (!response.ok) {
+      throw new Error(`HAR export failed: ${response.status} ${response.statusText}`);
+    }
+
+    const har: Har = await response.json();
+    if (redactAuthorization) {
+      return har;
+    }
+    // Only players signed in here can be unredacted, with their current token
+    return restoreAuthorization(har, player => {
+      return authenticatedUsers.find(user => user.id === player.userId)?.accessToken || null;
+    });
+  }, [authenticatedUsers]);
+
+  useEffect(() => {
+    if (isPaused) return;
+
+    refresh();
+    const timer = setInterval(refresh, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [isPaused, refresh]);
+
+  return {
+    entries,
+    isPaused,
+    setIsPaused,
+    error,
+    refresh,
+    clear,
+    exportHar
+  };
+};
@@ -1,4 +1,7 @@
-import { Environment } from './firebase-config';
+import { Environment, requireEnvironment } from '@/lib/environments';
+import { TambolaTicket } from '@/types/auth';
+import { ClaimType } from '@/lib/claim-engine';
+import { getProxyClientHeaders } from '@/lib/proxy-guard';
 
 export interface ApiConfig {
   baseUrl: string;
@@ -6,14 +9,8 @@ export interface ApiConfig {
 }
 
 export const getApiConfig = (environment: Environment): ApiConfig => {
-  const baseUrl = environment === 'test' 
-    ? 'https://bluboy.ddns.net/test1'
-    : 'https://bluboy.ddns.net/prod1';
-    
-  return {
-    baseUrl,
-    appKey: 'test-key' // Using the same app-key for both environments as shown in the example
-  };
+  const { baseUrl, appKey } = requireEnvironment(environment);
+  return { baseUrl, appKey };
 };
 
 export interface Tournament {
@@ -46,47 +43,302 @@ export interface AppConfigResponse {
   }>;
 }
 
+export type GameStatus = 'waiting' | 'active' | 'completed';
+
+export interface GameState {
+  tournamentId: string;
+  status: GameStatus;
+  calledNumbers: number[];
+  lastCall: number | null;
+  callIntervalSeconds: number;
+  nextCallAt: number | null; // epoch time
+  winners: Array<{
+    claim: ClaimType;
+    userId: string;
+    ticketId: string;
+    callIndex: number;
+  }>;
+}
+
+export interface GameStateResponse {
+  success: boolean;
+  message: string;
+  error: string | null;
+  game: GameState;
+}
+
+export interface TicketsResponse {
+  success: boolean;
+  message: string;
+  error: string | null;
+  tickets: TambolaTicket[];
+}
+
+export interface ClaimResponse {
+  success: boolean;
+  message: string;
+  error: string | null;
+  claim: ClaimType;
+  accepted: boolean;
+  callIndex: number | null;
+}
+
+export interface SubscribeResponse {
+  success: boolean;
+  message: string;
+  error: string | null;
+  [key: string]: unknown;
+}
+
+export const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+
+export type HttpMethod = typeof HTTP_METHODS[number];
+
+// An arbitrary request to the API, as built in the API console
+export interface RawApiRequest {
+  method: HttpMethod;
+  path: string; // relative to /api/v1/, e.g. "tournament/abc/game"
+  query: string; // e.g. "status=upcoming&limit=20"
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface RawApiResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  durationMs: number;
+}
+
+/**
+ * An error status from the API. The message is the backend's own error when it sent one,
+ * so callers check the status rather than the wording.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+// Single-quote a value for a POSIX shell
+const shellQuote = (value: string): string => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * A header as a curl -H argument. The backend takes the raw token as Authorization (no "Bearer ")
+ */
+export const toCurlHeader = (name: string, value: string): string => `-H ${shellQuote(`${name}: ${value}`)}`;
+
 export class ApiService {
   private config: ApiConfig;
   private environment: Environment;
+  private extraHeadersProvider: ((authToken: string) => Record<string, string> | undefined) | null = null;
 
   constructor(environment: Environment) {
     this.environment = environment;
     this.config = getApiConfig(environment);
   }
 
-  private getHeaders(authToken: string): HeadersInit {
+  /**
+   * Supply additional headers per request, e.g. the header profile of the player whose token is used
+   */
+  setExtraHeadersProvider(provider: ((authToken: string) => Record<string, string> | undefined) | null): void {
+    this.extraHeadersProvider = provider;
+  }
+
+  // The headers the backend sees; the proxy secret is only for the browser -> proxy leg
+  private getUpstreamHeaders(authToken: string, overrides: Record<string, string> = {}): Record<string, string> {
     return {
       'Accept': '*/*',
       'Accept-Encoding': 'gzip, deflate, br',
-      'Authorization': authToken,
       'Connection': 'keep-alive',
       'NOTIFICATION-PERMISSION-STATUS': 'true',
       'User-Agent': 'TambolaMultiPlayerApp/1.0.0',
       'app-key': this.config.appKey,
-      'client-time': Math.floor(Date.now() / 1000).toString()
+      'client-time': Math.floor(Date.now() / 1000).toString(),
+      // Player and request headers may override the defaults above but never the token or proxy secret
+      ...this.extraHeadersProvider?.(authToken),
+      ...overrides,
+      'Authorization': authToken
     };
   }
 
-  async getAppConfig(authToken: string): Promise<AppConfigResponse> {
+  private getHeaders(authToken: string, overrides?: Record<string, string>): Record<string, string> {
+    return {
+      ...this.getUpstreamHeaders(authToken, overrides),
+      ...getProxyClientHeaders()
+    };
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    authToken: string,
+    body?: unknown
+  ): Promise<T> {
     // Use local API proxy to bypass CORS
-    const url = `/api/proxy/app/config?environment=${this.environment}`;
-    
+    const url = `/api/proxy/${path}?environment=${this.environment}`;
+
+    const headers = this.getHeaders(authToken);
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const response = await fetch(url, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new ApiError(errorData.error || `API request failed: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Send an arbitrary request through the proxy. Unlike the typed methods this never
+   * throws on an error status; the response is returned as received.
+   */
+  async send(authToken: string, request: RawApiRequest): Promise<RawApiResponse> {
+    const query = new URLSearchParams(request.query.replace(/^\?/, ''));
+    query.set('environment', this.environment);
+    const url = `/api/proxy/${request.path.replace(/^\/+/, '')}?${query.toString()}`;
+
+    const headers = this.getHeaders(authToken, request.headers);
+    const hasBody = request.method !== 'GET' && request.body.trim() !== '';
+    if (hasBody && !Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const startTime = performance.now();
+    const response = await fetch(url, {
+      method: request.method,
+      headers,
+      body: hasBody ? request.body : undefined
+    });
+    const body = await response.text();
+
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      responseHeaders[name] = value;
+    });
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers: responseHeaders,
+      body,
+      durationMs: Math.round(performance.now() - startTime)
+    };
+  }
+
+  /**
+   * The request as a curl command that calls the backend directly with the player's token
+   */
+  toCurl(authToken: string, request: RawApiRequest): string {
+    const url = new URL(`${this.config.baseUrl}/api/v1/${request.path.replace(/^\/+/, '')}`, window.location.origin);
+    url.search = request.query.replace(/^\?/, '');
+
+    const headers = this.getUpstreamHeaders(authToken, request.headers);
+    const hasBody = request.method !== 'GET' && request.body.trim() !== '';
+    if (hasBody && !Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    return [
+      `curl --compressed -X ${request.method} ${shellQuote(url.toString())}`,
+      ...Object.entries(headers).map(([name, value]) => toCurlHeader(name, value)),
+      ...(hasBody ? [`--data-raw ${shellQuote(request.body)}`] : [])
+    ].join(' \\\n  ');
+  }
+
+  /**
+   * GET any endpoint the proxy allows (see PROXY_ALLOWED_PATH_PREFIXES), relative to the environment's API base
+   */
+  async get<T = unknown>(authToken: string, path: string): Promise<T> {
+    return this.request<T>('GET', path.replace(/^\/+/, ''), authToken);
+  }
+
+  async getAppConfig(authToken: string): Promise<AppConfigResponse> {
+    try {
+      return await this.request<AppConfigResponse>('GET', 'app/config', authToken);
+    } catch (error) {
+      console.error('Error fetching app config:', error);
+      throw error;
+    }
+  }
+
+  async subscribeToTournament(authToken: string, tournamentId: string): Promise<SubscribeResponse> {
     try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: this.getHeaders(authToken)
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || `API request failed: ${response.status} ${response.statusText}`);
+      const data = await this.request<SubscribeResponse>(
+        'POST',
+        'tournament/subscribe',
+        authToken,
+        { tournamentId }
+      );
+
+      // The backend reports business failures (full, already started, ...) with a 200
+      if (data.success === false) {
+        throw new Error(data.error || data.message || 'Subscription rejected by server');
       }
 
-      const data: AppConfigResponse = await response.json();
       return data;
     } catch (error) {
-      console.error('Error fetching app config:', error);
+      console.error(`Error subscribing to tournament ${tournamentId}:`, error);
+      throw error;
+    }
+  }
+
+  async getTickets(authToken: string, tournamentId: string): Promise<TambolaTicket[]> {
+    try {
+      const data = await this.request<TicketsResponse>(
+        'GET',
+        `tournament/${encodeURIComponent(tournamentId)}/tickets`,
+        authToken
+      );
+      return data.tickets;
+    } catch (error) {
+      console.error(`Error fetching tickets for tournament ${tournamentId}:`, error);
+      throw error;
+    }
+  }
+
+  async getGameState(authToken: string, tournamentId: string): Promise<GameState> {
+    try {
+      const data = await this.request<GameStateResponse>(
+        'GET',
+        `tournament/${encodeURIComponent(tournamentId)}/game`,
+        authToken
+      );
+      return data.game;
+    } catch (error) {
+      console.error(`Error fetching game state for tournament ${tournamentId}:`, error);
+      throw error;
+    }
+  }
+
+  async submitClaim(
+    authToken: string,
+    tournamentId: string,
+    ticketId: string,
+    claim: ClaimType
+  ): Promise<ClaimResponse> {
+    try {
+      return await this.request<ClaimResponse>(
+        'POST',
+        `tournament/${encodeURIComponent(tournamentId)}/claim`,
+        authToken,
+        { ticketId, claim }
+      );
+    } catch (error) {
+      console.error(`Error submitting ${claim} claim for ticket ${ticketId}:`, error);
       throw error;
     }
   }
@@ -0,0 +1,65 @@
+import { RawApiRequest } from '@/lib/api-config';
+import { Environment } from '@/lib/environments';
+
+const STORAGE_KEY = 'tambola_api_snippets';
+
+// A named API console request, saved per environment
+export interface ApiSnippet {
+  id: string;
+  name: string;
+  environment: Environment;
+  request: RawApiRequest;
+  savedAt: number;
+}
+
+export class ApiSnippetStorage {
+  private static loadAll(): ApiSnippet[] {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  /**
+   * Load the saved snippets of an environment
+   */
+  static loadSnippets(environment: Environment): ApiSnippet[] {
+    try {
+      return this.loadAll().filter(snippet => snippet.environment === environment);
+    } catch (error) {
+      console.warn('Failed to load API snippets from localStorage:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save a request under a name, replacing the environment's snippet of the same name
+   */
+  static saveSnippet(environment: Environment, name: string, request: RawApiRequest): ApiSnippet {
+    const snippet: ApiSnippet = {
+      id: `snippet-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      environment,
+      request,
+      savedAt: Date.now()
+    };
+
+    try {
+      const snippets = this.loadAll().filter(s => !(s.environment === environment && s.name === name));
+      snippets.push(snippet);
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(snippets));
+    } catch (error) {
+      console.warn('Failed to save API snippet to localStorage:', error);
+    }
+    return snippet;
+  }
+
+  /**
+   * Remove a saved snippet
+   */
+  static removeSnippet(snippetId: string): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.loadAll().filter(s => s.id !== snippetId)));
+    } catch (error) {
+      console.warn('Failed to remove API snippet from localStorage:', error);
+    }
+  }
+}
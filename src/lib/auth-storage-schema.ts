@@ -0,0 +1,131 @@
+import { getTokenExpiry } from '@/lib/jwt';
+import type { StoredAuthUser } from '@/lib/auth-storage';
+
+type StoredRecord = Record<string, unknown>;
+
+// Each migration upgrades one stored user from the version it is indexed by to the
+// next one. Bare arrays written before the envelope existed count as version 0.
+const MIGRATIONS: Array<(user: StoredRecord) => StoredRecord> = [
+  // 0 -> 1: the first builds stored no tokenExpiry
+  user => typeof user.tokenExpiry === 'number'
+    ? user
+    : { ...user, tokenExpiry: getTokenExpiry(String(user.accessToken), Number(user.signInTime) || Date.now()) },
+  // 1 -> 2: before other sign-in providers existed every player signed in with Google
+  user => (user.provider ? user : { ...user, provider: 'google' })
+];
+
+export const AUTH_STORAGE_VERSION = MIGRATIONS.length;
+
+export interface StoredAuthEnvelope {
+  version: number;
+  savedAt: number;
+  users: StoredAuthUser[];
+}
+
+export interface QuarantinedEntry {
+  quarantinedAt: number;
+  reason: string;
+  version: number | null; // schema version it was read as; null when unreadable
+  data: unknown;
+}
+
+export interface StoredUsersResult {
+  users: StoredAuthUser[];
+  quarantined: QuarantinedEntry[];
+  // Whether the stored payload should be rewritten in the current format
+  needsRewrite: boolean;
+  // Schema version of a payload written by a newer build, which must be left untouched
+  newerVersion: number | null;
+}
+
+const isNullableString = (value: unknown): boolean => value === null || value === undefined || typeof value === 'string';
+
+const getInvalidReason = (user: StoredRecord): string | null => {
+  for (const field of ['id', 'accessToken', 'environment', 'uid']) {
+    if (typeof user[field] !== 'string' || !user[field]) return `Missing or invalid ${field}`;
+  }
+  for (const field of ['signInTime', 'tokenExpiry']) {
+    if (typeof user[field] !== 'number' || !Number.isFinite(user[field])) return `Missing or invalid ${field}`;
+  }
+  for (const field of ['refreshToken', 'displayName', 'email', 'photoURL', 'provider', 'slotId', 'personaId']) {
+    if (!isNullableString(user[field])) return `Invalid ${field}`;
+  }
+  if (user.requestHeaders !== undefined && (typeof user.requestHeaders !== 'object' || user.requestHeaders === null)) {
+    return 'Invalid requestHeaders';
+  }
+  return null;
+};
+
+const quarantine = (data: unknown, reason: string, version: number | null): QuarantinedEntry => ({
+  quarantinedAt: Date.now(),
+  reason,
+  version,
+  data
+});
+
+export const createEnvelope = (users: StoredAuthUser[]): StoredAuthEnvelope => ({
+  version: AUTH_STORAGE_VERSION,
+  savedAt: Date.now(),
+  users
+});
+
+/**
+ * Parse the stored users payload, migrating older versions and setting aside
+ * (rather than dropping) anything that can't be read as a valid user
+ */
+export const readStoredUsers = (raw: string | null): StoredUsersResult => {
+  if (!raw) {
+    return { users: [], quarantined: [], needsRewrite: false, newerVersion: null };
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    return { users: [], quarantined: [quarantine(raw, 'Unreadable JSON', null)], needsRewrite: true, newerVersion: null };
+  }
+
+  let version: number;
+  let entries: unknown[];
+  if (Array.isArray(payload)) {
+    version = 0;
+    entries = payload;
+  } else if (
+    payload && typeof payload === 'object' &&
+    typeof (payload as StoredAuthEnvelope).version === 'number' &&
+    Array.isArray((payload as StoredAuthEnvelope).users)
+  ) {
+    version = (payload as StoredAuthEnvelope).version;
+    entries = (payload as StoredAuthEnvelope).users;
+  } else {
+    return { users: [], quarantined: [quarantine(payload, 'Unrecognised storage format', null)], needsRewrite: true, newerVersion: null };
+  }
+
+  // A newer build (e.g. in another tab) still owns this data; rewriting it would sign its players out
+  if (version > AUTH_STORAGE_VERSION) {
+    return { users: [], quarantined: [], needsRewrite: false, newerVersion: version };
+  }
+
+  const users: StoredAuthUser[] = [];
+  const quarantined: QuarantinedEntry[] = [];
+  entries.forEach(entry => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      quarantined.push(quarantine(entry, 'Not a stored user object', version));
+      return;
+    }
+
+    try {
+      const migrated = MIGRATIONS.slice(version).reduce((user, migrate) => migrate(user), entry as StoredRecord);
+      const reason = getInvalidReason(migrated);
+      if (reason) {
+        quarantined.push(quarantine(entry, reason, version));
+      } else {
+        users.push(migrated as unknown as StoredAuthUser);
+      }
+    } catch (error) {
+      quarantined.push(quarantine(entry, `Migration failed: ${error instanceof Error ? error.message : 'Unknown error'}`, version));
+    }
+  });
+
+  return { users, quarantined, needsRewrite: version !== AUTH_STORAGE_VERSION || quarantined.length > 0, newerVersion: null };
+};
@@ -1,9 +1,36 @@
-import { AuthenticatedUser } from '@/types/auth';
-import { Environment } from '@/lib/firebase-config';
+import { AuthenticatedUser, Persona, SignInProvider, SlotSignInSettings } from '@/types/auth';
+import { Environment } from '@/lib/environments';
+import { getTokenExpiry } from '@/lib/jwt';
+import { StorageAdapter, StorageBackend, createStorageAdapter, isStorageBackend } from '@/lib/storage-adapters';
+import { ENCRYPTION_METADATA_KEYS, unlockEncryptedStorage } from '@/lib/storage-encryption';
+import { AUTH_STORAGE_VERSION, QuarantinedEntry, createEnvelope, readStoredUsers } from '@/lib/auth-storage-schema';
+import { publishAuthChange } from '@/lib/auth-sync';
+import { SlotDefinition, normalizeSlotLayout } from '@/lib/slot-layout';
 
 const STORAGE_KEY = 'tambola_auth_users';
+const SLOT_SETTINGS_KEY = 'tambola_slot_sign_in';
+const SLOT_LAYOUT_KEY = 'tambola_slot_layout';
+const PERSONAS_KEY = 'tambola_personas';
+// Stored users that couldn't be read or migrated, kept for inspection instead of being dropped
+const QUARANTINE_KEY = 'tambola_auth_quarantine';
+const QUARANTINE_LIMIT = 50;
+// Always in localStorage: the choice of backend has to survive whatever that backend is
+const STORAGE_SETTINGS_KEY = 'tambola_storage_settings';
+const DATA_KEYS = [STORAGE_KEY, SLOT_SETTINGS_KEY, SLOT_LAYOUT_KEY, PERSONAS_KEY, QUARANTINE_KEY];
+// Web Lock shared by every tab, so read-modify-write cycles from two tabs can't interleave
+const STORAGE_LOCK_NAME = 'tambola-auth-storage';
 const TOKEN_EXPIRY_BUFFER = 5 * 60 * 1000; // 5 minutes buffer before token expires
 
+export interface StorageSettings {
+  backend: StorageBackend;
+  encrypted: boolean;
+}
+
+const DEFAULT_STORAGE_SETTINGS: StorageSettings = {
+  backend: isStorageBackend(process.env.NEXT_PUBLIC_AUTH_STORAGE) ? process.env.NEXT_PUBLIC_AUTH_STORAGE : 'localStorage',
+  encrypted: false
+};
+
 export interface StoredAuthUser {
   id: string;
   accessToken: string;
@@ -15,106 +42,398 @@ export interface StoredAuthUser {
   email: string | null;
   photoURL: string | null;
   uid: string;
+  provider?: SignInProvider;
+  slotId?: string;
+  personaId?: string;
+  requestHeaders?: Record<string, string>;
 }
 
 export class AuthStorage {
+  // null while encrypted storage is waiting for its passphrase
+  private static adapter: StorageAdapter | null = null;
+  private static settings: StorageSettings | null = null;
+  // Serialises read-modify-write operations so concurrent token refreshes don't clobber each other
+  private static queue: Promise<unknown> = Promise.resolve();
+
+  private static enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    const result = this.queue.then(() => (locks ? locks.request(STORAGE_LOCK_NAME, operation) : operation()));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private static getAdapter(): StorageAdapter | null {
+    const settings = this.getSettings();
+    if (!this.adapter && !settings.encrypted) {
+      this.adapter = createStorageAdapter(settings.backend);
+    }
+    return this.adapter;
+  }
+
+  private static async readJson<T>(key: string, fallback: T): Promise<T> {
+    const adapter = this.getAdapter();
+    if (!adapter) return fallback;
+
+    const stored = await adapter.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  }
+
+  private static async writeJson(key: string, value: unknown): Promise<void> {
+    const adapter = this.getAdapter();
+    if (!adapter) {
+      console.warn(`Auth storage is locked; not saving ${key}`);
+      return;
+    }
+    await adapter.setItem(key, JSON.stringify(value));
+  }
+
+  // Test account passwords are only kept when the storage is encrypted; otherwise just the
+  // email is stored and the password has to be entered again after a reload
+  private static withStorablePassword<T extends SlotSignInSettings>(settings: T): T {
+    return this.getSettings().encrypted || settings.password === undefined
+      ? settings
+      : { ...settings, password: undefined };
+  }
+
   /**
-   * Save authenticated users to localStorage
+   * Drop passwords stored in plaintext (saved by earlier builds, or left behind when
+   * encryption was turned off)
    */
-  static saveUsers(users: AuthenticatedUser[]): void {
+  private static async removePlaintextPasswords(): Promise<void> {
+    if (this.getSettings().encrypted) return;
+
+    const settings = await this.readJson<Record<string, Record<string, SlotSignInSettings>>>(SLOT_SETTINGS_KEY, {});
+    const hasPasswords = Object.values(settings).some(slots =>
+      Object.values(slots).some(slot => slot.password !== undefined)
+    );
+    if (hasPasswords) {
+      const scrubbed: Record<string, Record<string, SlotSignInSettings>> = {};
+      Object.entries(settings).forEach(([environment, slots]) => {
+        scrubbed[environment] = {};
+        Object.entries(slots).forEach(([slotId, slot]) => {
+          scrubbed[environment][slotId] = this.withStorablePassword(slot);
+        });
+      });
+      await this.writeJson(SLOT_SETTINGS_KEY, scrubbed);
+    }
+
+    const personas = await this.readJson<Record<string, Persona[]>>(PERSONAS_KEY, {});
+    if (Object.values(personas).some(list => list.some(persona => persona.password !== undefined))) {
+      const scrubbed: Record<string, Persona[]> = {};
+      Object.entries(personas).forEach(([environment, list]) => {
+        scrubbed[environment] = list.map(persona => this.withStorablePassword(persona));
+      });
+      await this.writeJson(PERSONAS_KEY, scrubbed);
+    }
+  }
+
+  /**
+   * The configured backend and whether it is encrypted
+   */
+  static getSettings(): StorageSettings {
+    if (this.settings) return this.settings;
+
+    // Server rendering has no localStorage; don't cache the defaults used there
+    if (typeof window === 'undefined') return DEFAULT_STORAGE_SETTINGS;
+
     try {
-      const storedUsers: StoredAuthUser[] = users.map(user => ({
-        id: user.id,
-        accessToken: user.accessToken,
-        refreshToken: user.refreshToken,
-        environment: user.environment,
-        signInTime: user.signInTime,
-        tokenExpiry: user.tokenExpiry || (user.signInTime + (60 * 60 * 1000)), // Use existing expiry or 1 hour from sign in
-        displayName: user.displayName,
-        email: user.email,
-        photoURL: user.photoURL,
-        uid: user.user.uid,
-      }));
-
-      console.log(`Saving ${users.length} users to localStorage:`, storedUsers.map(u => u.displayName));
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(storedUsers));
+      const stored = localStorage.getItem(STORAGE_SETTINGS_KEY);
+      const parsed: Partial<StorageSettings> = stored ? JSON.parse(stored) : {};
+      this.settings = {
+        backend: isStorageBackend(parsed.backend) ? parsed.backend : DEFAULT_STORAGE_SETTINGS.backend,
+        encrypted: parsed.encrypted ?? DEFAULT_STORAGE_SETTINGS.encrypted
+      };
     } catch (error) {
-      console.warn('Failed to save auth users to localStorage:', error);
+      console.warn('Failed to load storage settings from localStorage:', error);
+      this.settings = DEFAULT_STORAGE_SETTINGS;
     }
+    return this.settings;
+  }
+
+  /**
+   * Whether encrypted storage still needs its passphrase
+   */
+  static isLocked(): boolean {
+    return this.getAdapter() === null;
+  }
+
+  /**
+   * Unlock encrypted storage. Throws when the passphrase is wrong.
+   */
+  static async unlock(passphrase: string): Promise<void> {
+    const settings = this.getSettings();
+    if (!settings.encrypted) return;
+
+    this.adapter = await unlockEncryptedStorage(createStorageAdapter(settings.backend), passphrase);
+  }
+
+  /**
+   * Forget the encryption key until the passphrase is entered again
+   */
+  static lock(): void {
+    if (this.getSettings().encrypted) {
+      this.adapter = null;
+    }
+  }
+
+  /**
+   * Re-read the storage settings, e.g. after another tab changed them
+   */
+  static reloadSettings(): void {
+    this.settings = null;
+    this.adapter = null;
+  }
+
+  /**
+   * Switch backend and/or encryption, moving the stored users and slot settings
+   * across. Storage must be unlocked; a passphrase is required when encrypting.
+   */
+  static configure(settings: StorageSettings, passphrase?: string): Promise<void> {
+    return this.enqueue(async () => {
+      const current = this.getAdapter();
+      if (!current) {
+        throw new Error('Unlock the current storage before changing it');
+      }
+
+      const target = createStorageAdapter(settings.backend);
+      const next = settings.encrypted ? await unlockEncryptedStorage(target, passphrase || '') : target;
+
+      const movesBackend = settings.backend !== current.backend;
+      if (movesBackend || settings.encrypted !== this.getSettings().encrypted) {
+        // Write everything before deleting anything, so a failure can't lose data
+        for (const key of DATA_KEYS) {
+          const value = await current.getItem(key);
+          await (value === null ? next.removeItem(key) : next.setItem(key, value));
+        }
+        if (movesBackend) {
+          for (const key of DATA_KEYS) {
+            await current.removeItem(key);
+          }
+        }
+        if (movesBackend || !settings.encrypted) {
+          for (const key of ENCRYPTION_METADATA_KEYS) {
+            await current.removeItem(key);
+          }
+        }
+      }
+
+      localStorage.setItem(STORAGE_SETTINGS_KEY, JSON.stringify(settings));
+      this.settings = settings;
+      this.adapter = next;
+      await this.removePlaintextPasswords();
+      publishAuthChange({ type: 'storage-configured' });
+    });
+  }
+
+  /**
+   * Delete everything in the configured backend, including the encryption salt,
+   * so a forgotten passphrase can be replaced by a new one
+   */
+  static reset(): Promise<void> {
+    return this.enqueue(async () => {
+      const target = createStorageAdapter(this.getSettings().backend);
+      for (const key of [...DATA_KEYS, ...ENCRYPTION_METADATA_KEYS]) {
+        await target.removeItem(key);
+      }
+      this.adapter = null;
+    });
+  }
+
+  /**
+   * Save authenticated users to the configured storage. Users are merged into what
+   * is stored (other tabs and environments keep theirs); when both sides have the
+   * same user, the incoming details are saved but the later-expiring token wins.
+   */
+  static saveUsers(users: AuthenticatedUser[]): Promise<void> {
+    return this.enqueue(async () => {
+      try {
+        const storedUsers = await this.readValidUsers();
+        if (!storedUsers) return;
+        const changedIds: string[] = [];
+
+        users.forEach(user => {
+          const incoming: StoredAuthUser = {
+            id: user.id,
+            accessToken: user.accessToken,
+            refreshToken: user.refreshToken,
+            environment: user.environment,
+            signInTime: user.signInTime,
+            tokenExpiry: getTokenExpiry(user.accessToken, user.signInTime), // The token's own exp claim
+            displayName: user.displayName,
+            email: user.email,
+            photoURL: user.photoURL,
+            uid: user.user.uid,
+            provider: user.provider,
+            slotId: user.slotId,
+            personaId: user.personaId,
+            requestHeaders: user.requestHeaders,
+          };
+
+          const index = storedUsers.findIndex(u => u.id === user.id);
+          if (index === -1) {
+            storedUsers.push(incoming);
+            changedIds.push(user.id);
+          } else {
+            const stored = storedUsers[index];
+            const merged: StoredAuthUser = incoming.tokenExpiry > stored.tokenExpiry
+              ? incoming
+              : {
+                ...incoming,
+                accessToken: stored.accessToken,
+                refreshToken: stored.refreshToken,
+                signInTime: stored.signInTime,
+                tokenExpiry: stored.tokenExpiry
+              };
+            if (JSON.stringify(merged) !== JSON.stringify(stored)) {
+              storedUsers[index] = merged;
+              changedIds.push(user.id);
+            }
+          }
+        });
+
+        if (changedIds.length === 0) return;
+
+        console.log(`Saving ${changedIds.length} users to storage:`, storedUsers.filter(u => changedIds.includes(u.id)).map(u => u.displayName));
+        await this.writeJson(STORAGE_KEY, createEnvelope(storedUsers));
+        publishAuthChange({ type: 'users-saved', userIds: changedIds });
+      } catch (error) {
+        console.warn('Failed to save auth users to storage:', error);
+      }
+    });
   }
 
   /**
-   * Load authenticated users from localStorage
+   * Load authenticated users from the configured storage
    */
-  static loadUsers(): StoredAuthUser[] {
+  static loadUsers(): Promise<StoredAuthUser[]> {
+    return this.enqueue(async () => (await this.readValidUsers()) || []);
+  }
+
+  /**
+   * Stored users that haven't expired, or null when the data was written by a newer
+   * schema version, which this build can't read and must not overwrite
+   */
+  private static async readValidUsers(): Promise<StoredAuthUser[] | null> {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (!stored) return [];
+      const adapter = this.getAdapter();
+      if (!adapter) return [];
+
+      const { users, quarantined, needsRewrite, newerVersion } = readStoredUsers(await adapter.getItem(STORAGE_KEY));
+      if (newerVersion !== null) {
+        console.warn(`Stored players were written by a newer build (schema v${newerVersion}, this build reads up to v${AUTH_STORAGE_VERSION}); leaving them untouched`);
+        return null;
+      }
+      if (quarantined.length > 0) {
+        console.warn(`Quarantined ${quarantined.length} unreadable stored users:`, quarantined.map(q => q.reason));
+        const existing = await this.readJson<QuarantinedEntry[]>(QUARANTINE_KEY, []);
+        await this.writeJson(QUARANTINE_KEY, [...existing, ...quarantined].slice(-QUARANTINE_LIMIT));
+      }
 
-      const users: StoredAuthUser[] = JSON.parse(stored);
-      
       // Filter out expired tokens (beyond buffer time)
-      const validUsers = users.filter(user => 
+      const validUsers = users.filter(user =>
         user.tokenExpiry > Date.now() + TOKEN_EXPIRY_BUFFER
       );
 
-      // Update storage if we removed any expired users
+      // Update storage if we migrated, quarantined or removed any expired users
       if (validUsers.length !== users.length) {
-        console.log(`Removed ${users.length - validUsers.length} expired users from localStorage`);
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(validUsers));
+        console.log(`Removed ${users.length - validUsers.length} expired users from storage`);
+      }
+      if (needsRewrite || validUsers.length !== users.length) {
+        await this.writeJson(STORAGE_KEY, createEnvelope(validUsers));
       }
 
       return validUsers;
     } catch (error) {
-      console.warn('Failed to load auth users from localStorage:', error);
+      console.warn('Failed to load auth users from storage:', error);
       return [];
     }
   }
 
   /**
-   * Update a specific user's token in localStorage
+   * Update a specific user's token in storage
    */
-  static updateUserToken(userId: string, accessToken: string, refreshToken?: string): void {
-    try {
-      const users = this.loadUsers();
-      const userIndex = users.findIndex(u => u.id === userId);
-      
-      if (userIndex !== -1) {
-        users[userIndex].accessToken = accessToken;
-        users[userIndex].tokenExpiry = Date.now() + (60 * 60 * 1000); // Reset expiry to 1 hour
-        if (refreshToken) {
-          users[userIndex].refreshToken = refreshToken;
+  static updateUserToken(userId: string, accessToken: string, refreshToken?: string): Promise<void> {
+    return this.enqueue(async () => {
+      try {
+        const users = await this.readValidUsers();
+        if (!users) return;
+        const userIndex = users.findIndex(u => u.id === userId);
+
+        // Another tab may already have stored a newer token
+        if (userIndex !== -1 && getTokenExpiry(accessToken) > users[userIndex].tokenExpiry) {
+          users[userIndex].accessToken = accessToken;
+          users[userIndex].tokenExpiry = getTokenExpiry(accessToken);
+          if (refreshToken) {
+            users[userIndex].refreshToken = refreshToken;
+          }
+
+          await this.writeJson(STORAGE_KEY, createEnvelope(users));
+          publishAuthChange({ type: 'token-updated', userId });
         }
-        
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(users));
+      } catch (error) {
+        console.warn('Failed to update user token in storage:', error);
       }
-    } catch (error) {
-      console.warn('Failed to update user token in localStorage:', error);
-    }
+    });
   }
 
   /**
-   * Remove a specific user from localStorage
+   * Remove a specific user from storage
    */
-  static removeUser(userId: string): void {
-    try {
-      const users = this.loadUsers();
-      const filteredUsers = users.filter(u => u.id !== userId);
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(filteredUsers));
-    } catch (error) {
-      console.warn('Failed to remove user from localStorage:', error);
-    }
+  static removeUser(userId: string): Promise<void> {
+    return this.enqueue(async () => {
+      try {
+        const users = await this.readValidUsers();
+        if (!users || !users.some(u => u.id === userId)) return;
+
+        await this.writeJson(STORAGE_KEY, createEnvelope(users.filter(u => u.id !== userId)));
+        publishAuthChange({ type: 'user-removed', userId });
+      } catch (error) {
+        console.warn('Failed to remove user from storage:', error);
+      }
+    });
   }
 
   /**
-   * Clear all users from localStorage
+   * Clear all users of an environment from storage
    */
-  static clearAll(): void {
-    try {
-      localStorage.removeItem(STORAGE_KEY);
-    } catch (error) {
-      console.warn('Failed to clear auth users from localStorage:', error);
-    }
+  static clearAll(environment: Environment): Promise<void> {
+    return this.enqueue(async () => {
+      try {
+        const users = await this.readValidUsers();
+        if (!users) return;
+        await this.writeJson(STORAGE_KEY, createEnvelope(users.filter(u => u.environment !== environment)));
+        publishAuthChange({ type: 'users-cleared', environment });
+      } catch (error) {
+        console.warn('Failed to clear auth users from storage:', error);
+      }
+    });
+  }
+
+  /**
+   * Stored users that were set aside because they couldn't be read or migrated
+   */
+  static loadQuarantine(): Promise<QuarantinedEntry[]> {
+    return this.enqueue(async () => {
+      try {
+        return await this.readJson<QuarantinedEntry[]>(QUARANTINE_KEY, []);
+      } catch (error) {
+        console.warn('Failed to load quarantined users from storage:', error);
+        return [];
+      }
+    });
+  }
+
+  /**
+   * Discard the quarantined users
+   */
+  static clearQuarantine(): Promise<void> {
+    return this.enqueue(async () => {
+      try {
+        await this.getAdapter()?.removeItem(QUARANTINE_KEY);
+      } catch (error) {
+        console.warn('Failed to clear quarantined users from storage:', error);
+      }
+    });
   }
 
   /**
@@ -124,6 +443,100 @@ export class AuthStorage {
     return user.tokenExpiry <= Date.now() + TOKEN_EXPIRY_BUFFER;
   }
 
+  /**
+   * Load the sign-in provider chosen for each player slot in an environment
+   */
+  static loadSlotSettings(environment: Environment): Promise<Record<string, SlotSignInSettings>> {
+    return this.enqueue(async () => {
+      try {
+        await this.removePlaintextPasswords();
+        const settings = await this.readJson<Record<string, Record<string, SlotSignInSettings>>>(SLOT_SETTINGS_KEY, {});
+        return settings[environment] || {};
+      } catch (error) {
+        console.warn('Failed to load slot sign-in settings from storage:', error);
+        return {};
+      }
+    });
+  }
+
+  /**
+   * Remember the sign-in provider (and test account email) for a player slot. The
+   * password is only kept when the storage is encrypted.
+   */
+  static saveSlotSettings(environment: Environment, slotId: string, slotSettings: SlotSignInSettings): Promise<void> {
+    return this.enqueue(async () => {
+      try {
+        const settings = await this.readJson<Record<string, Record<string, SlotSignInSettings>>>(SLOT_SETTINGS_KEY, {});
+        settings[environment] = { ...settings[environment], [slotId]: this.withStorablePassword(slotSettings) };
+        await this.writeJson(SLOT_SETTINGS_KEY, settings);
+      } catch (error) {
+        console.warn('Failed to save slot sign-in settings to storage:', error);
+      }
+    });
+  }
+
+  /**
+   * Load the player slot layout (ids, labels, colours and order) of an environment.
+   * Null when none was saved yet.
+   */
+  static loadSlotLayout(environment: Environment): Promise<SlotDefinition[] | null> {
+    return this.enqueue(async () => {
+      try {
+        const layouts = await this.readJson<Record<string, unknown>>(SLOT_LAYOUT_KEY, {});
+        return normalizeSlotLayout(layouts[environment]);
+      } catch (error) {
+        console.warn('Failed to load slot layout from storage:', error);
+        return null;
+      }
+    });
+  }
+
+  /**
+   * Save the player slot layout of an environment
+   */
+  static saveSlotLayout(environment: Environment, layout: SlotDefinition[]): Promise<void> {
+    return this.enqueue(async () => {
+      try {
+        const layouts = await this.readJson<Record<string, SlotDefinition[]>>(SLOT_LAYOUT_KEY, {});
+        layouts[environment] = layout;
+        await this.writeJson(SLOT_LAYOUT_KEY, layouts);
+      } catch (error) {
+        console.warn('Failed to save slot layout to storage:', error);
+      }
+    });
+  }
+
+  /**
+   * Load the saved personas of an environment
+   */
+  static loadPersonas(environment: Environment): Promise<Persona[]> {
+    return this.enqueue(async () => {
+      try {
+        await this.removePlaintextPasswords();
+        const personas = await this.readJson<Record<string, Persona[]>>(PERSONAS_KEY, {});
+        return personas[environment] || [];
+      } catch (error) {
+        console.warn('Failed to load personas from storage:', error);
+        return [];
+      }
+    });
+  }
+
+  /**
+   * Save the personas of an environment. Passwords are only kept when the storage is encrypted.
+   */
+  static savePersonas(environment: Environment, environmentPersonas: Persona[]): Promise<void> {
+    return this.enqueue(async () => {
+      try {
+        const personas = await this.readJson<Record<string, Persona[]>>(PERSONAS_KEY, {});
+        personas[environment] = environmentPersonas.map(persona => this.withStorablePassword(persona));
+        await this.writeJson(PERSONAS_KEY, personas);
+      } catch (error) {
+        console.warn('Failed to save personas to storage:', error);
+      }
+    });
+  }
+
   /**
    * Convert stored users back to AuthenticatedUser format (partial)
    */
@@ -137,6 +550,10 @@ export class AuthStorage {
       displayName: stored.displayName,
       email: stored.email,
       photoURL: stored.photoURL,
+      provider: stored.provider,
+      slotId: stored.slotId,
+      personaId: stored.personaId,
+      requestHeaders: stored.requestHeaders,
     }));
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,88 @@
+import { Environment } from '@/lib/environments';
+
+const CHANNEL_NAME = 'tambola-auth';
+// Fallback for browsers without BroadcastChannel: other tabs get a storage event per write
+const FALLBACK_STORAGE_KEY = 'tambola_auth_sync';
+
+export type AuthSyncMessage =
+  | { type: 'users-saved'; userIds: string[] }
+  | { type: 'user-removed'; userId: string }
+  | { type: 'users-cleared'; environment: Environment }
+  | { type: 'token-updated'; userId: string }
+  | { type: 'environment-changed'; environment: Environment }
+  | { type: 'storage-configured' }
+  | { type: 'claims-changed' };
+
+interface AuthSyncEnvelope {
+  tabId: string;
+  nonce: string;
+  message: AuthSyncMessage;
+}
+
+// Identifies this tab in sync messages and player claims
+export const TAB_ID = `tab-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+let channel: BroadcastChannel | null = null;
+
+const getChannel = (): BroadcastChannel | null => {
+  if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') return null;
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+};
+
+/**
+ * Tell the other open tabs about a change made in this one
+ */
+export const publishAuthChange = (message: AuthSyncMessage): void => {
+  if (typeof window === 'undefined') return;
+
+  const envelope: AuthSyncEnvelope = {
+    tabId: TAB_ID,
+    nonce: Math.random().toString(36).substr(2, 9),
+    message
+  };
+
+  try {
+    const broadcast = getChannel();
+    if (broadcast) {
+      broadcast.postMessage(envelope);
+    } else {
+      localStorage.setItem(FALLBACK_STORAGE_KEY, JSON.stringify(envelope));
+    }
+  } catch (error) {
+    console.warn('Failed to publish auth change to other tabs:', error);
+  }
+};
+
+/**
+ * Listen for changes made in other tabs. Returns an unsubscribe function.
+ */
+export const subscribeToAuthChanges = (listener: (message: AuthSyncMessage) => void): (() => void) => {
+  if (typeof window === 'undefined') return () => undefined;
+
+  const deliver = (envelope: AuthSyncEnvelope | null) => {
+    if (envelope && envelope.tabId !== TAB_ID) {
+      listener(envelope.message);
+    }
+  };
+
+  const broadcast = getChannel();
+  if (broadcast) {
+    const handleMessage = (event: MessageEvent<AuthSyncEnvelope>) => deliver(event.data);
+    broadcast.addEventListener('message', handleMessage);
+    return () => broadcast.removeEventListener('message', handleMessage);
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== FALLBACK_STORAGE_KEY || !event.newValue) return;
+    try {
+      deliver(JSON.parse(event.newValue));
+    } catch {
+      // Not a message we wrote
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+};
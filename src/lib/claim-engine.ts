@@ -0,0 +1,202 @@
+import { TambolaTicket } from '@/types/auth';
+import { NUMBERS_PER_ROW, getTicketNumbers } from '@/lib/tambola-ticket';
+
+export type ClaimType = keyof TambolaTicket['claims'];
+
+// In the order prizes are normally announced
+export const CLAIM_TYPES: ClaimType[] = ['earlyFive', 'topLine', 'middleLine', 'bottomLine', 'fullHouse'];
+
+export const CLAIM_LABELS: Record<ClaimType, string> = {
+  earlyFive: 'Early Five',
+  topLine: 'Top Line',
+  middleLine: 'Middle Line',
+  bottomLine: 'Bottom Line',
+  fullHouse: 'Full House'
+};
+
+const EARLY_FIVE_COUNT = 5;
+const LINE_ROWS: Partial<Record<ClaimType, number>> = {
+  topLine: 0,
+  middleLine: 1,
+  bottomLine: 2
+};
+
+export interface ClaimStatus {
+  satisfied: boolean;
+  // Index into the called numbers of the call that first completed the claim
+  callIndex: number | null;
+}
+
+export type ClaimEvaluation = Record<ClaimType, ClaimStatus>;
+
+export interface ClaimVerification {
+  claim: ClaimType;
+  valid: boolean;
+  callIndex: number | null;
+  reason?: string;
+}
+
+export interface ClaimWinner {
+  ticketId: string;
+  userId: string;
+  callIndex: number;
+}
+
+export interface PrizeAward {
+  claim: ClaimType;
+  callIndex: number;
+  winners: ClaimWinner[];
+}
+
+/**
+ * Map each called number to the index of its first call, ignoring repeats
+ */
+const indexCalls = (calledNumbers: number[]): Map<number, number> => {
+  const calls = new Map<number, number>();
+  calledNumbers.forEach((value, index) => {
+    if (!calls.has(value)) {
+      calls.set(value, index);
+    }
+  });
+  return calls;
+};
+
+/**
+ * Call index at which the given numbers were all called, or null if some never were
+ */
+const completionIndex = (values: number[], calls: Map<number, number>): number | null => {
+  let latest = -1;
+  for (const value of values) {
+    const index = calls.get(value);
+    if (index === undefined) return null;
+    latest = Math.max(latest, index);
+  }
+  return latest;
+};
+
+/**
+ * Call index at which the first `count` of the given numbers had been called
+ */
+const nthCallIndex = (values: number[], count: number, calls: Map<number, number>): number | null => {
+  const indices = values
+    .map(value => calls.get(value))
+    .filter((index): index is number => index !== undefined)
+    .sort((a, b) => a - b);
+  return indices.length >= count ? indices[count - 1] : null;
+};
+
+const toStatus = (callIndex: number | null): ClaimStatus => ({
+  satisfied: callIndex !== null,
+  callIndex
+});
+
+const getClaimCallIndex = (
+  claim: ClaimType,
+  numbers: number[][],
+  calls: Map<number, number>
+): number | null => {
+  if (claim === 'earlyFive') {
+    return nthCallIndex(getTicketNumbers(numbers), EARLY_FIVE_COUNT, calls);
+  }
+  if (claim === 'fullHouse') {
+    return completionIndex(getTicketNumbers(numbers), calls);
+  }
+
+  const values = (numbers[LINE_ROWS[claim]!] || []).filter(cell => cell !== 0);
+  return values.length === NUMBERS_PER_ROW ? completionIndex(values, calls) : null;
+};
+
+/**
+ * Work out which claims a ticket satisfies given the ordered list of called numbers
+ */
+export const evaluateClaims = (numbers: number[][], calledNumbers: number[]): ClaimEvaluation => {
+  const calls = indexCalls(calledNumbers);
+
+  return CLAIM_TYPES.reduce((evaluation, claim) => {
+    evaluation[claim] = toStatus(getClaimCallIndex(claim, numbers, calls));
+    return evaluation;
+  }, {} as ClaimEvaluation);
+};
+
+/**
+ * Flatten an evaluation into the shape of TambolaTicket['claims']
+ */
+export const getSatisfiedClaims = (evaluation: ClaimEvaluation): TambolaTicket['claims'] => {
+  return CLAIM_TYPES.reduce((claims, claim) => {
+    claims[claim] = evaluation[claim].satisfied;
+    return claims;
+  }, {} as TambolaTicket['claims']);
+};
+
+/**
+ * Check a claim made after `atCallIndex` calls had been made (defaults to all of them).
+ * A claim is early if it only became valid after that point, and bogus if it never did.
+ */
+export const verifyClaim = (
+  numbers: number[][],
+  calledNumbers: number[],
+  claim: ClaimType,
+  atCallIndex: number = calledNumbers.length - 1
+): ClaimVerification => {
+  const { callIndex } = evaluateClaims(numbers, calledNumbers)[claim];
+
+  if (callIndex === null) {
+    return { claim, valid: false, callIndex, reason: `${CLAIM_LABELS[claim]} is not complete on this ticket` };
+  }
+
+  if (callIndex > atCallIndex) {
+    return {
+      claim,
+      valid: false,
+      callIndex,
+      reason: `${CLAIM_LABELS[claim]} claimed at call ${atCallIndex + 1} but only completed at call ${callIndex + 1}`
+    };
+  }
+
+  return { claim, valid: true, callIndex };
+};
+
+/**
+ * Find the winners of each claim: every ticket that completed it at the earliest call.
+ * Tickets completing on the same call share the prize.
+ */
+export const determineWinners = (
+  tickets: TambolaTicket[],
+  calledNumbers: number[]
+): Record<ClaimType, ClaimWinner[]> => {
+  const winners = CLAIM_TYPES.reduce((result, claim) => {
+    result[claim] = [];
+    return result;
+  }, {} as Record<ClaimType, ClaimWinner[]>);
+
+  for (const ticket of tickets) {
+    const evaluation = evaluateClaims(ticket.numbers, calledNumbers);
+
+    for (const claim of CLAIM_TYPES) {
+      const { callIndex } = evaluation[claim];
+      if (callIndex === null) continue;
+
+      const current = winners[claim][0];
+      const winner = { ticketId: ticket.ticketId, userId: ticket.userId, callIndex };
+      if (!current || callIndex < current.callIndex) {
+        winners[claim] = [winner];
+      } else if (callIndex === current.callIndex) {
+        winners[claim].push(winner);
+      }
+    }
+  }
+
+  return winners;
+};
+
+/**
+ * Prizes in the order they should have been awarded during the game
+ */
+export const getPrizeOrder = (tickets: TambolaTicket[], calledNumbers: number[]): PrizeAward[] => {
+  const winners = determineWinners(tickets, calledNumbers);
+
+  return CLAIM_TYPES
+    .filter(claim => winners[claim].length > 0)
+    .map(claim => ({ claim, callIndex: winners[claim][0].callIndex, winners: winners[claim] }))
+    .sort((a, b) => a.callIndex - b.callIndex || CLAIM_TYPES.indexOf(a.claim) - CLAIM_TYPES.indexOf(b.claim));
+};
@@ -0,0 +1,235 @@
+// Registry of the backends this app can test against.
+//
+// The built-in entries (test, production and the local mock backend) can be
+// overridden and extended without code changes through NEXT_PUBLIC_ENVIRONMENTS,
+// a JSON array of environment entries. Entries are merged by id, so a partial
+// entry tweaks a built-in one and an entry with a new id adds an environment:
+//
+//   NEXT_PUBLIC_ENVIRONMENTS='[
+//     { "id": "staging", "label": "Staging", "baseUrl": "https://bluboy.ddns.net/staging1",
+//       "appKey": "staging-key", "firebase": "test", "color": "orange" }
+//   ]'
+//
+// "firebase" is either a full Firebase config object or the id of another
+// environment whose Firebase project should be reused. "authEmulatorUrl"
+// (e.g. "http://127.0.0.1:9099") connects every player's Auth instance to a
+// local Firebase Auth emulator instead of the real project.
+// NEXT_PUBLIC_DEFAULT_ENVIRONMENT picks the environment selected on load, and
+// NEXT_PUBLIC_MOCK_AUTH_EMULATOR_URL sets the mock environment's emulator.
+
+export type Environment = string;
+
+const COLORS = ['blue', 'green', 'purple', 'orange', 'red', 'yellow', 'gray'] as const;
+const ICONS = ['test', 'production', 'server', 'globe'] as const;
+
+export type EnvironmentColor = typeof COLORS[number];
+
+export type EnvironmentIcon = typeof ICONS[number];
+
+export interface FirebaseConfig {
+  apiKey: string;
+  authDomain: string;
+  projectId: string;
+  storageBucket: string;
+  messagingSenderId: string;
+  appId: string;
+  measurementId?: string;
+}
+
+export interface EnvironmentDefinition {
+  id: Environment;
+  label: string;
+  description: string;
+  baseUrl: string; // absolute, except MOCK_BASE_URL which is served by this app
+  appKey: string;
+  firebase: FirebaseConfig;
+  color: EnvironmentColor;
+  icon: EnvironmentIcon;
+  authEmulatorUrl?: string;
+}
+
+type EnvironmentOverride = Partial<Omit<EnvironmentDefinition, 'firebase'>> & {
+  id: Environment;
+  firebase?: FirebaseConfig | Environment;
+};
+
+// Mock backend served by this app's own /api/mock routes (see src/lib/mock-backend.ts).
+// The proxy calls it in-process rather than fetching this app over HTTP.
+export const MOCK_BASE_URL = '/api/mock';
+
+const testFirebaseConfig: FirebaseConfig = {
+  apiKey: process.env.NEXT_PUBLIC_FIREBASE_TEST_API_KEY!,
+  authDomain: process.env.NEXT_PUBLIC_FIREBASE_TEST_AUTH_DOMAIN!,
+  projectId: process.env.NEXT_PUBLIC_FIREBASE_TEST_PROJECT_ID!,
+  storageBucket: process.env.NEXT_PUBLIC_FIREBASE_TEST_STORAGE_BUCKET!,
+  messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_TEST_MESSAGING_SENDER_ID!,
+  appId: process.env.NEXT_PUBLIC_FIREBASE_TEST_APP_ID!,
+  measurementId: process.env.NEXT_PUBLIC_FIREBASE_TEST_MEASUREMENT_ID!
+};
+
+const prodFirebaseConfig: FirebaseConfig = {
+  apiKey: process.env.NEXT_PUBLIC_FIREBASE_PROD_API_KEY!,
+  authDomain: process.env.NEXT_PUBLIC_FIREBASE_PROD_AUTH_DOMAIN!,
+  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROD_PROJECT_ID!,
+  storageBucket: process.env.NEXT_PUBLIC_FIREBASE_PROD_STORAGE_BUCKET!,
+  messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_PROD_MESSAGING_SENDER_ID!,
+  appId: process.env.NEXT_PUBLIC_FIREBASE_PROD_APP_ID!,
+  measurementId: process.env.NEXT_PUBLIC_FIREBASE_PROD_MEASUREMENT_ID!
+};
+
+const BUILT_IN_ENVIRONMENTS: EnvironmentDefinition[] = [
+  {
+    id: 'test',
+    label: 'Test',
+    description: 'Development testing',
+    baseUrl: 'https://bluboy.ddns.net/test1',
+    appKey: 'test-key',
+    firebase: testFirebaseConfig,
+    color: 'blue',
+    icon: 'test'
+  },
+  {
+    id: 'production',
+    label: 'Production',
+    description: 'Live environment',
+    baseUrl: 'https://bluboy.ddns.net/prod1',
+    appKey: 'test-key', // the backend accepts the same app-key in both environments
+    firebase: prodFirebaseConfig,
+    color: 'green',
+    icon: 'production'
+  },
+  {
+    // Talks to the built-in mock backend but still signs players in against the test Firebase project
+    id: 'mock',
+    label: 'Mock',
+    description: 'Local offline backend',
+    baseUrl: MOCK_BASE_URL,
+    appKey: 'mock-key',
+    firebase: testFirebaseConfig,
+    color: 'purple',
+    icon: 'server',
+    // Point at a local Auth emulator to run the whole flow without network access
+    authEmulatorUrl: process.env.NEXT_PUBLIC_MOCK_AUTH_EMULATOR_URL || undefined
+  }
+];
+
+const parseOverrides = (): EnvironmentOverride[] => {
+  const raw = process.env.NEXT_PUBLIC_ENVIRONMENTS;
+  if (!raw) return [];
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      throw new Error('expected a JSON array');
+    }
+    return parsed.filter((entry): entry is EnvironmentOverride => {
+      if (!entry || typeof entry.id !== 'string' || !entry.id) {
+        console.warn('Ignoring environment entry without an id:', entry);
+        return false;
+      }
+      return true;
+    });
+  } catch (error) {
+    console.warn('Invalid NEXT_PUBLIC_ENVIRONMENTS, using built-in environments:', error);
+    return [];
+  }
+};
+
+const buildRegistry = (): EnvironmentDefinition[] => {
+  const registry = BUILT_IN_ENVIRONMENTS.map(environment => ({ ...environment }));
+
+  parseOverrides().forEach(override => {
+    const existing = registry.find(environment => environment.id === override.id);
+    const { firebase, ...fields } = override;
+
+    let firebaseConfig = existing?.firebase || testFirebaseConfig;
+    if (typeof firebase === 'string') {
+      const source = registry.find(environment => environment.id === firebase);
+      if (source) {
+        firebaseConfig = source.firebase;
+      } else {
+        console.warn(`Environment "${override.id}" references unknown Firebase environment "${firebase}"`);
+      }
+    } else if (firebase) {
+      firebaseConfig = firebase;
+    }
+
+    const merged: EnvironmentDefinition = {
+      label: override.id,
+      description: '',
+      baseUrl: '',
+      appKey: 'test-key',
+      color: 'gray',
+      icon: 'globe',
+      ...existing,
+      ...fields,
+      firebase: firebaseConfig
+    };
+
+    if (!COLORS.includes(merged.color)) {
+      console.warn(`Environment "${override.id}" has unknown color "${merged.color}"`);
+      merged.color = 'gray';
+    }
+    if (!ICONS.includes(merged.icon)) {
+      merged.icon = 'globe';
+    }
+
+    if (!merged.baseUrl) {
+      console.warn(`Ignoring environment "${override.id}" without a baseUrl`);
+      return;
+    }
+    if (merged.baseUrl !== MOCK_BASE_URL && !/^https?:\/\//.test(merged.baseUrl)) {
+      console.warn(`Ignoring environment "${override.id}": baseUrl must be an absolute http(s) URL`);
+      return;
+    }
+
+    if (existing) {
+      registry[registry.indexOf(existing)] = merged;
+    } else {
+      registry.push(merged);
+    }
+  });
+
+  return registry;
+};
+
+const registry = buildRegistry();
+
+export const getEnvironments = (): EnvironmentDefinition[] => registry;
+
+export const getEnvironment = (id: Environment): EnvironmentDefinition | null => {
+  return registry.find(environment => environment.id === id) || null;
+};
+
+export const getEnvironmentLabel = (id: Environment): string => {
+  return getEnvironment(id)?.label || id;
+};
+
+export const isKnownEnvironment = (id: string): boolean => {
+  return getEnvironment(id) !== null;
+};
+
+/**
+ * Whether an environment holds real accounts: the production entry, or any environment
+ * signing players in against the production Firebase project
+ */
+export const isProductionEnvironment = (id: Environment): boolean => {
+  const environment = getEnvironment(id);
+  if (!environment) return false;
+  return environment.icon === 'production' ||
+    (Boolean(prodFirebaseConfig.projectId) && environment.firebase.projectId === prodFirebaseConfig.projectId);
+};
+
+/**
+ * Look up an environment, throwing for ids that aren't in the registry
+ */
+export const requireEnvironment = (id: Environment): EnvironmentDefinition => {
+  const environment = getEnvironment(id);
+  if (!environment) {
+    throw new Error(`Unknown environment: ${id}`);
+  }
+  return environment;
+};
+
+export const DEFAULT_ENVIRONMENT: Environment =
+  getEnvironment(process.env.NEXT_PUBLIC_DEFAULT_ENVIRONMENT || '')?.id || registry[0].id;
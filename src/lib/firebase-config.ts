@@ -1,31 +1,19 @@
 import { initializeApp, FirebaseApp, deleteApp } from "firebase/app";
-import { getAuth, Auth } from "firebase/auth";
+import { getAuth, Auth, connectAuthEmulator } from "firebase/auth";
 import { getAnalytics, Analytics } from "firebase/analytics";
+import { Environment, FirebaseConfig, requireEnvironment } from "@/lib/environments";
 
-// Test environment Firebase configuration
-const testFirebaseConfig = {
-  apiKey: process.env.NEXT_PUBLIC_FIREBASE_TEST_API_KEY!,
-  authDomain: process.env.NEXT_PUBLIC_FIREBASE_TEST_AUTH_DOMAIN!,
-  projectId: process.env.NEXT_PUBLIC_FIREBASE_TEST_PROJECT_ID!,
-  storageBucket: process.env.NEXT_PUBLIC_FIREBASE_TEST_STORAGE_BUCKET!,
-  messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_TEST_MESSAGING_SENDER_ID!,
-  appId: process.env.NEXT_PUBLIC_FIREBASE_TEST_APP_ID!,
-  measurementId: process.env.NEXT_PUBLIC_FIREBASE_TEST_MEASUREMENT_ID!
+// The Auth emulator accepts any API key, and "demo-" projects never reach real Firebase services,
+// so emulator-backed environments work even without Firebase env vars
+const EMULATOR_FIREBASE_CONFIG: FirebaseConfig = {
+  apiKey: 'emulator-api-key',
+  authDomain: 'localhost',
+  projectId: 'demo-tambola',
+  storageBucket: '',
+  messagingSenderId: '',
+  appId: 'emulator-app'
 };
 
-// Production environment Firebase configuration
-const prodFirebaseConfig = {
-  apiKey: process.env.NEXT_PUBLIC_FIREBASE_PROD_API_KEY!,
-  authDomain: process.env.NEXT_PUBLIC_FIREBASE_PROD_AUTH_DOMAIN!,
-  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROD_PROJECT_ID!,
-  storageBucket: process.env.NEXT_PUBLIC_FIREBASE_PROD_STORAGE_BUCKET!,
-  messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_PROD_MESSAGING_SENDER_ID!,
-  appId: process.env.NEXT_PUBLIC_FIREBASE_PROD_APP_ID!,
-  measurementId: process.env.NEXT_PUBLIC_FIREBASE_PROD_MEASUREMENT_ID!
-};
-
-export type Environment = 'test' | 'production';
-
 // Store multiple Firebase instances for multi-player testing
 interface FirebaseInstance {
   app: FirebaseApp;
@@ -33,12 +21,14 @@ interface FirebaseInstance {
   analytics: Analytics | null;
   environment: Environment;
   playerId: string;
+  emulatorUrl: string | null;
 }
 
 const firebaseInstances = new Map<string, FirebaseInstance>();
 
 export const createFirebaseInstance = (environment: Environment, playerId: string): FirebaseInstance => {
-  const config = environment === 'test' ? testFirebaseConfig : prodFirebaseConfig;
+  const config = getFirebaseConfig(environment);
+  const { authEmulatorUrl } = requireEnvironment(environment);
   const instanceId = `${environment}-${playerId}`;
   
   // Check if instance already exists
@@ -49,10 +39,15 @@ export const createFirebaseInstance = (environment: Environment, playerId: strin
   // Create new Firebase app instance with unique name
   const app = initializeApp(config, instanceId);
   const auth = getAuth(app);
+
+  // Must happen before the instance is used for anything else
+  if (authEmulatorUrl) {
+    connectAuthEmulator(auth, authEmulatorUrl, { disableWarnings: true });
+  }
   
-  // Initialize Analytics only in browser environment
+  // Initialize Analytics only in browser environment (and not offline against the emulator)
   let analytics: Analytics | null = null;
-  if (typeof window !== 'undefined') {
+  if (typeof window !== 'undefined' && !authEmulatorUrl) {
     try {
       analytics = getAnalytics(app);
     } catch (error) {
@@ -65,7 +60,8 @@ export const createFirebaseInstance = (environment: Environment, playerId: strin
     auth,
     analytics,
     environment,
-    playerId
+    playerId,
+    emulatorUrl: authEmulatorUrl || null
   };
   
   firebaseInstances.set(instanceId, instance);
@@ -97,8 +93,9 @@ export const getAllFirebaseInstances = (environment?: Environment): FirebaseInst
   return environment ? instances.filter(instance => instance.environment === environment) : instances;
 };
 
-export const getFirebaseConfig = (environment: Environment) => {
-  return environment === 'test' ? testFirebaseConfig : prodFirebaseConfig;
+export const getFirebaseConfig = (environment: Environment): FirebaseConfig => {
+  const { firebase, authEmulatorUrl } = requireEnvironment(environment);
+  return authEmulatorUrl && !firebase.apiKey ? EMULATOR_FIREBASE_CONFIG : firebase;
 };
 
 // Utility function to generate unique player IDs
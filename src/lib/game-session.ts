@@ -0,0 +1,158 @@
+import { AuthenticatedUser, GameSession, ParticipantClaim, ParticipantState, TambolaTicket } from '@/types/auth';
+import { Environment } from '@/lib/environments';
+import { GameState, Tournament } from '@/lib/api-config';
+import { validateTicket } from '@/lib/tambola-ticket';
+
+export type SessionStatus = GameSession['status'];
+
+// Events that move a session forward. 'game-state' comes from the server, the rest
+// from API calls made on behalf of individual participants.
+export type GameSessionEvent =
+  | { type: 'game-state'; game: GameState }
+  | { type: 'tickets-loaded'; userId: string; tickets: TambolaTicket[] }
+  | { type: 'claim-result'; userId: string; claim: ParticipantClaim }
+  | { type: 'participant-error'; userId: string; message: string };
+
+const STATUS_ORDER: SessionStatus[] = ['waiting', 'active', 'completed'];
+
+// Sessions only ever move forward through waiting -> active -> completed
+const advanceStatus = (current: SessionStatus, next: SessionStatus): SessionStatus => {
+  return STATUS_ORDER.indexOf(next) > STATUS_ORDER.indexOf(current) ? next : current;
+};
+
+const createParticipantState = (user: AuthenticatedUser): ParticipantState => ({
+  userId: user.id,
+  displayName: user.displayName,
+  status: 'pending',
+  tickets: [],
+  claims: [],
+  errors: []
+});
+
+const updateParticipant = (
+  session: GameSession,
+  userId: string,
+  update: (participant: ParticipantState) => ParticipantState
+): GameSession => {
+  const participant = session.participantStates[userId];
+  if (!participant) {
+    console.warn(`Ignoring event for unknown session participant ${userId}`);
+    return session;
+  }
+
+  return {
+    ...session,
+    participantStates: {
+      ...session.participantStates,
+      [userId]: update(participant)
+    },
+    lastEventTime: Date.now()
+  };
+};
+
+export class GameSessionManager {
+  /**
+   * Create a waiting session for the given tournament and players
+   */
+  static createSession(
+    tournament: Tournament,
+    participants: AuthenticatedUser[],
+    environment: Environment
+  ): GameSession {
+    if (participants.length === 0) {
+      throw new Error('A game session needs at least one participant');
+    }
+
+    const session: GameSession = {
+      sessionId: `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      tournamentId: tournament.id,
+      tournamentName: tournament.name,
+      participants,
+      participantStates: Object.fromEntries(
+        participants.map(user => [user.id, createParticipantState(user)])
+      ),
+      environment,
+      startTime: tournament.start * 1000,
+      endTime: tournament.end * 1000,
+      status: 'waiting',
+      calledNumbers: [],
+      lastEventTime: null
+    };
+
+    return this.resolveStatus(session);
+  }
+
+  /**
+   * Advance the session based on the tournament's start and end times
+   */
+  static resolveStatus(session: GameSession, now: number = Date.now()): GameSession {
+    let status: SessionStatus = 'waiting';
+    if (now >= session.endTime) {
+      status = 'completed';
+    } else if (now >= session.startTime) {
+      status = 'active';
+    }
+
+    const nextStatus = advanceStatus(session.status, status);
+    return nextStatus === session.status ? session : { ...session, status: nextStatus };
+  }
+
+  /**
+   * Apply a server or participant event to the session
+   */
+  static applyEvent(session: GameSession, event: GameSessionEvent): GameSession {
+    switch (event.type) {
+      case 'game-state':
+        if (event.game.tournamentId !== session.tournamentId) {
+          return session;
+        }
+        return {
+          ...session,
+          status: advanceStatus(session.status, event.game.status),
+          calledNumbers: event.game.calledNumbers,
+          lastEventTime: Date.now()
+        };
+
+      case 'tickets-loaded': {
+        const errors = event.tickets.flatMap(ticket =>
+          validateTicket(ticket).errors.map(error => `Malformed ticket ${ticket.ticketId}: ${error}`)
+        );
+        return updateParticipant(session, event.userId, participant => ({
+          ...participant,
+          status: errors.length > 0 ? 'error' : 'ready',
+          tickets: event.tickets,
+          errors: [...participant.errors, ...errors]
+        }));
+      }
+
+      case 'claim-result':
+        return updateParticipant(session, event.userId, participant => ({
+          ...participant,
+          claims: [...participant.claims, event.claim],
+          tickets: event.claim.accepted
+            ? participant.tickets.map(ticket => ticket.ticketId === event.claim.ticketId
+              ? { ...ticket, claims: { ...ticket.claims, [event.claim.claim]: true } }
+              : ticket
+            )
+            : participant.tickets
+        }));
+
+      case 'participant-error':
+        return updateParticipant(session, event.userId, participant => ({
+          ...participant,
+          status: 'error',
+          errors: [...participant.errors, event.message]
+        }));
+
+      default:
+        return session;
+    }
+  }
+
+  /**
+   * Whether every participant has their tickets
+   */
+  static isReady(session: GameSession): boolean {
+    return Object.values(session.participantStates).every(p => p.status === 'ready');
+  }
+}
@@ -0,0 +1,243 @@
+import { BODY_PREVIEW_LIMIT, TrafficEntry, TrafficPlayer, getTrafficPlayer } from '@/lib/traffic-log';
+
+// Minimal HAR 1.2 model (http://www.softwareishard.com/blog/har-12-spec/).
+// Fields prefixed with an underscore are custom, which the spec allows.
+
+const HAR_VERSION = '1.2';
+const HTTP_VERSION = 'HTTP/1.1';
+
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarHeader[];
+  headers: HarHeader[];
+  queryString: HarHeader[];
+  postData?: {
+    mimeType: string;
+    text: string;
+    comment?: string;
+  };
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarHeader[];
+  headers: HarHeader[];
+  content: {
+    size: number;
+    mimeType: string;
+    text?: string;
+    comment?: string;
+  };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+  _error?: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: {
+    send: number;
+    wait: number;
+    receive: number;
+  };
+  _player?: TrafficPlayer;
+  _environment?: string;
+}
+
+export interface Har {
+  log: {
+    version: string;
+    creator: {
+      name: string;
+      version: string;
+    };
+    entries: HarEntry[];
+  };
+}
+
+const toHarHeaders = (headers: Record<string, string>): HarHeader[] => {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+};
+
+const fromHarHeaders = (headers: HarHeader[] | undefined): Record<string, string> => {
+  const result: Record<string, string> = {};
+  (headers || []).forEach(({ name, value }) => {
+    result[name.toLowerCase()] = value;
+  });
+  return result;
+};
+
+const getQueryString = (url: string): HarHeader[] => {
+  try {
+    return Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+};
+
+const truncationComment = (size: number): string | undefined => {
+  return size > BODY_PREVIEW_LIMIT ? `Body truncated to the first ${BODY_PREVIEW_LIMIT} bytes` : undefined;
+};
+
+/**
+ * Convert captured traffic into a HAR 1.2 document, oldest exchange first
+ */
+export const buildHar = (entries: TrafficEntry[]): Har => {
+  return {
+    log: {
+      version: HAR_VERSION,
+      creator: {
+        name: 'TambolaMultiPlayerApp',
+        version: '1.0.0'
+      },
+      entries: [...entries]
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map(entry => {
+          const requestContentType = entry.requestHeaders['content-type'] || 'application/octet-stream';
+          const responseContentType = entry.responseHeaders['content-type'] || 'application/octet-stream';
+
+          return {
+            startedDateTime: new Date(entry.timestamp).toISOString(),
+            time: entry.latencyMs,
+            request: {
+              method: entry.method,
+              url: entry.url,
+              httpVersion: HTTP_VERSION,
+              cookies: [],
+              headers: toHarHeaders(entry.requestHeaders),
+              queryString: getQueryString(entry.url),
+              ...(entry.requestBodyPreview !== null && {
+                postData: {
+                  mimeType: requestContentType,
+                  text: entry.requestBodyPreview,
+                  comment: truncationComment(entry.requestBodySize)
+                }
+              }),
+              headersSize: -1,
+              bodySize: entry.requestBodySize
+            },
+            response: {
+              // HAR uses status 0 for requests that never got a response
+              status: entry.status ?? 0,
+              statusText: entry.statusText,
+              httpVersion: HTTP_VERSION,
+              cookies: [],
+              headers: toHarHeaders(entry.responseHeaders),
+              content: {
+                size: entry.responseBodySize,
+                mimeType: responseContentType,
+                ...(entry.responseBodyPreview !== null && { text: entry.responseBodyPreview }),
+                comment: truncationComment(entry.responseBodySize)
+              },
+              redirectURL: entry.responseHeaders['location'] || '',
+              headersSize: -1,
+              bodySize: entry.responseBodySize,
+              ...(entry.error && { _error: entry.error })
+            },
+            cache: {},
+            timings: {
+              send: 0,
+              wait: entry.latencyMs,
+              receive: 0
+            },
+            _player: entry.player,
+            _environment: entry.environment
+          };
+        })
+    }
+  };
+};
+
+const getApiPath = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.pathname.replace(/^.*?\/api\/v1\//, '')}${parsed.search}`;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Fill in the Authorization header of each request from `getAuthorization`, for entries
+ * whose player it returns a token for. The server only keeps redacted headers.
+ */
+export const restoreAuthorization = (har: Har, getAuthorization: (player: TrafficPlayer) => string | null): Har => {
+  return {
+    log: {
+      ...har.log,
+      entries: har.log.entries.map(entry => {
+        const authorization = entry._player ? getAuthorization(entry._player) : null;
+        if (!authorization) return entry;
+
+        const headers = entry.request.headers.filter(header => header.name.toLowerCase() !== 'authorization');
+        return {
+          ...entry,
+          request: { ...entry.request, headers: [...headers, { name: 'authorization', value: authorization }] }
+        };
+      })
+    }
+  };
+};
+
+/**
+ * Parse a HAR file (ours or one saved from browser devtools) into traffic entries
+ * for viewing. Throws if the file isn't a HAR document.
+ */
+export const parseHar = (text: string): TrafficEntry[] => {
+  let har: Partial<Har>;
+  try {
+    har = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (!har.log || !Array.isArray(har.log.entries)) {
+    throw new Error('File is not a HAR document (missing log.entries)');
+  }
+
+  return har.log.entries.map((harEntry, index) => {
+    const { request, response } = harEntry;
+    if (!request || !response) {
+      throw new Error(`HAR entry ${index + 1} is missing its request or response`);
+    }
+
+    const timestamp = Date.parse(harEntry.startedDateTime);
+    const requestHeaders = fromHarHeaders(request.headers);
+    return {
+      id: `har-${index}-${Math.random().toString(36).substr(2, 9)}`,
+      sequence: index + 1,
+      timestamp: Number.isNaN(timestamp) ? 0 : timestamp,
+      player: harEntry._player || getTrafficPlayer(requestHeaders['authorization'] || null),
+      environment: harEntry._environment || 'imported',
+      method: request.method,
+      path: getApiPath(request.url),
+      url: request.url,
+      requestHeaders,
+      requestBodyPreview: request.postData?.text ?? null,
+      requestBodySize: Math.max(request.bodySize ?? 0, 0),
+      status: response.status || null,
+      statusText: response.statusText || '',
+      responseHeaders: fromHarHeaders(response.headers),
+      responseBodyPreview: response.content?.text ?? null,
+      responseBodySize: Math.max(response.content?.size ?? response.bodySize ?? 0, 0),
+      latencyMs: Math.round(harEntry.time || 0),
+      ...(response._error && { error: response._error })
+    };
+  });
+};
@@ -0,0 +1,96 @@
+export type JsonDifferenceKind = 'added' | 'removed' | 'changed';
+
+export interface JsonDifference {
+  path: string;
+  kind: JsonDifferenceKind;
+  baseline?: unknown;
+  value?: unknown;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+};
+
+const getItemId = (item: unknown): string | null => {
+  if (!isObject(item)) return null;
+  const id = item.id;
+  return typeof id === 'string' || typeof id === 'number' ? String(id) : null;
+};
+
+// Arrays whose items all carry a unique id (tournaments, tickets, ...) are compared by id,
+// so one missing item shows up as that item rather than every later index shifting
+const getItemsById = (items: unknown[]): Map<string, unknown> | null => {
+  const byId = new Map<string, unknown>();
+  for (const item of items) {
+    const id = getItemId(item);
+    if (id === null || byId.has(id)) return null;
+    byId.set(id, item);
+  }
+  return byId;
+};
+
+const diffArrays = (baseline: unknown[], value: unknown[], path: string): JsonDifference[] => {
+  const baselineById = getItemsById(baseline);
+  const valueById = getItemsById(value);
+
+  if (baselineById && valueById) {
+    const differences: JsonDifference[] = [];
+    baselineById.forEach((item, id) => {
+      const itemPath = `${path}[id=${id}]`;
+      if (valueById.has(id)) {
+        differences.push(...diffJson(item, valueById.get(id), itemPath));
+      } else {
+        differences.push({ path: itemPath, kind: 'removed', baseline: item });
+      }
+    });
+    valueById.forEach((item, id) => {
+      if (!baselineById.has(id)) {
+        differences.push({ path: `${path}[id=${id}]`, kind: 'added', value: item });
+      }
+    });
+    return differences;
+  }
+
+  const differences: JsonDifference[] = [];
+  for (let index = 0; index < Math.max(baseline.length, value.length); index++) {
+    const itemPath = `${path}[${index}]`;
+    if (index >= value.length) {
+      differences.push({ path: itemPath, kind: 'removed', baseline: baseline[index] });
+    } else if (index >= baseline.length) {
+      differences.push({ path: itemPath, kind: 'added', value: value[index] });
+    } else {
+      differences.push(...diffJson(baseline[index], value[index], itemPath));
+    }
+  }
+  return differences;
+};
+
+/**
+ * Structural differences between two JSON values, as paths from the root ($).
+ * "removed" means present in the baseline only, "added" present in the value only.
+ */
+export const diffJson = (baseline: unknown, value: unknown, path = '$'): JsonDifference[] => {
+  if (Array.isArray(baseline) && Array.isArray(value)) {
+    return diffArrays(baseline, value, path);
+  }
+
+  if (isObject(baseline) && isObject(value)) {
+    const differences: JsonDifference[] = [];
+    const keys = Array.from(new Set([...Object.keys(baseline), ...Object.keys(value)]));
+    keys.forEach(key => {
+      const keyPath = `${path}.${key}`;
+      if (!(key in value)) {
+        differences.push({ path: keyPath, kind: 'removed', baseline: baseline[key] });
+      } else if (!(key in baseline)) {
+        differences.push({ path: keyPath, kind: 'added', value: value[key] });
+      } else {
+        differences.push(...diffJson(baseline[key], value[key], keyPath));
+      }
+    });
+    return differences;
+  }
+
+  return Object.is(baseline, value) ? [] : [{ path, kind: 'changed', baseline, value }];
+};
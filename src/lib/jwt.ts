@@ -0,0 +1,62 @@
+export interface JwtPayload {
+  iss?: string;
+  aud?: string;
+  sub?: string;
+  iat?: number;
+  exp?: number;
+  auth_time?: number;
+  user_id?: string;
+  email?: string;
+  name?: string;
+  [key: string]: unknown;
+}
+
+export interface DecodedJwt {
+  header: Record<string, unknown>;
+  payload: JwtPayload;
+  signature: string;
+}
+
+const decodeBase64Url = (segment: string): string => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const bytes = Uint8Array.from(atob(padded), char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+/**
+ * Remove an optional "Bearer " prefix from an Authorization header value
+ */
+export const stripBearer = (authorization: string): string => {
+  return authorization.replace(/^Bearer\s+/i, '').trim();
+};
+
+/**
+ * Decode a JWT without verifying its signature. Returns null for anything that isn't a JWT.
+ */
+export const decodeJwt = (token: string): DecodedJwt | null => {
+  const parts = stripBearer(token).split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    return {
+      header: JSON.parse(decodeBase64Url(parts[0])),
+      payload: JSON.parse(decodeBase64Url(parts[1])),
+      signature: parts[2]
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Firebase ID tokens live for an hour; used when a token carries no exp claim
+export const DEFAULT_TOKEN_LIFETIME_MS = 60 * 60 * 1000;
+
+/**
+ * When a token expires (epoch ms), read from its exp claim. Falls back to
+ * DEFAULT_TOKEN_LIFETIME_MS from now for tokens that can't be decoded.
+ */
+export const getTokenExpiry = (token: string, fallbackStart: number = Date.now()): number => {
+  const exp = decodeJwt(token)?.payload.exp;
+  return typeof exp === 'number' ? exp * 1000 : fallbackStart + DEFAULT_TOKEN_LIFETIME_MS;
+};
@@ -0,0 +1,281 @@
+import { ApiService, RawApiRequest, RawApiResponse } from '@/lib/api-config';
+import { VirtualPlayer } from '@/lib/virtual-players';
+
+export const LOAD_OPERATIONS = ['subscribe', 'tickets', 'gameState', 'claim'] as const;
+
+export type LoadOperation = typeof LOAD_OPERATIONS[number];
+
+export const LOAD_OPERATION_LABELS: Record<LoadOperation, string> = {
+  subscribe: 'Subscribe',
+  tickets: 'Tickets',
+  gameState: 'Game state',
+  claim: 'Claim (early five)'
+};
+
+export interface LoadTestConfig {
+  tournamentId: string;
+  operations: LoadOperation[];
+  requestsPerSecond: number; // across all players
+  rampUpSeconds: number; // players join evenly over this time
+  durationSeconds: number;
+  maxConcurrency: number; // requests in flight at once
+}
+
+export interface LoadSample {
+  operation: LoadOperation;
+  status: number | null; // null when the request never got a response
+  durationMs: number;
+  error?: string;
+}
+
+export interface LoadOperationStats {
+  operation: LoadOperation;
+  count: number;
+  errors: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface LoadTestReport {
+  status: 'running' | 'finished' | 'stopped';
+  startedAt: number;
+  finishedAt: number | null;
+  playerCount: number;
+  activePlayers: number;
+  inFlight: number;
+  requestCount: number;
+  throttled: number; // requests skipped because maxConcurrency were in flight
+  achievedRps: number;
+  operations: LoadOperationStats[];
+  errors: Array<{ reason: string; count: number }>; // most frequent first
+}
+
+interface VirtualPlayerState {
+  player: VirtualPlayer;
+  subscribed: boolean;
+  ticketId: string | null;
+  nextOperation: number;
+}
+
+const TICK_INTERVAL = 50;
+const PROGRESS_INTERVAL = 500;
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+};
+
+const summarize = (operation: LoadOperation, samples: LoadSample[]): LoadOperationStats => {
+  const durations = samples.map(sample => sample.durationMs).sort((a, b) => a - b);
+  const total = durations.reduce((sum, duration) => sum + duration, 0);
+  return {
+    operation,
+    count: samples.length,
+    errors: samples.filter(sample => sample.error).length,
+    mean: durations.length > 0 ? Math.round(total / durations.length) : 0,
+    p50: percentile(durations, 50),
+    p90: percentile(durations, 90),
+    p95: percentile(durations, 95),
+    p99: percentile(durations, 99),
+    max: durations.length > 0 ? durations[durations.length - 1] : 0
+  };
+};
+
+// The backend reports business failures (full, already subscribed, ...) with a 200 and success: false
+const getResponseError = (response: RawApiResponse, body: unknown): string | undefined => {
+  const data = body as { success?: boolean; error?: string | null; message?: string } | null;
+  if (response.status >= 400) {
+    return `${response.status} ${data?.error || response.statusText}`;
+  }
+  if (data && data.success === false) {
+    return `${response.status} ${data.error || data.message || 'Rejected'}`;
+  }
+  return undefined;
+};
+
+// Drives virtual players against the API through the proxy: players join over the
+// ramp-up, and requests are dealt out round-robin at the configured overall rate.
+export class LoadTestRunner {
+  private apiService: ApiService;
+  private players: VirtualPlayerState[];
+  private config: LoadTestConfig;
+  private onProgress: (report: LoadTestReport) => void;
+  private samples: LoadSample[] = [];
+  private startedAt = 0;
+  private finishedAt: number | null = null;
+  private dispatched = 0;
+  private throttled = 0;
+  private inFlight = 0;
+  private cursor = 0;
+  private stopped = false;
+
+  constructor(
+    apiService: ApiService,
+    players: VirtualPlayer[],
+    config: LoadTestConfig,
+    onProgress: (report: LoadTestReport) => void
+  ) {
+    this.apiService = apiService;
+    this.players = players.map(player => ({ player, subscribed: false, ticketId: null, nextOperation: 0 }));
+    this.config = config;
+    this.onProgress = onProgress;
+  }
+
+  /**
+   * Run until the duration has passed (or stop() is called) and every request has settled
+   */
+  async run(): Promise<LoadTestReport> {
+    this.startedAt = Date.now();
+    const endsAt = this.startedAt + this.config.durationSeconds * 1000;
+    let lastProgress = 0;
+
+    while (!this.stopped && Date.now() < endsAt) {
+      this.dispatchDue();
+      if (Date.now() - lastProgress >= PROGRESS_INTERVAL) {
+        this.onProgress(this.getReport());
+        lastProgress = Date.now();
+      }
+      await new Promise(resolve => setTimeout(resolve, TICK_INTERVAL));
+    }
+
+    while (this.inFlight > 0) {
+      this.onProgress(this.getReport());
+      await new Promise(resolve => setTimeout(resolve, PROGRESS_INTERVAL));
+    }
+
+    this.finishedAt = Date.now();
+    const report = this.getReport();
+    this.onProgress(report);
+    return report;
+  }
+
+  stop(): void {
+    this.stopped = true;
+  }
+
+  getReport(): LoadTestReport {
+    const end = this.finishedAt ?? Date.now();
+    const errorCounts = new Map<string, number>();
+    this.samples.forEach(sample => {
+      if (sample.error) {
+        const reason = `${LOAD_OPERATION_LABELS[sample.operation]}: ${sample.error}`;
+        errorCounts.set(reason, (errorCounts.get(reason) || 0) + 1);
+      }
+    });
+
+    return {
+      status: this.finishedAt === null ? 'running' : this.stopped ? 'stopped' : 'finished',
+      startedAt: this.startedAt,
+      finishedAt: this.finishedAt,
+      playerCount: this.players.length,
+      activePlayers: this.getActivePlayerCount(),
+      inFlight: this.inFlight,
+      requestCount: this.samples.length,
+      throttled: this.throttled,
+      achievedRps: end > this.startedAt ? Math.round((this.samples.length / (end - this.startedAt)) * 10000) / 10 : 0,
+      operations: LOAD_OPERATIONS
+        .map(operation => summarize(operation, this.samples.filter(sample => sample.operation === operation)))
+        .filter(stats => stats.count > 0),
+      errors: Array.from(errorCounts.entries())
+        .map(([reason, count]) => ({ reason, count }))
+        .sort((a, b) => b.count - a.count)
+    };
+  }
+
+  private getActivePlayerCount(): number {
+    const rampUpMs = this.config.rampUpSeconds * 1000;
+    if (rampUpMs <= 0) return this.players.length;
+    const fraction = Math.min(1, (Date.now() - this.startedAt) / rampUpMs);
+    return Math.max(1, Math.ceil(fraction * this.players.length));
+  }
+
+  // Send however many requests the target rate calls for since the start
+  private dispatchDue(): void {
+    const due = Math.floor(((Date.now() - this.startedAt) / 1000) * this.config.requestsPerSecond) - this.dispatched;
+    const activePlayers = this.getActivePlayerCount();
+
+    for (let i = 0; i < due; i++) {
+      this.dispatched++;
+      if (this.inFlight >= this.config.maxConcurrency) {
+        this.throttled++;
+        continue;
+      }
+
+      const state = this.players[this.cursor % activePlayers];
+      this.cursor++;
+      this.send(state, this.pickOperation(state));
+    }
+  }
+
+  // Each player subscribes first, then cycles through the other operations
+  private pickOperation(state: VirtualPlayerState): LoadOperation {
+    const { operations } = this.config;
+    if (operations.includes('subscribe') && !state.subscribed) {
+      state.subscribed = true;
+      return 'subscribe';
+    }
+
+    const repeating = operations.filter(operation => operation !== 'subscribe');
+    if (repeating.length === 0) return 'subscribe';
+
+    const operation = repeating[state.nextOperation++ % repeating.length];
+    // Claims need a ticket; fetch the player's tickets first
+    return operation === 'claim' && !state.ticketId ? 'tickets' : operation;
+  }
+
+  private buildRequest(state: VirtualPlayerState, operation: LoadOperation): RawApiRequest {
+    const tournamentPath = `tournament/${encodeURIComponent(this.config.tournamentId)}`;
+    switch (operation) {
+      case 'subscribe':
+        return { method: 'POST', path: 'tournament/subscribe', query: '', headers: {}, body: JSON.stringify({ tournamentId: this.config.tournamentId }) };
+      case 'tickets':
+        return { method: 'GET', path: `${tournamentPath}/tickets`, query: '', headers: {}, body: '' };
+      case 'gameState':
+        return { method: 'GET', path: `${tournamentPath}/game`, query: '', headers: {}, body: '' };
+      case 'claim':
+        return { method: 'POST', path: `${tournamentPath}/claim`, query: '', headers: {}, body: JSON.stringify({ ticketId: state.ticketId, claim: 'earlyFive' }) };
+    }
+  }
+
+  private async send(state: VirtualPlayerState, operation: LoadOperation): Promise<void> {
+    this.inFlight++;
+    const startTime = performance.now();
+    try {
+      const response = await this.apiService.send(state.player.token, this.buildRequest(state, operation));
+      let body: unknown = null;
+      try {
+        body = JSON.parse(response.body);
+      } catch {
+        // Not JSON; judge by the status alone
+      }
+
+      if (operation === 'tickets') {
+        const tickets = (body as { tickets?: Array<{ ticketId: string }> } | null)?.tickets;
+        state.ticketId = tickets?.[0]?.ticketId ?? state.ticketId;
+      }
+
+      this.samples.push({
+        operation,
+        status: response.status,
+        durationMs: Math.round(performance.now() - startTime),
+        error: getResponseError(response, body)
+      });
+    } catch (error) {
+      this.samples.push({
+        operation,
+        status: null,
+        durationMs: Math.round(performance.now() - startTime),
+        error: `Network error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    } finally {
+      this.inFlight--;
+    }
+  }
+}
@@ -0,0 +1,401 @@
+import {
+  AppConfigResponse,
+  ClaimResponse,
+  GameState,
+  GameStateResponse,
+  SubscribeResponse,
+  TicketsResponse,
+  Tournament
+} from '@/lib/api-config';
+import { CLAIM_TYPES, ClaimType, verifyClaim } from '@/lib/claim-engine';
+import { createSeededRandom, generateStrip, MAX_NUMBER } from '@/lib/tambola-ticket';
+import { decodeJwt, stripBearer } from '@/lib/jwt';
+import { TambolaTicket } from '@/types/auth';
+
+// In-memory stand-in for the Bluboy backend, served under /api/mock/api/v1/* (behind the proxy guard).
+// Everything is derived from the configured seed so runs are reproducible.
+
+const TAMBOLA_GAME_ID = 7;
+
+// Tournament definitions may use times relative to when the config was applied
+export interface MockTournamentConfig extends Partial<Tournament> {
+  id: string;
+  name: string;
+  startsInSeconds?: number;
+  durationSeconds?: number;
+}
+
+export interface MockBackendConfig {
+  seed: string;
+  callIntervalSeconds: number;
+  ticketsPerPlayer: number;
+  tournaments: MockTournamentConfig[];
+  games: AppConfigResponse['games'];
+  appConfig: AppConfigResponse['appConfig'];
+}
+
+interface MockWinner {
+  claim: ClaimType;
+  userId: string;
+  ticketId: string;
+  callIndex: number;
+  claimedAtCallCount: number;
+}
+
+interface MockBackendState {
+  config: MockBackendConfig;
+  appliedAt: number; // epoch time
+  tournaments: Tournament[];
+  subscriptions: Map<string, Map<string, number>>; // tournamentId -> userId -> subscribed at
+  winners: Map<string, MockWinner[]>;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string[];
+  authorization: string | null;
+  body?: unknown;
+}
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+export const DEFAULT_MOCK_CONFIG: MockBackendConfig = {
+  seed: 'bluboy-mock',
+  callIntervalSeconds: 5,
+  ticketsPerPlayer: 2,
+  tournaments: [
+    { id: 'mock-active', name: 'Mock Tambola – Live Now', startsInSeconds: -60, durationSeconds: 30 * 60, entry_fee: 10, prize_pool: 500, max_players: 50 },
+    { id: 'mock-soon', name: 'Mock Tambola – Starting Soon', startsInSeconds: 2 * 60, durationSeconds: 30 * 60, entry_fee: 0, prize_pool: 100, max_players: 10 },
+    { id: 'mock-later', name: 'Mock Tambola – Later Today', startsInSeconds: 2 * 60 * 60, durationSeconds: 60 * 60, entry_fee: 25, prize_pool: 2000, max_players: 200 },
+    { id: 'mock-full', name: 'Mock Tambola – Sold Out', startsInSeconds: 60 * 60, durationSeconds: 30 * 60, entry_fee: 5, prize_pool: 50, max_players: 2, current_players: 2 },
+    { id: 'mock-finished', name: 'Mock Tambola – Finished', startsInSeconds: -2 * 60 * 60, durationSeconds: 30 * 60, entry_fee: 10, prize_pool: 500, max_players: 50 },
+    { id: 'mock-other-game', name: 'Mock Quiz', game_id: 3, startsInSeconds: 10 * 60, durationSeconds: 15 * 60 }
+  ],
+  games: [
+    { id: 3, name: 'Quiz' },
+    { id: TAMBOLA_GAME_ID, name: 'Tambola' }
+  ],
+  appConfig: [
+    { configName: 'environment', configValue: 'mock' }
+  ]
+};
+
+const now = (): number => Math.floor(Date.now() / 1000);
+
+const buildTournaments = (config: MockBackendConfig, appliedAt: number): Tournament[] => {
+  return config.tournaments.map(({ startsInSeconds, durationSeconds, ...tournament }) => {
+    const start = tournament.start ?? appliedAt + (startsInSeconds ?? 0);
+    return {
+      game_id: TAMBOLA_GAME_ID,
+      status: 'scheduled',
+      current_players: 0,
+      ...tournament,
+      start,
+      end: tournament.end ?? start + (durationSeconds ?? 30 * 60)
+    };
+  });
+};
+
+const loadInitialConfig = (): MockBackendConfig => {
+  const configJson = process.env.MOCK_BACKEND_CONFIG;
+  if (!configJson) return DEFAULT_MOCK_CONFIG;
+
+  try {
+    return { ...DEFAULT_MOCK_CONFIG, ...JSON.parse(configJson) };
+  } catch (error) {
+    console.warn('Invalid MOCK_BACKEND_CONFIG, using defaults:', error);
+    return DEFAULT_MOCK_CONFIG;
+  }
+};
+
+const createState = (config: MockBackendConfig): MockBackendState => {
+  const appliedAt = now();
+  return {
+    config,
+    appliedAt,
+    tournaments: buildTournaments(config, appliedAt),
+    subscriptions: new Map(),
+    winners: new Map()
+  };
+};
+
+// Keep state on globalThis so it survives dev-server module reloads
+const globalForMock = globalThis as typeof globalThis & { __tambolaMockBackend?: MockBackendState };
+
+const getState = (): MockBackendState => {
+  if (!globalForMock.__tambolaMockBackend) {
+    globalForMock.__tambolaMockBackend = createState(loadInitialConfig());
+  }
+  return globalForMock.__tambolaMockBackend;
+};
+
+export const resetMockBackend = (config?: Partial<MockBackendConfig>): void => {
+  globalForMock.__tambolaMockBackend = createState({ ...DEFAULT_MOCK_CONFIG, ...config });
+};
+
+const ok = <T extends object>(body: T, message: string = 'OK'): MockResponse => ({
+  status: 200,
+  body: { success: true, message, error: null, ...body }
+});
+
+const fail = (status: number, error: string): MockResponse => ({
+  status,
+  body: { success: false, message: error, error }
+});
+
+/**
+ * Identify the caller from their token. Tokens aren't verified; any JWT (or opaque string) is accepted.
+ */
+const getUserId = (authorization: string | null): string | null => {
+  if (!authorization) return null;
+
+  const token = stripBearer(authorization);
+  const payload = decodeJwt(token)?.payload;
+  const userId = payload?.user_id || payload?.sub;
+  if (typeof userId === 'string' && userId) return userId;
+
+  return `opaque-${createSeededRandom(token)().toString(36).substring(2, 10)}`;
+};
+
+const findTournament = (state: MockBackendState, tournamentId: string): Tournament | undefined => {
+  return state.tournaments.find(t => t.id === tournamentId);
+};
+
+/**
+ * The fixed call order for a tournament's game
+ */
+const getCallSequence = (state: MockBackendState, tournamentId: string): number[] => {
+  const random = createSeededRandom(`${state.config.seed}:${tournamentId}:calls`);
+  const numbers = Array.from({ length: MAX_NUMBER }, (_, index) => index + 1);
+  for (let i = numbers.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [numbers[i], numbers[j]] = [numbers[j], numbers[i]];
+  }
+  return numbers;
+};
+
+export const getMockGameState = (tournament: Tournament): GameState => {
+  const state = getState();
+  const interval = state.config.callIntervalSeconds;
+  const currentTime = now();
+
+  if (currentTime < tournament.start) {
+    return {
+      tournamentId: tournament.id,
+      status: 'waiting',
+      calledNumbers: [],
+      lastCall: null,
+      callIntervalSeconds: interval,
+      nextCallAt: tournament.start,
+      winners: []
+    };
+  }
+
+  // Calling stops once full house has been won
+  const winners = state.winners.get(tournament.id) || [];
+  const fullHouse = winners.find(w => w.claim === 'fullHouse');
+  const elapsedCalls = Math.floor((currentTime - tournament.start) / interval) + 1;
+  const callCount = Math.min(elapsedCalls, MAX_NUMBER, fullHouse ? fullHouse.claimedAtCallCount : MAX_NUMBER);
+  const calledNumbers = getCallSequence(state, tournament.id).slice(0, callCount);
+  const completed = currentTime >= tournament.end || callCount === MAX_NUMBER || !!fullHouse;
+
+  return {
+    tournamentId: tournament.id,
+    status: completed ? 'completed' : 'active',
+    calledNumbers,
+    lastCall: calledNumbers[calledNumbers.length - 1] ?? null,
+    callIntervalSeconds: interval,
+    nextCallAt: completed ? null : tournament.start + callCount * interval,
+    winners
+  };
+};
+
+const getPlayerTickets = (state: MockBackendState, tournamentId: string, userId: string): TambolaTicket[] => {
+  return generateStrip(userId, tournamentId, state.config.seed).slice(0, state.config.ticketsPerPlayer);
+};
+
+const handleAppConfig = (state: MockBackendState): MockResponse => {
+  const response: Omit<AppConfigResponse, 'success' | 'message' | 'error'> = {
+    appConfig: state.config.appConfig,
+    tournaments: state.tournaments,
+    games: state.config.games
+  };
+  return ok(response);
+};
+
+const handleSubscribe = (state: MockBackendState, userId: string, body: unknown): MockResponse => {
+  const tournamentId = (body as { tournamentId?: unknown } | undefined)?.tournamentId;
+  if (typeof tournamentId !== 'string') {
+    return fail(400, 'tournamentId is required');
+  }
+
+  const tournament = findTournament(state, tournamentId);
+  if (!tournament) {
+    return fail(404, `Tournament ${tournamentId} not found`);
+  }
+  if (now() >= tournament.end) {
+    return fail(409, 'Tournament has already ended');
+  }
+
+  const subscribers = state.subscriptions.get(tournamentId) || new Map<string, number>();
+  if (subscribers.has(userId)) {
+    return fail(409, 'Already subscribed to this tournament');
+  }
+  if (tournament.max_players !== undefined && (tournament.current_players || 0) >= tournament.max_players) {
+    return fail(409, 'Tournament is full');
+  }
+
+  subscribers.set(userId, now());
+  state.subscriptions.set(tournamentId, subscribers);
+  tournament.current_players = (tournament.current_players || 0) + 1;
+
+  const response: Omit<SubscribeResponse, 'success' | 'message' | 'error'> = { tournamentId, userId };
+  return ok(response, 'Subscribed successfully');
+};
+
+const requireSubscription = (
+  state: MockBackendState,
+  tournamentId: string,
+  userId: string
+): { tournament: Tournament } | { error: MockResponse } => {
+  const tournament = findTournament(state, tournamentId);
+  if (!tournament) {
+    return { error: fail(404, `Tournament ${tournamentId} not found`) };
+  }
+  if (!state.subscriptions.get(tournamentId)?.has(userId)) {
+    return { error: fail(403, 'Not subscribed to this tournament') };
+  }
+  return { tournament };
+};
+
+const handleTickets = (state: MockBackendState, tournamentId: string, userId: string): MockResponse => {
+  const result = requireSubscription(state, tournamentId, userId);
+  if ('error' in result) return result.error;
+
+  const response: Omit<TicketsResponse, 'success' | 'message' | 'error'> = {
+    tickets: getPlayerTickets(state, tournamentId, userId)
+  };
+  return ok(response);
+};
+
+const handleGame = (state: MockBackendState, tournamentId: string): MockResponse => {
+  const tournament = findTournament(state, tournamentId);
+  if (!tournament) {
+    return fail(404, `Tournament ${tournamentId} not found`);
+  }
+
+  const response: Omit<GameStateResponse, 'success' | 'message' | 'error'> = {
+    game: getMockGameState(tournament)
+  };
+  return ok(response);
+};
+
+const handleClaim = (state: MockBackendState, tournamentId: string, userId: string, body: unknown): MockResponse => {
+  const result = requireSubscription(state, tournamentId, userId);
+  if ('error' in result) return result.error;
+
+  const { ticketId, claim } = (body || {}) as { ticketId?: unknown; claim?: unknown };
+  if (typeof ticketId !== 'string' || !CLAIM_TYPES.includes(claim as ClaimType)) {
+    return fail(400, `ticketId and a claim of ${CLAIM_TYPES.join(', ')} are required`);
+  }
+
+  const ticket = getPlayerTickets(state, tournamentId, userId).find(t => t.ticketId === ticketId);
+  if (!ticket) {
+    return fail(404, `Ticket ${ticketId} not found for this player`);
+  }
+
+  const game = getMockGameState(result.tournament);
+  if (game.status === 'waiting') {
+    return fail(409, 'Game has not started');
+  }
+
+  const claimType = claim as ClaimType;
+  const reject = (error: string, callIndex: number | null): MockResponse => {
+    const response: Omit<ClaimResponse, 'success' | 'message' | 'error'> = { claim: claimType, accepted: false, callIndex };
+    return { status: 200, body: { success: true, message: error, error, ...response } };
+  };
+
+  const verification = verifyClaim(ticket.numbers, game.calledNumbers, claimType);
+  if (!verification.valid) {
+    return reject(verification.reason || 'Invalid claim', verification.callIndex);
+  }
+
+  // Prizes go to whoever completed first; tickets completing on the same call share
+  const winners = state.winners.get(tournamentId) || [];
+  const previous = winners.filter(w => w.claim === claimType);
+  if (previous.some(w => w.ticketId === ticketId)) {
+    return reject('Claim already awarded to this ticket', verification.callIndex);
+  }
+  if (previous.length > 0 && previous[0].callIndex < verification.callIndex!) {
+    return reject(`${claimType} was already won at call ${previous[0].callIndex + 1}`, verification.callIndex);
+  }
+
+  winners.push({
+    claim: claimType,
+    userId,
+    ticketId,
+    callIndex: verification.callIndex!,
+    claimedAtCallCount: game.calledNumbers.length
+  });
+  state.winners.set(tournamentId, winners);
+
+  const response: Omit<ClaimResponse, 'success' | 'message' | 'error'> = {
+    claim: claimType,
+    accepted: true,
+    callIndex: verification.callIndex
+  };
+  return ok(response, 'Claim accepted');
+};
+
+const handleMockAdmin = (method: string, action: string | undefined, body: unknown): MockResponse => {
+  if (action === 'config' && method === 'GET') {
+    const state = getState();
+    return ok({ config: state.config, tournaments: state.tournaments });
+  }
+
+  if (action === 'config' && method === 'PUT') {
+    resetMockBackend(body as Partial<MockBackendConfig>);
+    return ok({ config: getState().config, tournaments: getState().tournaments }, 'Mock backend reconfigured');
+  }
+
+  if (action === 'reset' && method === 'POST') {
+    resetMockBackend(getState().config);
+    return ok({}, 'Mock backend reset');
+  }
+
+  return fail(404, `Unknown mock admin endpoint: ${method} mock/${action}`);
+};
+
+/**
+ * Route a request for /api/v1/<path> to the matching mock handler
+ */
+export const handleMockRequest = ({ method, path, authorization, body }: MockRequest): MockResponse => {
+  const [resource, id, action] = path;
+
+  if (resource === 'mock') {
+    return handleMockAdmin(method, id, body);
+  }
+
+  const userId = getUserId(authorization);
+  if (!userId) {
+    return fail(401, 'Authorization header is required');
+  }
+
+  const state = getState();
+
+  if (method === 'GET' && resource === 'app' && id === 'config') {
+    return handleAppConfig(state);
+  }
+
+  if (resource === 'tournament') {
+    if (method === 'POST' && id === 'subscribe') return handleSubscribe(state, userId, body);
+    if (method === 'GET' && action === 'tickets') return handleTickets(state, id, userId);
+    if (method === 'GET' && action === 'game') return handleGame(state, id);
+    if (method === 'POST' && action === 'claim') return handleClaim(state, id, userId, body);
+  }
+
+  return fail(404, `Unknown endpoint: ${method} /api/v1/${path.join('/')}`);
+};
@@ -0,0 +1,100 @@
+import { createSeededRandom, MAX_NUMBER } from '@/lib/tambola-ticket';
+
+export const DEFAULT_CALL_INTERVAL = 3000;
+export const CALL_SPEEDS = [1000, 2000, 3000, 5000, 10000];
+
+// Calls numbers 1–90 in a (optionally seeded) random order on a timer, for
+// driving the game board when the backend isn't calling numbers itself.
+export class LocalNumberCaller {
+  private sequence: number[] = [];
+  private position = 0;
+  private intervalMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private onCall: (calledNumbers: number[]) => void;
+
+  constructor(
+    onCall: (calledNumbers: number[]) => void,
+    seed?: number | string,
+    intervalMs: number = DEFAULT_CALL_INTERVAL
+  ) {
+    this.onCall = onCall;
+    this.intervalMs = intervalMs;
+    this.reset(seed);
+  }
+
+  getCalledNumbers(): number[] {
+    return this.sequence.slice(0, this.position);
+  }
+
+  isFinished(): boolean {
+    return this.position >= this.sequence.length;
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  getInterval(): number {
+    return this.intervalMs;
+  }
+
+  /**
+   * Call the next number immediately. Returns null once all 90 have been called.
+   */
+  callNext(): number | null {
+    if (this.isFinished()) {
+      this.stop();
+      return null;
+    }
+
+    const value = this.sequence[this.position++];
+    this.onCall(this.getCalledNumbers());
+
+    if (this.isFinished()) {
+      this.stop();
+    }
+    return value;
+  }
+
+  start(): void {
+    if (this.timer || this.isFinished()) return;
+
+    this.timer = setInterval(() => this.callNext(), this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Change the calling speed, keeping the caller running if it was
+   */
+  setInterval(intervalMs: number): void {
+    this.intervalMs = intervalMs;
+    if (this.timer) {
+      this.stop();
+      this.start();
+    }
+  }
+
+  /**
+   * Stop and start over with a fresh call order
+   */
+  reset(seed?: number | string): void {
+    this.stop();
+
+    const random = seed !== undefined ? createSeededRandom(seed) : Math.random;
+    const numbers = Array.from({ length: MAX_NUMBER }, (_, index) => index + 1);
+    for (let i = numbers.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [numbers[i], numbers[j]] = [numbers[j], numbers[i]];
+    }
+
+    this.sequence = numbers;
+    this.position = 0;
+    this.onCall([]);
+  }
+}
@@ -0,0 +1,34 @@
+import { Persona, SignInProvider } from '@/types/auth';
+
+// Custom tokens are single-use, so they can't be saved for a persona
+export const PERSONA_PROVIDERS: SignInProvider[] = ['google', 'password', 'anonymous'];
+
+export const createPersona = (overrides: Partial<Persona> = {}): Persona => ({
+  id: `persona-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  label: '',
+  provider: 'google',
+  requestHeaders: {},
+  ...overrides
+});
+
+/**
+ * Parse a header profile written as one "Name: value" line per header
+ */
+export const parseHeaderProfile = (text: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  text.split('\n').forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator <= 0) return;
+
+    const name = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    if (name) {
+      headers[name] = value;
+    }
+  });
+  return headers;
+};
+
+export const formatHeaderProfile = (headers: Record<string, string>): string => {
+  return Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n');
+};
@@ -0,0 +1,98 @@
+import { TAB_ID, publishAuthChange } from '@/lib/auth-sync';
+
+// Claims only hold player ids, so they always live in localStorage where every tab can see them
+const CLAIMS_KEY = 'tambola_player_claims';
+// A tab renews its claims on every heartbeat; claims of a closed or frozen tab lapse after the TTL
+export const CLAIM_HEARTBEAT_MS = 10 * 1000;
+const CLAIM_TTL_MS = 30 * 1000;
+
+export type ClaimStatus = 'mine' | 'other' | 'unclaimed';
+
+interface PlayerClaim {
+  tabId: string;
+  expiresAt: number;
+}
+
+const loadClaims = (): Record<string, PlayerClaim> => {
+  try {
+    const stored = localStorage.getItem(CLAIMS_KEY);
+    const claims: Record<string, PlayerClaim> = stored ? JSON.parse(stored) : {};
+    const now = Date.now();
+    return Object.fromEntries(Object.entries(claims).filter(([, claim]) => claim.expiresAt > now));
+  } catch (error) {
+    console.warn('Failed to load player claims from localStorage:', error);
+    return {};
+  }
+};
+
+const saveClaims = (claims: Record<string, PlayerClaim>): void => {
+  try {
+    localStorage.setItem(CLAIMS_KEY, JSON.stringify(claims));
+    publishAuthChange({ type: 'claims-changed' });
+  } catch (error) {
+    console.warn('Failed to save player claims to localStorage:', error);
+  }
+};
+
+/**
+ * Whether this tab, another tab or nobody currently drives a player
+ */
+export const getClaimStatus = (userId: string): ClaimStatus => {
+  const claim = loadClaims()[userId];
+  if (!claim) return 'unclaimed';
+  return claim.tabId === TAB_ID ? 'mine' : 'other';
+};
+
+/**
+ * Claim a player for this tab. Fails when another tab holds the claim, unless forced.
+ */
+export const claimPlayer = (userId: string, force = false): boolean => {
+  const claims = loadClaims();
+  const existing = claims[userId];
+  if (existing && existing.tabId !== TAB_ID && !force) {
+    return false;
+  }
+
+  claims[userId] = { tabId: TAB_ID, expiresAt: Date.now() + CLAIM_TTL_MS };
+  saveClaims(claims);
+  return true;
+};
+
+export const releasePlayer = (userId: string): void => {
+  const claims = loadClaims();
+  if (claims[userId]?.tabId !== TAB_ID) return;
+
+  delete claims[userId];
+  saveClaims(claims);
+};
+
+/**
+ * Extend this tab's claims on the given players (and drop its claims on anyone else)
+ */
+export const renewClaims = (userIds: string[]): void => {
+  const claims = loadClaims();
+  const keep = new Set(userIds);
+  Object.entries(claims).forEach(([userId, claim]) => {
+    if (claim.tabId !== TAB_ID) return;
+    if (keep.has(userId)) {
+      claim.expiresAt = Date.now() + CLAIM_TTL_MS;
+    } else {
+      delete claims[userId];
+    }
+  });
+
+  try {
+    // Renewals don't change who drives what, so other tabs aren't notified
+    localStorage.setItem(CLAIMS_KEY, JSON.stringify(claims));
+  } catch (error) {
+    console.warn('Failed to renew player claims in localStorage:', error);
+  }
+};
+
+export const releaseAllClaims = (): void => {
+  const claims = loadClaims();
+  const remaining = Object.fromEntries(Object.entries(claims).filter(([, claim]) => claim.tabId !== TAB_ID));
+  if (Object.keys(remaining).length !== Object.keys(claims).length) {
+    saveClaims(remaining);
+  }
+};
@@ -0,0 +1,167 @@
+// Checks that limit what /api/proxy will forward. Everything is configured through server env vars:
+//
+//   PROXY_ALLOWED_PATH_PREFIXES  comma-separated API path prefixes that may be proxied
+//                                (default: DEFAULT_ALLOWED_PATH_PREFIXES, plus MOCK_PATH_PREFIXES
+//                                for the mock backend)
+//   PROXY_MAX_BODY_BYTES         largest request body forwarded (default 1 MB)
+//   PROXY_SHARED_SECRET          when set, callers must send it in the x-proxy-secret header
+//   PROXY_ALLOWED_ORIGINS        when set, comma-separated origins whose pages may call the proxy
+//
+// The secret and origin checks are CSRF mitigation only: they stop other sites' pages from
+// driving the proxy through a visitor's browser. They are NOT access control. The app sends
+// NEXT_PUBLIC_PROXY_SHARED_SECRET, so the secret ships in the client bundle, and any
+// non-browser client can forge Origin/Referer. If the proxy must be restricted to certain
+// people, put it behind real server-side authentication (e.g. a reverse proxy with auth).
+
+import { Environment, MOCK_BASE_URL, getEnvironment } from '@/lib/environments';
+
+export const PROXY_SECRET_HEADER = 'x-proxy-secret';
+
+export const DEFAULT_ALLOWED_PATH_PREFIXES = ['app/', 'tournament/'];
+
+// The mock backend's admin endpoints, only reachable in the environment that uses it
+export const MOCK_PATH_PREFIXES = ['mock/'];
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+export interface ProxyRejection {
+  status: number;
+  error: string;
+}
+
+const parseList = (value: string | undefined): string[] => {
+  return (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+};
+
+export const getAllowedPathPrefixes = (environment: Environment): string[] => {
+  const configured = parseList(process.env.PROXY_ALLOWED_PATH_PREFIXES);
+  const isMockBackend = getEnvironment(environment)?.baseUrl === MOCK_BASE_URL;
+  return [
+    ...(configured.length > 0 ? configured : DEFAULT_ALLOWED_PATH_PREFIXES),
+    ...(isMockBackend ? MOCK_PATH_PREFIXES : [])
+  ]
+    .map(prefix => prefix.replace(/^\/+/, ''))
+    .map(prefix => (prefix.endsWith('/') ? prefix : `${prefix}/`));
+};
+
+export const getMaxBodyBytes = (): number => {
+  const configured = Number(process.env.PROXY_MAX_BODY_BYTES);
+  return configured > 0 ? configured : DEFAULT_MAX_BODY_BYTES;
+};
+
+// Compare without bailing out at the first differing character
+const safeEqual = (a: string, b: string): boolean => {
+  let mismatch = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    mismatch |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return mismatch === 0;
+};
+
+const getRequestOrigin = (headers: Headers): string | null => {
+  const origin = headers.get('origin');
+  if (origin) return origin;
+
+  // Browsers omit Origin on same-origin GETs but still send the referring page
+  const referer = headers.get('referer');
+  if (!referer) return null;
+  try {
+    return new URL(referer).origin;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Headers the app's own pages send with proxy and traffic requests
+ */
+export const getProxyClientHeaders = (): Record<string, string> => {
+  const secret = process.env.NEXT_PUBLIC_PROXY_SHARED_SECRET;
+  return secret ? { [PROXY_SECRET_HEADER]: secret } : {};
+};
+
+/**
+ * Shared-secret and origin checks for the proxy and the traffic endpoints. These are
+ * CSRF mitigation, not access control (see above). Returns null when the caller may proceed.
+ */
+export const checkProxyAccess = (headers: Headers): ProxyRejection | null => {
+  const secret = process.env.PROXY_SHARED_SECRET;
+  if (secret && !safeEqual(headers.get(PROXY_SECRET_HEADER) || '', secret)) {
+    return { status: 403, error: `Missing or invalid ${PROXY_SECRET_HEADER} header` };
+  }
+
+  const allowedOrigins = parseList(process.env.PROXY_ALLOWED_ORIGINS);
+  if (allowedOrigins.length > 0) {
+    const origin = getRequestOrigin(headers);
+    if (!origin || !allowedOrigins.includes(origin)) {
+      return { status: 403, error: `Origin ${origin || '(none)'} is not allowed to use the proxy` };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Turn the catch-all route segments into a normalised API path, rejecting
+ * anything that could escape /api/v1 or that isn't on the allowlist
+ */
+export const resolveApiPath = (segments: string[], environment: Environment): { path: string } | ProxyRejection => {
+  for (const segment of segments) {
+    const hasControlCharacters = Array.from(segment).some(char => char.charCodeAt(0) < 0x20);
+    if (!segment || segment === '.' || segment === '..' || /[/\\]/.test(segment) || hasControlCharacters) {
+      return { status: 400, error: `Invalid path segment: ${JSON.stringify(segment)}` };
+    }
+  }
+
+  const path = segments.map(encodeURIComponent).join('/');
+  // Prefixes end in "/", so "app/" allows "app/config" but not "application"
+  const prefixes = getAllowedPathPrefixes(environment);
+  const allowed = prefixes.some(prefix => `${path}/`.startsWith(prefix));
+  if (!allowed) {
+    return {
+      status: 403,
+      error: `Path "${path}" is not on the proxy allowlist (${prefixes.join(', ')}). ` +
+        'Add its prefix to PROXY_ALLOWED_PATH_PREFIXES on the server to call it'
+    };
+  }
+
+  return { path };
+};
+
+/**
+ * Reject bodies that declare a size over the limit up front
+ */
+export const checkBodySize = (headers: Headers): ProxyRejection | null => {
+  const declared = Number(headers.get('content-length'));
+  const limit = getMaxBodyBytes();
+  if (declared > limit) {
+    return { status: 413, error: `Request body exceeds ${limit} bytes` };
+  }
+  return null;
+};
+
+/**
+ * Pass a body stream through unchanged, erroring once it grows past the limit
+ * (for bodies sent without a Content-Length)
+ */
+export const limitBodySize = (
+  stream: ReadableStream<Uint8Array>,
+  onLimitExceeded: () => void
+): ReadableStream<Uint8Array> => {
+  const limit = getMaxBodyBytes();
+  let size = 0;
+  return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      size += chunk.byteLength;
+      if (size > limit) {
+        onLimitExceeded();
+        controller.error(new Error(`Request body exceeds ${limit} bytes`));
+        return;
+      }
+      controller.enqueue(chunk);
+    }
+  }));
+};
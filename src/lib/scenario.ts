@@ -0,0 +1,286 @@
+import { CLAIM_TYPES } from '@/lib/claim-engine';
+import { HTTP_METHODS } from '@/lib/api-config';
+
+// A scenario is a JSON script of steps run against the signed-in players:
+//
+//   {
+//     "name": "Subscribe and claim",
+//     "players": 2,
+//     "steps": [
+//       { "call": "upcomingTournaments", "save": "upcoming", "expect": [{ "path": "length", "greaterThan": 0 }] },
+//       { "player": "all", "call": "subscribe", "params": { "tournamentId": "${upcoming[0].id}" } },
+//       { "wait": { "until": "${upcoming[0].start}" } },
+//       { "player": "all", "call": "gameState", "params": { "tournamentId": "${upcoming[0].id}" },
+//         "retry": { "timeoutMs": 60000 }, "expect": [{ "path": "status", "equals": "active" }] }
+//     ]
+//   }
+//
+// String values in params, waits and expectations may reference saved results and
+// built-ins with ${path}: "now" (epoch seconds) and "player" (the step's player). Results saved by a step run for several
+// players are kept per player, so later steps for the same player see their own.
+
+export const SCENARIO_CALLS = [
+  'appConfig',
+  'tambolaTournaments',
+  'upcomingTournaments',
+  'activeTournaments',
+  'subscribe',
+  'tickets',
+  'gameState',
+  'claim',
+  'request'
+] as const;
+
+export type ScenarioCall = typeof SCENARIO_CALLS[number];
+
+// A 1-based position among the signed-in players, a slot label / name / email, or "all"
+export type ScenarioPlayerTarget = number | string;
+
+export interface ScenarioExpectation {
+  path?: string; // into the call's result; the whole result when omitted
+  equals?: unknown;
+  notEquals?: unknown;
+  exists?: boolean;
+  greaterThan?: number;
+  lessThan?: number;
+  contains?: unknown; // array item or substring
+}
+
+export interface ScenarioStep {
+  name?: string;
+  player?: ScenarioPlayerTarget;
+  call?: ScenarioCall;
+  params?: Record<string, unknown>;
+  wait?: { ms?: number; until?: number | string }; // until: epoch seconds
+  expect?: ScenarioExpectation[];
+  expectError?: boolean | string; // the call must fail (with a message containing the string)
+  save?: string;
+  retry?: { timeoutMs: number; intervalMs?: number }; // repeat the call until its expectations pass
+  continueOnFailure?: boolean;
+}
+
+export interface Scenario {
+  name: string;
+  players?: number; // how many signed-in players the scenario needs
+  steps: ScenarioStep[];
+}
+
+export type ScenarioVariables = Record<string, unknown>;
+
+export type ScenarioStepStatus = 'pending' | 'running' | 'passed' | 'failed' | 'skipped';
+
+export interface ScenarioStepResult {
+  index: number;
+  name: string;
+  status: ScenarioStepStatus;
+  players: string[];
+  attempts: number;
+  message?: string;
+  durationMs?: number;
+}
+
+export interface ScenarioRun {
+  scenarioName: string;
+  environment: string;
+  status: 'running' | 'passed' | 'failed' | 'aborted';
+  startedAt: number;
+  finishedAt?: number;
+  steps: ScenarioStepResult[];
+}
+
+export const EXAMPLE_SCENARIO: Scenario = {
+  name: 'Subscribe every player to the next tournament',
+  players: 2,
+  steps: [
+    {
+      name: 'Find the next tournament',
+      call: 'upcomingTournaments',
+      save: 'upcoming',
+      expect: [{ path: 'length', greaterThan: 0 }]
+    },
+    {
+      name: 'Subscribe',
+      player: 'all',
+      call: 'subscribe',
+      params: { tournamentId: '${upcoming[0].id}' }
+    },
+    {
+      name: 'Tickets are issued',
+      player: 'all',
+      call: 'tickets',
+      params: { tournamentId: '${upcoming[0].id}' },
+      save: 'tickets',
+      expect: [{ path: 'length', greaterThan: 0 }]
+    },
+    {
+      name: 'Wait for the start',
+      wait: { until: '${upcoming[0].start}' }
+    },
+    {
+      name: 'Game is running',
+      player: 1,
+      call: 'gameState',
+      params: { tournamentId: '${upcoming[0].id}' },
+      retry: { timeoutMs: 60000, intervalMs: 3000 },
+      expect: [{ path: 'status', equals: 'active' }]
+    }
+  ]
+};
+
+/**
+ * A readable name for a step that has none
+ */
+export const describeStep = (step: ScenarioStep, index: number): string => {
+  if (step.name) return step.name;
+  if (step.call) return `${index + 1}. ${step.call}`;
+  return `${index + 1}. wait`;
+};
+
+const CALL_PARAMS: Partial<Record<ScenarioCall, string[]>> = {
+  subscribe: ['tournamentId'],
+  tickets: ['tournamentId'],
+  gameState: ['tournamentId'],
+  claim: ['tournamentId', 'ticketId', 'claim'],
+  request: ['path']
+};
+
+const getStepError = (step: unknown, index: number): string | null => {
+  const label = `Step ${index + 1}`;
+  if (!step || typeof step !== 'object' || Array.isArray(step)) return `${label} is not an object`;
+
+  const { call, wait, params, expect, retry, player } = step as ScenarioStep;
+  if (call === undefined && wait === undefined) return `${label} needs a "call" or a "wait"`;
+  if (call !== undefined && !SCENARIO_CALLS.includes(call)) {
+    return `${label} has an unknown call "${call}". Expected one of: ${SCENARIO_CALLS.join(', ')}`;
+  }
+  if (player !== undefined && typeof player !== 'number' && typeof player !== 'string') {
+    return `${label} has an invalid player`;
+  }
+  if (params !== undefined && (typeof params !== 'object' || params === null || Array.isArray(params))) {
+    return `${label} has invalid params`;
+  }
+  for (const name of (call && CALL_PARAMS[call]) || []) {
+    if (params?.[name] === undefined) return `${label} (${call}) needs params.${name}`;
+  }
+  if (call === 'claim' && typeof params?.claim === 'string' && !params.claim.includes('${') &&
+    !CLAIM_TYPES.includes(params.claim as typeof CLAIM_TYPES[number])) {
+    return `${label} has an unknown claim "${params.claim}". Expected one of: ${CLAIM_TYPES.join(', ')}`;
+  }
+  if (call === 'request' && params?.method !== undefined &&
+    !HTTP_METHODS.includes(String(params.method).toUpperCase() as typeof HTTP_METHODS[number])) {
+    return `${label} has an unknown method "${params.method}"`;
+  }
+  if (wait !== undefined && (typeof wait !== 'object' || wait === null || (wait.ms === undefined && wait.until === undefined))) {
+    return `${label} needs wait.ms or wait.until`;
+  }
+  if (expect !== undefined && !Array.isArray(expect)) return `${label} has "expect" that is not a list`;
+  if (retry !== undefined && (typeof retry !== 'object' || retry === null || typeof retry.timeoutMs !== 'number')) {
+    return `${label} needs retry.timeoutMs`;
+  }
+  return null;
+};
+
+/**
+ * Parse and validate a scenario written as JSON
+ */
+export const parseScenario = (text: string): Scenario => {
+  let scenario: unknown;
+  try {
+    scenario = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Scenario is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (!scenario || typeof scenario !== 'object' || !Array.isArray((scenario as Scenario).steps)) {
+    throw new Error('Scenario needs a "steps" list');
+  }
+
+  const { name, players, steps } = scenario as Scenario;
+  if (players !== undefined && (typeof players !== 'number' || players < 1)) {
+    throw new Error('"players" must be a positive number');
+  }
+  steps.forEach((step, index) => {
+    const error = getStepError(step, index);
+    if (error) throw new Error(error);
+  });
+
+  return { name: typeof name === 'string' && name ? name : 'Untitled scenario', players, steps };
+};
+
+/**
+ * Read a value by path, e.g. "tickets[0].id" or "length"
+ */
+export const getPath = (value: unknown, path?: string): unknown => {
+  if (!path) return value;
+  return path
+    .split(/[.[\]]/)
+    .filter(Boolean)
+    .reduce<unknown>((current, key) => (
+      current !== null && current !== undefined ? (current as Record<string, unknown>)[key] : undefined
+    ), value);
+};
+
+const TEMPLATE_PATTERN = /\$\{([^}]+)\}/g;
+
+/**
+ * Substitute ${path} references. A string that is a single reference keeps the
+ * referenced value's type; references inside longer strings are stringified.
+ */
+export const resolveTemplates = (value: unknown, variables: ScenarioVariables): unknown => {
+  if (typeof value === 'string') {
+    const whole = value.match(/^\$\{([^}]+)\}$/);
+    if (whole) {
+      return getPath(variables, whole[1].trim());
+    }
+    return value.replace(TEMPLATE_PATTERN, (_, path: string) => {
+      const resolved = getPath(variables, path.trim());
+      return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveTemplates(item, variables));
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value).reduce<Record<string, unknown>>((resolved, [key, item]) => {
+      resolved[key] = resolveTemplates(item, variables);
+      return resolved;
+    }, {});
+  }
+  return value;
+};
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Check one expectation against a result; returns why it failed, or null when it holds
+ */
+export const checkExpectation = (result: unknown, expectation: ScenarioExpectation): string | null => {
+  const target = expectation.path || 'result';
+  const actual = getPath(result, expectation.path);
+  const shown = JSON.stringify(actual);
+
+  if (expectation.exists !== undefined && (actual !== undefined && actual !== null) !== expectation.exists) {
+    return expectation.exists ? `${target} is missing` : `${target} exists (${shown})`;
+  }
+  if ('equals' in expectation && !isEqual(actual, expectation.equals)) {
+    return `${target} is ${shown}, expected ${JSON.stringify(expectation.equals)}`;
+  }
+  if ('notEquals' in expectation && isEqual(actual, expectation.notEquals)) {
+    return `${target} is ${shown}`;
+  }
+  if (expectation.greaterThan !== undefined && !(Number(actual) > expectation.greaterThan)) {
+    return `${target} is ${shown}, expected more than ${expectation.greaterThan}`;
+  }
+  if (expectation.lessThan !== undefined && !(Number(actual) < expectation.lessThan)) {
+    return `${target} is ${shown}, expected less than ${expectation.lessThan}`;
+  }
+  if ('contains' in expectation) {
+    const contains = Array.isArray(actual)
+      ? actual.some(item => isEqual(item, expectation.contains))
+      : typeof actual === 'string' && actual.includes(String(expectation.contains));
+    if (!contains) {
+      return `${target} does not contain ${JSON.stringify(expectation.contains)}`;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,158 @@
+import {
+  Auth,
+  User,
+  GoogleAuthProvider,
+  signInWithPopup,
+  signInWithEmailAndPassword,
+  createUserWithEmailAndPassword,
+  signInAnonymously,
+  signInWithCustomToken
+} from 'firebase/auth';
+import { FirebaseError } from 'firebase/app';
+import { SignInProvider } from '@/types/auth';
+
+export interface SignInOptions {
+  provider: SignInProvider;
+  email?: string;
+  password?: string;
+  customToken?: string;
+  // Pre-selects the account in Google's chooser (login_hint)
+  loginHint?: string;
+  // Create the email/password account when it doesn't exist yet (throwaway test accounts)
+  createIfMissing?: boolean;
+}
+
+export const SIGN_IN_PROVIDERS: SignInProvider[] = ['google', 'password', 'anonymous', 'customToken'];
+
+export const SIGN_IN_PROVIDER_LABELS: Record<SignInProvider, string> = {
+  google: 'Google',
+  password: 'Email & password',
+  anonymous: 'Anonymous',
+  customToken: 'Custom token'
+};
+
+// Firebase returns invalid-credential instead of user-not-found when email
+// enumeration protection is on, so both mean "maybe the account doesn't exist"
+const MISSING_ACCOUNT_CODES = ['auth/user-not-found', 'auth/invalid-credential', 'auth/invalid-login-credentials'];
+
+const signInWithGoogle = async (auth: Auth, loginHint?: string): Promise<User> => {
+  const provider = new GoogleAuthProvider();
+  provider.setCustomParameters({
+    prompt: 'select_account', // Force account selection
+    ...(loginHint ? { login_hint: loginHint } : {})
+  });
+  provider.addScope('email');
+  provider.addScope('profile');
+
+  // Each popup is independent because every slot has its own Firebase app
+  const result = await signInWithPopup(auth, provider);
+  return result.user;
+};
+
+const signInWithPassword = async (
+  auth: Auth,
+  email: string,
+  password: string,
+  createIfMissing: boolean
+): Promise<User> => {
+  try {
+    const result = await signInWithEmailAndPassword(auth, email, password);
+    return result.user;
+  } catch (error) {
+    if (!(error instanceof FirebaseError) || !MISSING_ACCOUNT_CODES.includes(error.code)) {
+      throw error;
+    }
+    if (!createIfMissing) {
+      throw new Error(error.code === 'auth/user-not-found'
+        ? `User not found: ${email}`
+        : `User not found or wrong password: ${email}`);
+    }
+
+    try {
+      const result = await createUserWithEmailAndPassword(auth, email, password);
+      return result.user;
+    } catch (createError) {
+      // The account exists after all, so the password was wrong
+      if (createError instanceof FirebaseError && createError.code === 'auth/email-already-in-use') {
+        throw error;
+      }
+      throw createError;
+    }
+  }
+};
+
+/**
+ * Sign a player slot's Firebase Auth instance in with the chosen provider
+ */
+export const signInWithProvider = async (auth: Auth, options: SignInOptions): Promise<User> => {
+  switch (options.provider) {
+    case 'google':
+      return signInWithGoogle(auth, options.loginHint?.trim());
+
+    case 'password':
+      if (!options.email || !options.password) {
+        throw new Error('Email and password are required');
+      }
+      return signInWithPassword(auth, options.email.trim(), options.password, options.createIfMissing ?? false);
+
+    case 'anonymous': {
+      const result = await signInAnonymously(auth);
+      return result.user;
+    }
+
+    case 'customToken': {
+      if (!options.customToken?.trim()) {
+        throw new Error('A custom token is required');
+      }
+      const result = await signInWithCustomToken(auth, options.customToken.trim());
+      return result.user;
+    }
+  }
+};
+
+/**
+ * Whether a slot can be signed in without any user interaction (for filling slots in bulk)
+ */
+export const canSignInUnattended = (options: SignInOptions): boolean => {
+  switch (options.provider) {
+    case 'anonymous':
+      return true;
+    case 'password':
+      return Boolean(options.email && options.password);
+    case 'customToken':
+      return Boolean(options.customToken?.trim());
+    default:
+      return false;
+  }
+};
+
+const TEST_ACCOUNT_EMAIL = /^tambola-player-[a-z0-9]+@example\.com$/;
+
+/**
+ * Credentials for a throwaway email/password account
+ */
+export const generateTestAccount = (): { email: string; password: string } => {
+  const suffix = `${Date.now().toString(36)}${Math.random().toString(36).substr(2, 5)}`;
+  return {
+    email: `tambola-player-${suffix}@example.com`,
+    password: Math.random().toString(36).substr(2, 12) + Math.random().toString(36).substr(2, 4).toUpperCase()
+  };
+};
+
+/**
+ * Whether an email/password account may be created on first sign-in: always for accounts from
+ * generateTestAccount, otherwise only outside production, so a mistyped email for a real
+ * account is reported instead of silently becoming a new user
+ */
+export const mayCreateAccount = (email: string | undefined, production: boolean): boolean => {
+  return !production || TEST_ACCOUNT_EMAIL.test(email?.trim() || '');
+};
+
+/**
+ * A display name for accounts that don't come with one (anonymous and most test accounts)
+ */
+export const getFallbackDisplayName = (user: User, provider: SignInProvider): string => {
+  if (user.displayName) return user.displayName;
+  if (user.email) return user.email.split('@')[0];
+  return `${SIGN_IN_PROVIDER_LABELS[provider]} ${user.uid.substring(0, 6)}`;
+};
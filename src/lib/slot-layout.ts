@@ -0,0 +1,69 @@
+// Player slots are user-defined per environment: each has a stable id (which its
+// sign-in settings and restored player are keyed by), a label and a colour.
+
+export const SLOT_COLORS = ['blue', 'green', 'purple', 'orange', 'red', 'yellow', 'pink', 'teal', 'gray'] as const;
+
+export type SlotColor = typeof SLOT_COLORS[number];
+
+export interface SlotDefinition {
+  id: string;
+  label: string;
+  color: SlotColor;
+}
+
+export const MAX_SLOTS = 16;
+
+/**
+ * The layout used before any was saved: "Player 1"... with the slot-1... ids that
+ * sign-in settings were stored under before layouts existed
+ */
+export const createDefaultLayout = (count: number): SlotDefinition[] => {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `slot-${index + 1}`,
+    label: `Player ${index + 1}`,
+    color: SLOT_COLORS[index % SLOT_COLORS.length]
+  }));
+};
+
+/**
+ * A new slot to append to a layout, with the next free "Player N" label and colour
+ */
+export const createSlotDefinition = (layout: SlotDefinition[]): SlotDefinition => {
+  const labels = new Set(layout.map(slot => slot.label));
+  let number = layout.length + 1;
+  while (labels.has(`Player ${number}`)) {
+    number++;
+  }
+
+  return {
+    id: `slot-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    label: `Player ${number}`,
+    color: SLOT_COLORS[layout.length % SLOT_COLORS.length]
+  };
+};
+
+/**
+ * Validate a stored layout, dropping malformed or duplicate slots. Returns null
+ * when nothing usable is left.
+ */
+export const normalizeSlotLayout = (value: unknown): SlotDefinition[] | null => {
+  if (!Array.isArray(value)) return null;
+
+  const ids = new Set<string>();
+  const layout = value
+    .filter((slot): slot is SlotDefinition => {
+      if (!slot || typeof slot.id !== 'string' || typeof slot.label !== 'string' || ids.has(slot.id)) {
+        return false;
+      }
+      ids.add(slot.id);
+      return true;
+    })
+    .map(slot => ({
+      id: slot.id,
+      label: slot.label,
+      color: SLOT_COLORS.includes(slot.color) ? slot.color : 'gray' as SlotColor
+    }))
+    .slice(0, MAX_SLOTS);
+
+  return layout.length > 0 ? layout : null;
+};
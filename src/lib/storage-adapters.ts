@@ -0,0 +1,124 @@
+export type StorageBackend = 'localStorage' | 'sessionStorage' | 'indexedDB' | 'memory';
+
+export const STORAGE_BACKENDS: StorageBackend[] = ['localStorage', 'sessionStorage', 'indexedDB', 'memory'];
+
+export const STORAGE_BACKEND_LABELS: Record<StorageBackend, string> = {
+  localStorage: 'localStorage (persistent)',
+  sessionStorage: 'sessionStorage (this tab only)',
+  indexedDB: 'IndexedDB (persistent)',
+  memory: 'In-memory (until reload)'
+};
+
+/**
+ * Key/value storage used by AuthStorage. Async so IndexedDB and encryption fit behind it.
+ */
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export class WebStorageAdapter implements StorageAdapter {
+  readonly backend: StorageBackend;
+  private storage: () => Storage;
+
+  constructor(backend: 'localStorage' | 'sessionStorage') {
+    this.backend = backend;
+    // Resolved lazily so the adapter can be created during server rendering
+    this.storage = () => (backend === 'localStorage' ? window.localStorage : window.sessionStorage);
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.storage().getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.storage().setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.storage().removeItem(key);
+  }
+}
+
+const IDB_NAME = 'tambola';
+const IDB_STORE = 'auth';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export class IndexedDbAdapter implements StorageAdapter {
+  readonly backend: StorageBackend = 'indexedDB';
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(IDB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+      this.db = requestToPromise(request);
+      // Let a later call try again instead of caching the failure
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return requestToPromise(operation(db.transaction(IDB_STORE, mode).objectStore(IDB_STORE)));
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.run('readonly', store => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.run('readwrite', store => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+}
+
+// Shared by every in-memory adapter so switching settings doesn't lose the page's data
+const memoryStore = new Map<string, string>();
+
+export class MemoryAdapter implements StorageAdapter {
+  readonly backend: StorageBackend = 'memory';
+
+  async getItem(key: string): Promise<string | null> {
+    return memoryStore.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    memoryStore.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    memoryStore.delete(key);
+  }
+}
+
+export const isStorageBackend = (value: unknown): value is StorageBackend => {
+  return STORAGE_BACKENDS.includes(value as StorageBackend);
+};
+
+export const createStorageAdapter = (backend: StorageBackend): StorageAdapter => {
+  switch (backend) {
+    case 'localStorage':
+    case 'sessionStorage':
+      return new WebStorageAdapter(backend);
+    case 'indexedDB':
+      return new IndexedDbAdapter();
+    case 'memory':
+      return new MemoryAdapter();
+  }
+};
@@ -0,0 +1,119 @@
+import { StorageAdapter, StorageBackend } from '@/lib/storage-adapters';
+
+// Stored next to the encrypted data, in plaintext: the salt isn't secret and the
+// check value only tells a wrong passphrase apart from the right one
+const SALT_KEY = 'tambola_storage_salt';
+const CHECK_KEY = 'tambola_storage_check';
+const CHECK_VALUE = 'tambola-storage-check';
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const PBKDF2_ITERATIONS = 310000;
+
+export const ENCRYPTION_METADATA_KEYS = [SALT_KEY, CHECK_KEY];
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+};
+
+const getSubtle = (): SubtleCrypto => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('Encrypted storage needs WebCrypto, which is only available over HTTPS or on localhost');
+  }
+  return crypto.subtle;
+};
+
+/**
+ * Derive an AES-GCM key from a passphrase with PBKDF2
+ */
+export const deriveStorageKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> => {
+  const subtle = getSubtle();
+  const material = await subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encrypt = async (key: CryptoKey, plaintext: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await getSubtle().encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return `${ENCRYPTED_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+};
+
+const decrypt = async (key: CryptoKey, value: string): Promise<string> => {
+  const [iv, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  const plaintext = await getSubtle().decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(ciphertext));
+  return new TextDecoder().decode(plaintext);
+};
+
+// Encrypts values at rest with AES-GCM before handing them to the wrapped adapter
+export class EncryptedStorageAdapter implements StorageAdapter {
+  readonly backend: StorageBackend;
+  private inner: StorageAdapter;
+  private key: CryptoKey;
+
+  constructor(inner: StorageAdapter, key: CryptoKey) {
+    this.backend = inner.backend;
+    this.inner = inner;
+    this.key = key;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.inner.getItem(key);
+    if (value === null) return null;
+    if (!value.startsWith(ENCRYPTED_PREFIX)) {
+      console.warn(`Ignoring unencrypted value stored under ${key}`);
+      return null;
+    }
+    return decrypt(this.key, value);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.inner.setItem(key, await encrypt(this.key, value));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.inner.removeItem(key);
+  }
+}
+
+/**
+ * Open encrypted storage on top of an adapter. The first unlock sets the passphrase;
+ * later ones throw when the passphrase doesn't match.
+ */
+export const unlockEncryptedStorage = async (
+  inner: StorageAdapter,
+  passphrase: string
+): Promise<EncryptedStorageAdapter> => {
+  if (!passphrase) {
+    throw new Error('A passphrase is required');
+  }
+
+  const storedSalt = await inner.getItem(SALT_KEY);
+  const salt = storedSalt ? fromBase64(storedSalt) : crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveStorageKey(passphrase, salt);
+
+  const check = await inner.getItem(CHECK_KEY);
+  if (storedSalt && check) {
+    try {
+      if (await decrypt(key, check) !== CHECK_VALUE) throw new Error('Check value mismatch');
+    } catch {
+      throw new Error('Wrong passphrase for the encrypted storage');
+    }
+  } else {
+    await inner.setItem(SALT_KEY, toBase64(salt));
+    await inner.setItem(CHECK_KEY, await encrypt(key, CHECK_VALUE));
+  }
+
+  return new EncryptedStorageAdapter(inner, key);
+};
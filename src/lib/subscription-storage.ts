@@ -0,0 +1,67 @@
+import { TournamentSubscription } from '@/types/auth';
+import { Environment } from '@/lib/environments';
+
+const STORAGE_KEY = 'tambola_subscriptions';
+
+const isSameSubscription = (a: TournamentSubscription, b: TournamentSubscription): boolean =>
+  a.tournamentId === b.tournamentId &&
+  a.userId === b.userId &&
+  a.environment === b.environment;
+
+export class SubscriptionStorage {
+  /**
+   * Load tournament subscriptions from localStorage, optionally for one environment
+   */
+  static loadSubscriptions(environment?: Environment): TournamentSubscription[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return [];
+
+      const subscriptions: TournamentSubscription[] = JSON.parse(stored);
+      return environment
+        ? subscriptions.filter(s => s.environment === environment)
+        : subscriptions;
+    } catch (error) {
+      console.warn('Failed to load subscriptions from localStorage:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save a subscription, replacing any existing one for the same player and tournament
+   */
+  static saveSubscription(subscription: TournamentSubscription): void {
+    try {
+      const subscriptions = this.loadSubscriptions().filter(s => !isSameSubscription(s, subscription));
+      subscriptions.push(subscription);
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(subscriptions));
+    } catch (error) {
+      console.warn('Failed to save subscription to localStorage:', error);
+    }
+  }
+
+  /**
+   * Remove a player's subscription to a tournament
+   */
+  static removeSubscription(tournamentId: string, userId: string, environment: Environment): void {
+    try {
+      const subscriptions = this.loadSubscriptions().filter(s =>
+        !(s.tournamentId === tournamentId && s.userId === userId && s.environment === environment)
+      );
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(subscriptions));
+    } catch (error) {
+      console.warn('Failed to remove subscription from localStorage:', error);
+    }
+  }
+
+  /**
+   * Clear all subscriptions from localStorage
+   */
+  static clearAll(): void {
+    try {
+      localStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.warn('Failed to clear subscriptions from localStorage:', error);
+    }
+  }
+}
@@ -0,0 +1,324 @@
+import { TambolaTicket } from '@/types/auth';
+
+// Standard Tambola ticket layout: 3 rows x 9 columns, 5 numbers per row, 15 per ticket.
+// Blank cells are represented as 0 in the numbers grid.
+export const TICKET_ROWS = 3;
+export const TICKET_COLUMNS = 9;
+export const NUMBERS_PER_ROW = 5;
+export const NUMBERS_PER_TICKET = NUMBERS_PER_ROW * TICKET_ROWS;
+export const TICKETS_PER_STRIP = 6;
+export const MAX_NUMBER = 90;
+
+export interface TicketValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+export type RandomSource = () => number;
+
+/**
+ * Inclusive number range for a column: 1–9, 10–19 … 70–79, 80–90
+ */
+export const getColumnRange = (column: number): [number, number] => {
+  const min = column === 0 ? 1 : column * 10;
+  const max = column === TICKET_COLUMNS - 1 ? MAX_NUMBER : column * 10 + 9;
+  return [min, max];
+};
+
+export const getColumnForNumber = (value: number): number => {
+  return Math.min(Math.floor(value / 10), TICKET_COLUMNS - 1);
+};
+
+/**
+ * Create a deterministic random source (mulberry32) from a numeric or string seed
+ */
+export const createSeededRandom = (seed: number | string): RandomSource => {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const hashSeed = (seed: string): number => {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const shuffle = <T>(items: T[], random: RandomSource): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const range = (min: number, max: number): number[] =>
+  Array.from({ length: max - min + 1 }, (_, index) => min + index);
+
+/**
+ * Lay out each column's numbers into a 3x9 grid with 5 numbers per row.
+ * Columns are placed fullest first, each into its least-filled rows, which keeps
+ * row counts within one of each other and therefore always ends at 5/5/5.
+ */
+const layoutTicket = (columns: number[][], random: RandomSource): number[][] => {
+  const grid = Array.from({ length: TICKET_ROWS }, () => Array(TICKET_COLUMNS).fill(0));
+  const rowCounts = Array(TICKET_ROWS).fill(0);
+
+  const columnOrder = shuffle(range(0, TICKET_COLUMNS - 1), random)
+    .sort((a, b) => columns[b].length - columns[a].length);
+
+  for (const column of columnOrder) {
+    const values = [...columns[column]].sort((a, b) => a - b);
+    const rows = shuffle(range(0, TICKET_ROWS - 1), random)
+      .sort((a, b) => rowCounts[a] - rowCounts[b])
+      .slice(0, values.length)
+      .sort((a, b) => a - b);
+
+    rows.forEach((row, index) => {
+      grid[row][column] = values[index];
+      rowCounts[row]++;
+    });
+  }
+
+  return grid;
+};
+
+/**
+ * Generate a single standard ticket grid (3x9, 15 numbers, at least one per column)
+ */
+export const generateTicketNumbers = (seed?: number | string): number[][] => {
+  const random = seed !== undefined ? createSeededRandom(seed) : Math.random;
+
+  // Every column gets one number, the remaining six go to random columns (max 3 per column)
+  const counts = Array(TICKET_COLUMNS).fill(1);
+  let remaining = NUMBERS_PER_TICKET - TICKET_COLUMNS;
+  while (remaining > 0) {
+    const column = Math.floor(random() * TICKET_COLUMNS);
+    if (counts[column] < TICKET_ROWS) {
+      counts[column]++;
+      remaining--;
+    }
+  }
+
+  const columns = counts.map((count, column) => {
+    const [min, max] = getColumnRange(column);
+    return shuffle(range(min, max), random).slice(0, count);
+  });
+
+  return layoutTicket(columns, random);
+};
+
+/**
+ * Generate a strip of 6 tickets that together contain every number 1–90 exactly once
+ */
+export const generateStripNumbers = (seed?: number | string): number[][][] => {
+  const random = seed !== undefined ? createSeededRandom(seed) : Math.random;
+
+  // Distributing the leftover numbers greedily can occasionally paint itself into a
+  // corner (a ticket full before a column is drained); retry with the same random stream.
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const tickets = distributeStrip(random);
+    if (tickets) {
+      return tickets.map(columns => layoutTicket(columns, random));
+    }
+  }
+
+  throw new Error('Failed to generate a valid Tambola strip');
+};
+
+const distributeStrip = (random: RandomSource): number[][][] | null => {
+  const tickets: number[][][] = Array.from({ length: TICKETS_PER_STRIP }, () =>
+    Array.from({ length: TICKET_COLUMNS }, () => [] as number[])
+  );
+  const ticketSizes = Array(TICKETS_PER_STRIP).fill(0);
+
+  const leftovers: number[][] = [];
+  for (let column = 0; column < TICKET_COLUMNS; column++) {
+    const [min, max] = getColumnRange(column);
+    const values = shuffle(range(min, max), random);
+
+    // One number per column on every ticket
+    for (let ticket = 0; ticket < TICKETS_PER_STRIP; ticket++) {
+      tickets[ticket][column].push(values[ticket]);
+      ticketSizes[ticket]++;
+    }
+    leftovers.push(values.slice(TICKETS_PER_STRIP));
+  }
+
+  // Hand out the rest, starting with the columns that have the most left over
+  const columnOrder = range(0, TICKET_COLUMNS - 1)
+    .sort((a, b) => leftovers[b].length - leftovers[a].length);
+
+  for (const column of columnOrder) {
+    for (const value of leftovers[column]) {
+      const candidates = range(0, TICKETS_PER_STRIP - 1).filter(ticket =>
+        ticketSizes[ticket] < NUMBERS_PER_TICKET &&
+        tickets[ticket][column].length < TICKET_ROWS
+      );
+      if (candidates.length === 0) return null;
+
+      // Prefer the emptiest tickets so later columns still have room
+      const minSize = Math.min(...candidates.map(ticket => ticketSizes[ticket]));
+      const emptiest = candidates.filter(ticket => ticketSizes[ticket] === minSize);
+      const ticket = emptiest[Math.floor(random() * emptiest.length)];
+
+      tickets[ticket][column].push(value);
+      ticketSizes[ticket]++;
+    }
+  }
+
+  return tickets;
+};
+
+/**
+ * Check a ticket grid against the standard layout rules
+ */
+export const validateTicketNumbers = (numbers: unknown): TicketValidationResult => {
+  const errors: string[] = [];
+
+  if (!Array.isArray(numbers) || numbers.length !== TICKET_ROWS) {
+    return { valid: false, errors: [`Ticket must have ${TICKET_ROWS} rows`] };
+  }
+
+  for (let row = 0; row < TICKET_ROWS; row++) {
+    const cells = numbers[row];
+    if (!Array.isArray(cells) || cells.length !== TICKET_COLUMNS) {
+      return { valid: false, errors: [`Row ${row + 1} must have ${TICKET_COLUMNS} columns`] };
+    }
+    if (cells.some(cell => typeof cell !== 'number' || !Number.isInteger(cell))) {
+      return { valid: false, errors: [`Row ${row + 1} contains non-integer cells`] };
+    }
+  }
+
+  const grid = numbers as number[][];
+  const seen = new Set<number>();
+
+  grid.forEach((cells, row) => {
+    const filled = cells.filter(cell => cell !== 0).length;
+    if (filled !== NUMBERS_PER_ROW) {
+      errors.push(`Row ${row + 1} has ${filled} numbers, expected ${NUMBERS_PER_ROW}`);
+    }
+
+    cells.forEach((cell, column) => {
+      if (cell === 0) return;
+
+      const [min, max] = getColumnRange(column);
+      if (cell < min || cell > max) {
+        errors.push(`Number ${cell} in row ${row + 1} is outside column ${column + 1} range ${min}–${max}`);
+      }
+      if (seen.has(cell)) {
+        errors.push(`Number ${cell} appears more than once`);
+      }
+      seen.add(cell);
+    });
+  });
+
+  for (let column = 0; column < TICKET_COLUMNS; column++) {
+    const values = grid.map(cells => cells[column]).filter(cell => cell !== 0);
+
+    if (values.length === 0) {
+      errors.push(`Column ${column + 1} is empty`);
+    }
+    for (let i = 1; i < values.length; i++) {
+      if (values[i] <= values[i - 1]) {
+        errors.push(`Column ${column + 1} is not sorted top to bottom`);
+        break;
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+};
+
+/**
+ * Check a strip of tickets: each ticket valid, no overlaps and 1–90 fully covered
+ */
+export const validateStripNumbers = (strip: number[][][]): TicketValidationResult => {
+  const errors: string[] = [];
+
+  if (strip.length !== TICKETS_PER_STRIP) {
+    errors.push(`Strip has ${strip.length} tickets, expected ${TICKETS_PER_STRIP}`);
+  }
+
+  const seen = new Map<number, number>();
+  strip.forEach((numbers, ticketIndex) => {
+    const result = validateTicketNumbers(numbers);
+    errors.push(...result.errors.map(error => `Ticket ${ticketIndex + 1}: ${error}`));
+    if (!result.valid) return;
+
+    numbers.flat().filter(cell => cell !== 0).forEach(cell => {
+      const other = seen.get(cell);
+      if (other !== undefined) {
+        errors.push(`Number ${cell} appears on tickets ${other + 1} and ${ticketIndex + 1}`);
+      }
+      seen.set(cell, ticketIndex);
+    });
+  });
+
+  if (errors.length === 0 && seen.size !== MAX_NUMBER) {
+    errors.push(`Strip covers ${seen.size} numbers, expected all ${MAX_NUMBER}`);
+  }
+
+  return { valid: errors.length === 0, errors };
+};
+
+/**
+ * Validate a ticket received from the server
+ */
+export const validateTicket = (ticket: TambolaTicket): TicketValidationResult => {
+  return validateTicketNumbers(ticket.numbers);
+};
+
+export const createTicket = (
+  userId: string,
+  tournamentId: string,
+  numbers: number[][],
+  ticketId: string = `ticket-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+): TambolaTicket => ({
+  ticketId,
+  userId,
+  tournamentId,
+  numbers,
+  claims: {
+    earlyFive: false,
+    topLine: false,
+    middleLine: false,
+    bottomLine: false,
+    fullHouse: false
+  }
+});
+
+/**
+ * Generate a full strip of TambolaTickets for one player. A seed is combined with the
+ * tournament and player so each player still gets their own (reproducible) strip.
+ */
+export const generateStrip = (
+  userId: string,
+  tournamentId: string,
+  seed?: number | string
+): TambolaTicket[] => {
+  const playerSeed = seed !== undefined ? `${seed}:${tournamentId}:${userId}` : undefined;
+  return generateStripNumbers(playerSeed).map((numbers, index) =>
+    createTicket(
+      userId,
+      tournamentId,
+      numbers,
+      seed !== undefined ? `${tournamentId}-${userId}-${seed}-${index + 1}` : undefined
+    )
+  );
+};
+
+export const getTicketNumbers = (numbers: number[][]): number[] => {
+  return numbers.flat().filter(cell => cell !== 0);
+};
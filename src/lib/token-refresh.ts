@@ -0,0 +1,209 @@
+import { Environment, requireEnvironment } from '@/lib/environments';
+import { getFirebaseConfig } from '@/lib/firebase-config';
+import { getTokenExpiry } from '@/lib/jwt';
+
+// Refresh this long before the token's exp claim...
+export const REFRESH_LEAD_TIME_MS = 5 * 60 * 1000;
+// ...minus up to this much random jitter, so slots signed in together don't refresh together
+export const REFRESH_JITTER_MS = 2 * 60 * 1000;
+// Retry failed refreshes after 15s, 30s, 1m... up to 5 minutes
+const RETRY_BASE_DELAY_MS = 15 * 1000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+const MIN_DELAY_MS = 1000;
+const HISTORY_LIMIT = 20;
+
+export type RefreshTrigger = 'scheduled' | 'retry' | 'manual';
+
+export interface RefreshAttempt {
+  time: number;
+  trigger: RefreshTrigger;
+  success: boolean;
+  expiresAt: number | null; // expiry of the new token
+  error?: string;
+}
+
+export interface RefreshScheduleState {
+  nextRefreshAt: number | null;
+  tokenExpiry: number | null;
+  consecutiveFailures: number;
+  isRefreshing: boolean;
+  history: RefreshAttempt[]; // newest first
+}
+
+interface TrackedToken extends RefreshScheduleState {
+  token: string;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Exchange a Firebase refresh token for a new ID token through the Secure Token
+ * REST API. Used for players restored from storage, whose Firebase instance has no
+ * signed-in user to call getIdToken(true) on.
+ */
+export const exchangeRefreshToken = async (
+  environment: Environment,
+  refreshToken: string
+): Promise<{ idToken: string; refreshToken: string }> => {
+  const { apiKey } = getFirebaseConfig(environment);
+  const { authEmulatorUrl } = requireEnvironment(environment);
+  const host = authEmulatorUrl
+    ? `${authEmulatorUrl.replace(/\/$/, '')}/securetoken.googleapis.com`
+    : 'https://securetoken.googleapis.com';
+
+  const response = await fetch(`${host}/v1/token?key=${encodeURIComponent(apiKey)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ grant_type: 'refresh_token', refresh_token: refreshToken }).toString()
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error?.message || `Token refresh failed: ${response.status} ${response.statusText}`);
+  }
+
+  return { idToken: data.id_token, refreshToken: data.refresh_token };
+};
+
+// Keeps every tracked player's ID token fresh by refreshing shortly before the
+// exp claim, backing off exponentially while refreshes fail.
+export class TokenRefreshScheduler {
+  private tracked = new Map<string, TrackedToken>();
+  private refresh: (userId: string) => Promise<string>;
+  private onChange: () => void;
+
+  constructor(refresh: (userId: string) => Promise<string>, onChange: () => void) {
+    this.refresh = refresh;
+    this.onChange = onChange;
+  }
+
+  /**
+   * Start (or keep) tracking a player's token. A token different from the one
+   * already tracked, e.g. after a refresh elsewhere, reschedules from its expiry.
+   */
+  track(userId: string, token: string): void {
+    const existing = this.tracked.get(userId);
+    if (existing && (existing.token === token || existing.isRefreshing)) return;
+
+    if (existing?.timer) {
+      clearTimeout(existing.timer);
+    }
+
+    const entry: TrackedToken = {
+      token,
+      timer: null,
+      nextRefreshAt: null,
+      tokenExpiry: getTokenExpiry(token),
+      consecutiveFailures: 0,
+      isRefreshing: false,
+      history: existing?.history || []
+    };
+    this.tracked.set(userId, entry);
+    this.scheduleFromExpiry(userId, entry);
+    this.onChange();
+  }
+
+  untrack(userId: string): void {
+    const entry = this.tracked.get(userId);
+    if (entry?.timer) {
+      clearTimeout(entry.timer);
+    }
+    this.tracked.delete(userId);
+    this.onChange();
+  }
+
+  getTrackedUserIds(): string[] {
+    return Array.from(this.tracked.keys());
+  }
+
+  getState(userId: string): RefreshScheduleState | null {
+    const entry = this.tracked.get(userId);
+    if (!entry) return null;
+
+    const { nextRefreshAt, tokenExpiry, consecutiveFailures, isRefreshing, history } = entry;
+    return { nextRefreshAt, tokenExpiry, consecutiveFailures, isRefreshing, history };
+  }
+
+  /**
+   * Refresh a player's token right away. Resolves to the new token, or rejects
+   * with the refresh error (the retry schedule still applies).
+   */
+  refreshNow(userId: string, trigger: RefreshTrigger = 'manual'): Promise<string> {
+    const entry = this.tracked.get(userId);
+    if (!entry) {
+      return Promise.reject(new Error('Player is not tracked for token refresh'));
+    }
+    return this.runRefresh(userId, entry, trigger);
+  }
+
+  stop(): void {
+    this.tracked.forEach(entry => {
+      if (entry.timer) clearTimeout(entry.timer);
+    });
+    this.tracked.clear();
+  }
+
+  private scheduleFromExpiry(userId: string, entry: TrackedToken): void {
+    const jitter = Math.random() * REFRESH_JITTER_MS;
+    const refreshAt = (entry.tokenExpiry ?? Date.now()) - REFRESH_LEAD_TIME_MS - jitter;
+    this.scheduleAt(userId, entry, refreshAt, 'scheduled');
+  }
+
+  private scheduleAt(userId: string, entry: TrackedToken, time: number, trigger: RefreshTrigger): void {
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+
+    const delay = Math.max(time - Date.now(), MIN_DELAY_MS);
+    entry.nextRefreshAt = Date.now() + delay;
+    entry.timer = setTimeout(() => {
+      entry.timer = null;
+      // The promise is only for refreshNow callers; failures are recorded in the history
+      this.runRefresh(userId, entry, trigger).catch(() => undefined);
+    }, delay);
+  }
+
+  private async runRefresh(userId: string, entry: TrackedToken, trigger: RefreshTrigger): Promise<string> {
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+      entry.timer = null;
+    }
+    entry.isRefreshing = true;
+    entry.nextRefreshAt = null;
+    this.onChange();
+
+    try {
+      const token = await this.refresh(userId);
+      if (this.tracked.get(userId) !== entry) return token; // untracked meanwhile
+
+      entry.token = token;
+      entry.tokenExpiry = getTokenExpiry(token);
+      entry.consecutiveFailures = 0;
+      this.addHistory(entry, { time: Date.now(), trigger, success: true, expiresAt: entry.tokenExpiry });
+      this.scheduleFromExpiry(userId, entry);
+      return token;
+    } catch (error) {
+      if (this.tracked.get(userId) !== entry) throw error;
+
+      entry.consecutiveFailures++;
+      this.addHistory(entry, {
+        time: Date.now(),
+        trigger,
+        success: false,
+        expiresAt: null,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      const backoff = Math.min(RETRY_BASE_DELAY_MS * 2 ** (entry.consecutiveFailures - 1), RETRY_MAX_DELAY_MS);
+      const jitter = Math.random() * backoff * 0.2;
+      this.scheduleAt(userId, entry, Date.now() + backoff + jitter, 'retry');
+      throw error;
+    } finally {
+      entry.isRefreshing = false;
+      this.onChange();
+    }
+  }
+
+  private addHistory(entry: TrackedToken, attempt: RefreshAttempt): void {
+    entry.history = [attempt, ...entry.history].slice(0, HISTORY_LIMIT);
+  }
+}
@@ -0,0 +1,221 @@
+import { Tournament } from '@/lib/api-config';
+
+export const TOURNAMENT_STATUSES = ['upcoming', 'active', 'completed'] as const;
+
+export type TournamentStatus = typeof TOURNAMENT_STATUSES[number];
+
+export const TIME_WINDOWS = ['any', 'nextHour', 'today', 'next24h', 'next7d'] as const;
+
+export type TimeWindow = typeof TIME_WINDOWS[number];
+
+export const TIME_WINDOW_LABELS: Record<TimeWindow, string> = {
+  any: 'Any time',
+  nextHour: 'Starting within an hour',
+  today: 'Starting today',
+  next24h: 'Starting within 24 hours',
+  next7d: 'Starting within 7 days'
+};
+
+export const SORT_KEYS = ['start', 'name', 'entryFee', 'capacity'] as const;
+
+export type SortKey = typeof SORT_KEYS[number];
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface TournamentFilters {
+  search: string; // matched against name and ID
+  statuses: TournamentStatus[]; // empty means all
+  timeWindow: TimeWindow;
+  minFee: number | null;
+  maxFee: number | null;
+  minCapacity: number | null; // max_players
+  hasOpenSpots: boolean;
+  sortBy: SortKey;
+  sortDirection: SortDirection;
+  groupByDay: boolean;
+}
+
+export interface TournamentDayGroup {
+  day: string; // YYYY-MM-DD in local time
+  label: string;
+  tournaments: Tournament[];
+}
+
+export const DEFAULT_TOURNAMENT_FILTERS: TournamentFilters = {
+  search: '',
+  statuses: [],
+  timeWindow: 'any',
+  minFee: null,
+  maxFee: null,
+  minCapacity: null,
+  hasOpenSpots: false,
+  sortBy: 'start',
+  sortDirection: 'asc',
+  groupByDay: false
+};
+
+const HOUR = 60 * 60;
+
+/**
+ * Where a tournament is in its lifecycle at `now` (epoch seconds)
+ */
+export const getTournamentStatus = (tournament: Tournament, now: number): TournamentStatus => {
+  if (now < tournament.start) return 'upcoming';
+  if (now < tournament.end) return 'active';
+  return 'completed';
+};
+
+const getLocalDay = (epochSeconds: number): string => {
+  const date = new Date(epochSeconds * 1000);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const matchesTimeWindow = (tournament: Tournament, timeWindow: TimeWindow, now: number): boolean => {
+  switch (timeWindow) {
+    case 'any':
+      return true;
+    case 'today':
+      return getLocalDay(tournament.start) === getLocalDay(now);
+    case 'nextHour':
+      return tournament.start >= now && tournament.start <= now + HOUR;
+    case 'next24h':
+      return tournament.start >= now && tournament.start <= now + 24 * HOUR;
+    case 'next7d':
+      return tournament.start >= now && tournament.start <= now + 7 * 24 * HOUR;
+  }
+};
+
+export const filterTournaments = (tournaments: Tournament[], filters: TournamentFilters, now: number): Tournament[] => {
+  const search = filters.search.trim().toLowerCase();
+  return tournaments.filter(tournament => {
+    if (search && !tournament.name.toLowerCase().includes(search) && !String(tournament.id).toLowerCase().includes(search)) {
+      return false;
+    }
+    if (filters.statuses.length > 0 && !filters.statuses.includes(getTournamentStatus(tournament, now))) {
+      return false;
+    }
+    if (!matchesTimeWindow(tournament, filters.timeWindow, now)) {
+      return false;
+    }
+
+    const fee = tournament.entry_fee || 0;
+    if (filters.minFee !== null && fee < filters.minFee) return false;
+    if (filters.maxFee !== null && fee > filters.maxFee) return false;
+
+    if (filters.minCapacity !== null && (tournament.max_players ?? 0) < filters.minCapacity) return false;
+    if (filters.hasOpenSpots && tournament.max_players && (tournament.current_players || 0) >= tournament.max_players) {
+      return false;
+    }
+    return true;
+  });
+};
+
+const SORT_VALUES: Record<SortKey, (tournament: Tournament) => number | string> = {
+  start: tournament => tournament.start,
+  name: tournament => tournament.name.toLowerCase(),
+  entryFee: tournament => tournament.entry_fee || 0,
+  capacity: tournament => tournament.max_players ?? 0
+};
+
+export const sortTournaments = (tournaments: Tournament[], sortBy: SortKey, direction: SortDirection): Tournament[] => {
+  const getValue = SORT_VALUES[sortBy];
+  const factor = direction === 'asc' ? 1 : -1;
+  return [...tournaments].sort((a, b) => {
+    const valueA = getValue(a);
+    const valueB = getValue(b);
+    if (valueA === valueB) return a.start - b.start;
+    return (valueA < valueB ? -1 : 1) * factor;
+  });
+};
+
+/**
+ * Group tournaments by the local day they start on, keeping their order
+ */
+export const groupTournamentsByDay = (tournaments: Tournament[]): TournamentDayGroup[] => {
+  const groups = new Map<string, TournamentDayGroup>();
+  tournaments.forEach(tournament => {
+    const day = getLocalDay(tournament.start);
+    if (!groups.has(day)) {
+      groups.set(day, {
+        day,
+        label: new Date(tournament.start * 1000).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' }),
+        tournaments: []
+      });
+    }
+    groups.get(day)!.tournaments.push(tournament);
+  });
+  return Array.from(groups.values());
+};
+
+// Filters live in the page URL (only where they differ from the defaults) so a
+// filtered view can be bookmarked or shared. Parameters are prefixed with "t".
+const PARAMS = {
+  search: 'tq',
+  statuses: 'tstatus',
+  timeWindow: 'twindow',
+  minFee: 'tminfee',
+  maxFee: 'tmaxfee',
+  minCapacity: 'tmincap',
+  hasOpenSpots: 'topen',
+  sortBy: 'tsort',
+  sortDirection: 'tdir',
+  groupByDay: 'tgroup'
+} as const;
+
+const parseNumber = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export const filtersFromSearchParams = (params: URLSearchParams): TournamentFilters => {
+  const statuses = (params.get(PARAMS.statuses) || '')
+    .split(',')
+    .filter((status): status is TournamentStatus => TOURNAMENT_STATUSES.includes(status as TournamentStatus));
+  const timeWindow = params.get(PARAMS.timeWindow) as TimeWindow;
+  const sortBy = params.get(PARAMS.sortBy) as SortKey;
+
+  return {
+    search: params.get(PARAMS.search) || '',
+    statuses,
+    timeWindow: TIME_WINDOWS.includes(timeWindow) ? timeWindow : DEFAULT_TOURNAMENT_FILTERS.timeWindow,
+    minFee: parseNumber(params.get(PARAMS.minFee)),
+    maxFee: parseNumber(params.get(PARAMS.maxFee)),
+    minCapacity: parseNumber(params.get(PARAMS.minCapacity)),
+    hasOpenSpots: params.get(PARAMS.hasOpenSpots) === '1',
+    sortBy: SORT_KEYS.includes(sortBy) ? sortBy : DEFAULT_TOURNAMENT_FILTERS.sortBy,
+    sortDirection: params.get(PARAMS.sortDirection) === 'desc' ? 'desc' : 'asc',
+    groupByDay: params.get(PARAMS.groupByDay) === '1'
+  };
+};
+
+/**
+ * Write the filters into `params`, replacing earlier filter parameters and leaving others alone
+ */
+export const applyFiltersToSearchParams = (params: URLSearchParams, filters: TournamentFilters): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  Object.values(PARAMS).forEach(name => next.delete(name));
+
+  const values: Record<keyof typeof PARAMS, string | null> = {
+    search: filters.search.trim() || null,
+    statuses: filters.statuses.length > 0 ? filters.statuses.join(',') : null,
+    timeWindow: filters.timeWindow !== DEFAULT_TOURNAMENT_FILTERS.timeWindow ? filters.timeWindow : null,
+    minFee: filters.minFee !== null ? String(filters.minFee) : null,
+    maxFee: filters.maxFee !== null ? String(filters.maxFee) : null,
+    minCapacity: filters.minCapacity !== null ? String(filters.minCapacity) : null,
+    hasOpenSpots: filters.hasOpenSpots ? '1' : null,
+    sortBy: filters.sortBy !== DEFAULT_TOURNAMENT_FILTERS.sortBy ? filters.sortBy : null,
+    sortDirection: filters.sortDirection !== DEFAULT_TOURNAMENT_FILTERS.sortDirection ? filters.sortDirection : null,
+    groupByDay: filters.groupByDay ? '1' : null
+  };
+
+  (Object.keys(PARAMS) as Array<keyof typeof PARAMS>).forEach(key => {
+    const value = values[key];
+    if (value !== null) {
+      next.set(PARAMS[key], value);
+    }
+  });
+  return next;
+};
@@ -0,0 +1,171 @@
+import { decodeJwt } from '@/lib/jwt';
+
+// Server-side, in-memory record of every exchange that goes through /api/proxy.
+// Kept on globalThis so it survives dev-server module reloads.
+
+const MAX_ENTRIES = 500;
+export const BODY_PREVIEW_LIMIT = 4096;
+
+const REDACTED_HEADERS = ['authorization', 'cookie', 'set-cookie', 'x-proxy-secret'];
+
+const TEXT_CONTENT_TYPES = [/^text\//, /json/, /xml/, /javascript/, /x-www-form-urlencoded/];
+
+export interface TrafficPlayer {
+  userId: string | null;
+  email: string | null;
+  name: string | null;
+}
+
+export interface TrafficEntry {
+  id: string;
+  sequence: number; // order in which exchanges completed
+  timestamp: number;
+  player: TrafficPlayer;
+  environment: string;
+  method: string;
+  path: string; // API path below /api/v1, including any forwarded query string
+  url: string; // full upstream URL
+  requestHeaders: Record<string, string>;
+  requestBodyPreview: string | null;
+  requestBodySize: number;
+  status: number | null; // null when the upstream couldn't be reached
+  statusText: string;
+  responseHeaders: Record<string, string>;
+  responseBodyPreview: string | null;
+  responseBodySize: number;
+  latencyMs: number;
+  error?: string;
+}
+
+// What is known about an exchange by the time the upstream responds
+export type TrafficRequestInfo = Pick<
+  TrafficEntry,
+  'id' | 'timestamp' | 'player' | 'environment' | 'method' | 'path' | 'url' | 'requestHeaders' | 'latencyMs'
+>;
+
+export interface BodyCapture {
+  preview: string | null;
+  size: number;
+}
+
+// Credentials are only ever stored redacted; an unredacted HAR export takes the
+// tokens from the players signed in to the exporting browser instead.
+interface TrafficLogState {
+  entries: TrafficEntry[];
+  nextSequence: number;
+}
+
+const globalForTraffic = globalThis as typeof globalThis & { __tambolaTrafficLog?: TrafficLogState };
+
+const getState = (): TrafficLogState => {
+  if (!globalForTraffic.__tambolaTrafficLog) {
+    globalForTraffic.__tambolaTrafficLog = { entries: [], nextSequence: 1 };
+  }
+  return globalForTraffic.__tambolaTrafficLog;
+};
+
+export const recordTraffic = (entry: Omit<TrafficEntry, 'sequence'>): void => {
+  const state = getState();
+  state.entries.push({ ...entry, sequence: state.nextSequence++ });
+  if (state.entries.length > MAX_ENTRIES) {
+    state.entries.splice(0, state.entries.length - MAX_ENTRIES);
+  }
+};
+
+/**
+ * Entries in the order they completed, optionally only those after a given sequence number
+ */
+export const getTraffic = (afterSequence?: number): TrafficEntry[] => {
+  const { entries } = getState();
+  return afterSequence ? entries.filter(entry => entry.sequence > afterSequence) : [...entries];
+};
+
+export const getLatestSequence = (): number => {
+  return getState().nextSequence - 1;
+};
+
+export const clearTraffic = (): void => {
+  const state = getState();
+  state.entries.length = 0;
+};
+
+export const createTrafficId = (): string => {
+  return `traffic-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+};
+
+/**
+ * Work out which player made a request from the (unverified) token claims
+ */
+export const getTrafficPlayer = (authorization: string | null): TrafficPlayer => {
+  const payload = authorization ? decodeJwt(authorization)?.payload : undefined;
+  return {
+    userId: payload?.user_id || payload?.sub || null,
+    email: payload?.email || null,
+    name: payload?.name || null
+  };
+};
+
+/**
+ * Copy headers into a plain object with credentials redacted
+ */
+export const redactHeaders = (headers: Headers): Record<string, string> => {
+  const result: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    result[key] = REDACTED_HEADERS.includes(key.toLowerCase()) ? '[REDACTED]' : value;
+  });
+  return result;
+};
+
+const isTextContent = (contentType: string | null): boolean => {
+  return !contentType || TEXT_CONTENT_TYPES.some(pattern => pattern.test(contentType));
+};
+
+/**
+ * Read a (tee'd) body stream to the end, keeping only the first few KB as a preview
+ */
+export const captureBody = async (
+  stream: ReadableStream<Uint8Array> | null,
+  contentType: string | null
+): Promise<BodyCapture> => {
+  if (!stream) {
+    return { preview: null, size: 0 };
+  }
+
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let captured = 0;
+  let size = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      size += value.byteLength;
+      if (captured < BODY_PREVIEW_LIMIT) {
+        const chunk = value.subarray(0, BODY_PREVIEW_LIMIT - captured);
+        chunks.push(chunk);
+        captured += chunk.byteLength;
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to capture body for traffic log:', error);
+  }
+
+  if (size === 0) {
+    return { preview: null, size };
+  }
+  if (!isTextContent(contentType)) {
+    return { preview: `[binary ${contentType}, ${size} bytes]`, size };
+  }
+
+  const bytes = new Uint8Array(captured);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+
+  const preview = new TextDecoder().decode(bytes);
+  return { preview: size > captured ? `${preview}…` : preview, size };
+};
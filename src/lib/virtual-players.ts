@@ -0,0 +1,117 @@
+import { Environment, MOCK_BASE_URL, requireEnvironment } from '@/lib/environments';
+import { getFirebaseConfig } from '@/lib/firebase-config';
+import { decodeJwt } from '@/lib/jwt';
+
+// Virtual players exist only as ID tokens for load testing; they never get a player slot.
+//
+//   unsigned     locally made, unsigned JWTs. Only the mock backend accepts them, as it
+//                reads the caller from the token without verifying it.
+//   emulator     anonymous accounts created in the environment's Firebase Auth emulator
+//   customToken  Firebase custom tokens (minted by a backend script) exchanged for ID tokens
+
+export const VIRTUAL_TOKEN_SOURCES = ['unsigned', 'emulator', 'customToken'] as const;
+
+export type VirtualTokenSource = typeof VIRTUAL_TOKEN_SOURCES[number];
+
+export const VIRTUAL_TOKEN_SOURCE_LABELS: Record<VirtualTokenSource, string> = {
+  unsigned: 'Unsigned tokens (mock backend)',
+  emulator: 'Auth emulator accounts',
+  customToken: 'Custom tokens'
+};
+
+export interface VirtualPlayer {
+  id: string;
+  label: string;
+  token: string;
+}
+
+// How many accounts are created against Firebase at once
+const CREATE_CONCURRENCY = 10;
+
+/**
+ * The token sources that can work against an environment
+ */
+export const getTokenSources = (environment: Environment): VirtualTokenSource[] => {
+  const { baseUrl, authEmulatorUrl } = requireEnvironment(environment);
+  return VIRTUAL_TOKEN_SOURCES.filter(source => {
+    if (source === 'unsigned') return baseUrl === MOCK_BASE_URL;
+    if (source === 'emulator') return Boolean(authEmulatorUrl);
+    return true;
+  });
+};
+
+const encodeBase64Url = (value: unknown): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  return btoa(String.fromCharCode(...Array.from(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const createUnsignedToken = (userId: string, name: string): string => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = encodeBase64Url({ alg: 'none', typ: 'JWT' });
+  const payload = encodeBase64Url({ sub: userId, user_id: userId, name, iat: now, exp: now + 60 * 60 });
+  return `${header}.${payload}.`;
+};
+
+/**
+ * Call an Identity Toolkit accounts endpoint (on the emulator when the environment has one)
+ */
+const callAccountsApi = async (
+  environment: Environment,
+  endpoint: 'signUp' | 'signInWithCustomToken',
+  body: Record<string, unknown>
+): Promise<{ idToken: string }> => {
+  const { apiKey } = getFirebaseConfig(environment);
+  const { authEmulatorUrl } = requireEnvironment(environment);
+  const host = authEmulatorUrl
+    ? `${authEmulatorUrl.replace(/\/$/, '')}/identitytoolkit.googleapis.com`
+    : 'https://identitytoolkit.googleapis.com';
+
+  const response = await fetch(`${host}/v1/accounts:${endpoint}?key=${encodeURIComponent(apiKey)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...body, returnSecureToken: true })
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error?.message || `${endpoint} failed: ${response.status} ${response.statusText}`);
+  }
+  return data;
+};
+
+/**
+ * Create `count` virtual players (for custom tokens, one per token given)
+ */
+export const createVirtualPlayers = async (
+  environment: Environment,
+  source: VirtualTokenSource,
+  count: number,
+  customTokens: string[] = [],
+  onProgress?: (created: number) => void
+): Promise<VirtualPlayer[]> => {
+  const runId = Math.random().toString(36).substr(2, 6);
+  const total = source === 'customToken' ? Math.min(count, customTokens.length) : count;
+  const players: VirtualPlayer[] = [];
+
+  const createPlayer = async (index: number): Promise<VirtualPlayer> => {
+    const label = `Virtual ${index + 1}`;
+    if (source === 'unsigned') {
+      const id = `virtual-${runId}-${index + 1}`;
+      return { id, label, token: createUnsignedToken(id, label) };
+    }
+
+    const { idToken } = source === 'emulator'
+      ? await callAccountsApi(environment, 'signUp', {})
+      : await callAccountsApi(environment, 'signInWithCustomToken', { token: customTokens[index] });
+    const userId = decodeJwt(idToken)?.payload.user_id;
+    return { id: userId || `virtual-${runId}-${index + 1}`, label, token: idToken };
+  };
+
+  for (let start = 0; start < total; start += CREATE_CONCURRENCY) {
+    const batch = Array.from({ length: Math.min(CREATE_CONCURRENCY, total - start) }, (_, offset) => start + offset);
+    players.push(...await Promise.all(batch.map(createPlayer)));
+    onProgress?.(players.length);
+  }
+
+  return players;
+};
@@ -1,5 +1,22 @@
 import { User } from 'firebase/auth';
-import { Environment } from '@/lib/firebase-config';
+import { Environment } from '@/lib/environments';
+
+export type SignInProvider = 'google' | 'password' | 'anonymous' | 'customToken';
+
+// Sign-in choice remembered for a player slot. Custom tokens are single-use, so they aren't kept.
+export interface SlotSignInSettings {
+  provider: SignInProvider;
+  email?: string;
+  password?: string;
+}
+
+// A test account remembered for a role, so it can be signed in again with one click
+export interface Persona extends SlotSignInSettings {
+  id: string;
+  label: string;
+  preferredSlotId?: string;
+  requestHeaders: Record<string, string>; // sent with every API request made as this player
+}
 
 export interface AuthenticatedUser {
   id: string;
@@ -12,6 +29,11 @@ export interface AuthenticatedUser {
   displayName: string | null;
   email: string | null;
   photoURL: string | null;
+  provider?: SignInProvider;
+  slotId?: string; // the player slot it is signed in to
+  slotLabel?: string;
+  personaId?: string;
+  requestHeaders?: Record<string, string>;
 }
 
 export interface TournamentSubscription {
@@ -20,15 +42,47 @@ export interface TournamentSubscription {
   environment: Environment;
   subscriptionTime: number;
   status: 'subscribed' | 'active' | 'completed' | 'cancelled';
+  displayName?: string | null;
+}
+
+export interface SubscriptionResult {
+  userId: string;
+  displayName: string | null;
+  success: boolean;
+  subscription?: TournamentSubscription;
+  error?: string;
+}
+
+export interface ParticipantClaim {
+  ticketId: string;
+  claim: keyof TambolaTicket['claims'];
+  accepted: boolean;
+  message: string;
+  callIndex: number | null;
+  time: number;
+}
+
+export interface ParticipantState {
+  userId: string;
+  displayName: string | null;
+  status: 'pending' | 'ready' | 'error';
+  tickets: TambolaTicket[];
+  claims: ParticipantClaim[];
+  errors: string[];
 }
 
 export interface GameSession {
   sessionId: string;
   tournamentId: string;
+  tournamentName: string;
   participants: AuthenticatedUser[];
+  participantStates: Record<string, ParticipantState>;
   environment: Environment;
   startTime: number;
+  endTime: number;
   status: 'waiting' | 'active' | 'completed';
+  calledNumbers: number[];
+  lastEventTime: number | null;
 }
 
 export interface TambolaTicket {